@@ -141,6 +141,9 @@ async function generateStationsData() {
             url_resolved: station.url_resolved,
             country: station.country,
             countrycode: station.countrycode,
+            tags: station.tags,
+            language: station.language,
+            languagecodes: station.languagecodes,
             codec: station.codec,
             bitrate: station.bitrate,
             votes: station.votes,
@@ -177,6 +180,9 @@ async function generateStationsData() {
           url_resolved: station.url_resolved,
           country: station.country,
           countrycode: station.countrycode,
+          tags: station.tags,
+          language: station.language,
+          languagecodes: station.languagecodes,
           codec: station.codec,
           bitrate: station.bitrate,
           votes: station.votes,
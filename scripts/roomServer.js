@@ -0,0 +1,345 @@
+const http = require('http');
+const crypto = require('crypto');
+
+// WebSocket server for shared focus rooms. The first member of a room is its host: the
+// host's timer is the room's timer, and the server relays it to everyone else along with
+// who's in the room. Member ids are handed out here, with a secret token that lets a
+// member reconnect under the same id, so nobody can pass for another member. Run it next
+// to `next start`:
+//
+//   npm run rooms            # listen on port 4001
+//   npm run rooms -- 4002    # listen on another port
+//
+// Browsers connect to ws://<host>:4001 unless NEXT_PUBLIC_ROOM_SERVER_URL says otherwise.
+// Speaks just enough of the WebSocket protocol (RFC 6455) for browsers, so it has no
+// dependencies.
+
+const args = process.argv.slice(2);
+const port = Number(args.find(arg => /^\d+$/.test(arg)) ?? process.env.ROOM_SERVER_PORT ?? 4001);
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_BYTES = 256 * 1024;
+const HEARTBEAT_INTERVAL_MS = 30000;
+const MAX_NAME_LENGTH = 40;
+const MEMBER_STATUSES = ['focusing', 'break', 'paused', 'idle'];
+
+const OPCODES = {
+  continuation: 0x0,
+  text: 0x1,
+  close: 0x8,
+  ping: 0x9,
+  pong: 0xa,
+};
+
+function encodeFrame(opcode, payload = Buffer.alloc(0)) {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * One browser connection. Set onMessage to receive every parsed JSON message, and onClose
+ * to hear once when the connection ends.
+ */
+class Connection {
+  constructor(socket) {
+    this.socket = socket;
+    this.onMessage = () => {};
+    this.onClose = () => {};
+    this.buffer = Buffer.alloc(0);
+    this.fragments = [];
+    this.alive = true;
+    this.closed = false;
+
+    socket.on('data', chunk => this.receive(chunk));
+    // Upgraded sockets allow half-open connections, so finish as soon as the browser hangs up
+    socket.on('end', () => {
+      socket.end();
+      this.finish();
+    });
+    socket.on('close', () => this.finish());
+    socket.on('error', () => this.finish());
+  }
+
+  receive(chunk) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    while (this.buffer.length >= 2) {
+      const fin = (this.buffer[0] & 0x80) !== 0;
+      const opcode = this.buffer[0] & 0x0f;
+      const masked = (this.buffer[1] & 0x80) !== 0;
+      let length = this.buffer[1] & 0x7f;
+      let offset = 2;
+
+      if (length === 126) {
+        if (this.buffer.length < 4) return;
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.buffer.length < 10) return;
+        length = Number(this.buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+
+      if (length > MAX_MESSAGE_BYTES) {
+        this.close(1009);
+        return;
+      }
+
+      const maskLength = masked ? 4 : 0;
+      if (this.buffer.length < offset + maskLength + length) return;
+
+      const payload = Buffer.from(this.buffer.subarray(offset + maskLength, offset + maskLength + length));
+      if (masked) {
+        const mask = this.buffer.subarray(offset, offset + 4);
+        for (let i = 0; i < payload.length; i++) {
+          payload[i] ^= mask[i % 4];
+        }
+      }
+      this.buffer = this.buffer.subarray(offset + maskLength + length);
+
+      this.handleFrame(fin, opcode, payload);
+    }
+  }
+
+  handleFrame(fin, opcode, payload) {
+    switch (opcode) {
+      case OPCODES.text:
+      case OPCODES.continuation: {
+        this.fragments.push(payload);
+        if (!fin) return;
+
+        const text = Buffer.concat(this.fragments).toString('utf8');
+        this.fragments = [];
+        try {
+          this.onMessage(JSON.parse(text));
+        } catch {
+          this.send({ type: 'error', message: 'Invalid message' });
+        }
+        break;
+      }
+      case OPCODES.ping:
+        this.socket.write(encodeFrame(OPCODES.pong, payload));
+        break;
+      case OPCODES.pong:
+        this.alive = true;
+        break;
+      case OPCODES.close:
+        this.close();
+        break;
+    }
+  }
+
+  send(message) {
+    if (this.closed) return;
+    this.socket.write(encodeFrame(OPCODES.text, Buffer.from(JSON.stringify(message))));
+  }
+
+  ping() {
+    if (!this.alive) {
+      // No pong since the last ping
+      this.socket.destroy();
+      return;
+    }
+    this.alive = false;
+    this.socket.write(encodeFrame(OPCODES.ping));
+  }
+
+  close(code = 1000) {
+    if (this.closed) return;
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code, 0);
+    this.socket.end(encodeFrame(OPCODES.close, payload));
+    this.finish();
+  }
+
+  finish() {
+    if (this.closed) return;
+    this.closed = true;
+    this.onClose();
+  }
+}
+
+// roomId → { hostId, members: Map<memberId, { id, name, status, connection }>, tokens: Map<memberId, token>, snapshot, sharedStation }
+const rooms = new Map();
+const connections = new Set();
+
+function getMembers(room) {
+  return [...room.members.values()].map(({ id, name, status }) => ({ id, name, status }));
+}
+
+function broadcast(room, message, exceptId) {
+  room.members.forEach(member => {
+    if (member.id !== exceptId) {
+      member.connection.send(message);
+    }
+  });
+}
+
+function broadcastMembers(room) {
+  broadcast(room, { type: 'members', hostId: room.hostId, members: getMembers(room) });
+}
+
+// Compare secrets in constant time
+function isSameToken(a, b) {
+  if (typeof a !== 'string' || typeof b !== 'string' || a.length !== b.length) return false;
+  return crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+}
+
+function cleanName(name) {
+  return typeof name === 'string' && name.trim() ? name.trim().slice(0, MAX_NAME_LENGTH) : 'Guest';
+}
+
+function handleConnection(connection) {
+  // Set once the connection has joined a room
+  let roomId = null;
+  let memberId = null;
+
+  const getRoom = () => (roomId ? rooms.get(roomId) : undefined);
+
+  connection.onMessage = message => {
+    if (message.type === 'join') {
+      if (roomId) return;
+      if (typeof message.roomId !== 'string' || !/^[a-z0-9-]{3,40}$/i.test(message.roomId)) {
+        connection.send({ type: 'error', message: 'Invalid room' });
+        return;
+      }
+
+      roomId = message.roomId.toLowerCase();
+      let room = rooms.get(roomId);
+      if (!room) {
+        room = { hostId: null, members: new Map(), tokens: new Map(), snapshot: null, sharedStation: false };
+        rooms.set(roomId, room);
+        console.log(`🏠 Room ${roomId} created`);
+      }
+
+      // Members get their id from the server. Reconnecting with the token that came with
+      // it keeps the id; anything else makes a new member.
+      const rejoining = typeof message.memberId === 'string' && isSameToken(room.tokens.get(message.memberId), message.memberToken);
+      memberId = rejoining ? message.memberId : crypto.randomUUID();
+      const memberToken = rejoining ? message.memberToken : crypto.randomBytes(24).toString('hex');
+      room.tokens.set(memberId, memberToken);
+      room.hostId ??= memberId;
+
+      // A member reconnecting replaces its old connection
+      const previous = room.members.get(memberId);
+      room.members.set(memberId, { id: memberId, name: cleanName(message.name), status: previous?.status ?? 'idle', connection });
+      previous?.connection.close();
+
+      connection.send({
+        type: 'welcome',
+        serverTime: Date.now(),
+        memberId,
+        memberToken,
+        hostId: room.hostId,
+        snapshot: room.snapshot,
+        sharedStation: room.sharedStation,
+      });
+      broadcastMembers(room);
+      console.log(`👋 ${cleanName(message.name)} joined ${roomId} (${room.members.size} in the room)`);
+      return;
+    }
+
+    const room = getRoom();
+    if (!room) return;
+    const isHost = room.hostId === memberId;
+
+    switch (message.type) {
+      case 'presence': {
+        const member = room.members.get(memberId);
+        if (!member) return;
+        if (!MEMBER_STATUSES.includes(message.status)) {
+          connection.send({ type: 'error', message: 'Invalid status' });
+          return;
+        }
+        member.name = cleanName(message.name);
+        member.status = message.status;
+        broadcastMembers(room);
+        break;
+      }
+      case 'snapshot':
+        if (!isHost) return;
+        room.snapshot = message.snapshot;
+        broadcast(room, { type: 'snapshot', snapshot: message.snapshot }, memberId);
+        break;
+      case 'command': {
+        const host = room.members.get(room.hostId);
+        if (isHost || !host) return;
+        host.connection.send({ type: 'command', command: message.command, from: room.members.get(memberId)?.name ?? 'Guest' });
+        break;
+      }
+      case 'settings':
+        if (!isHost) return;
+        room.sharedStation = message.sharedStation === true;
+        broadcast(room, { type: 'settings', sharedStation: room.sharedStation });
+        break;
+    }
+  };
+
+  connection.onClose = () => {
+    connections.delete(connection);
+    const room = getRoom();
+    if (!room || room.members.get(memberId)?.connection !== connection) return;
+
+    room.members.delete(memberId);
+    if (room.members.size === 0) {
+      rooms.delete(roomId);
+      console.log(`🏚️ Room ${roomId} closed`);
+      return;
+    }
+
+    // The longest-standing member takes over the timer
+    if (room.hostId === memberId) {
+      room.hostId = room.members.keys().next().value;
+    }
+    broadcastMembers(room);
+  };
+}
+
+const server = http.createServer((req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('This is the pomoradio room server. Connect with a WebSocket.\n');
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (req.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+
+  const accept = crypto.createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    '',
+  ].join('\r\n'));
+
+  const connection = new Connection(socket);
+  connections.add(connection);
+  handleConnection(connection);
+});
+
+setInterval(() => {
+  connections.forEach(connection => connection.ping());
+}, HEARTBEAT_INTERVAL_MS);
+
+server.listen(port, () => {
+  console.log(`🏠 Room server listening on ws://localhost:${port}/`);
+});
@@ -0,0 +1,45 @@
+const http = require('http');
+
+// Local server that prints every webhook it receives, for trying out webhooks without
+// a real integration. Point a webhook at http://localhost:4000/ (or the port given), with
+// the app started with WEBHOOK_ALLOWED_HOSTS=localhost so its relay may reach it.
+//
+//   npm run webhook-echo                    # listen on port 4000
+//   npm run webhook-echo -- 4010            # listen on another port
+//   npm run webhook-echo -- --fail-rate=0.5 # answer half the requests with a 500 to test retries
+
+const args = process.argv.slice(2);
+const port = Number(args.find(arg => /^\d+$/.test(arg)) ?? 4000);
+const failRateArg = args.find(arg => arg.startsWith('--fail-rate='));
+const failRate = failRateArg ? Number(failRateArg.split('=')[1]) : 0;
+
+let received = 0;
+
+const server = http.createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => {
+    body += chunk;
+  });
+
+  req.on('end', () => {
+    received++;
+    const fail = Math.random() < failRate;
+
+    console.log(`\n#${received} ${new Date().toLocaleTimeString()} ${req.method} ${req.url} → ${fail ? 500 : 200}`);
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body || '(empty body)');
+    }
+
+    res.writeHead(fail ? 500 : 200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(fail ? { error: 'Simulated failure' } : { received: true }));
+  });
+});
+
+server.listen(port, () => {
+  console.log(`🪝 Webhook echo server listening on http://localhost:${port}/`);
+  if (failRate > 0) {
+    console.log(`   Failing ${Math.round(failRate * 100)}% of requests`);
+  }
+});
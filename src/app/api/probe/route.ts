@@ -0,0 +1,130 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { NextResponse } from 'next/server';
+import type { RadioStation, StreamProbeRequest, StreamProbeResponse, StreamProbeResult } from '@/types/radio';
+import { MAX_PROBE_URLS, PROBE_TIMEOUT_MS } from '@/lib/streamProbe';
+import { checkOutboundUrl, isSameOriginRequest } from '@/lib/outboundRequests';
+
+// Stream URLs commonly redirect to the actual stream server, but not this often
+const MAX_REDIRECTS = 3;
+
+// Stream URLs of the stations the app ships with, the only ones it probes
+let knownStreamUrls: Promise<Set<string>> | null = null;
+
+function loadKnownStreamUrls(): Promise<Set<string>> {
+  knownStreamUrls ??= readFile(path.join(process.cwd(), 'public', 'radio-stations.json'), 'utf8')
+    .then(text => {
+      const { stations } = JSON.parse(text) as { stations: Pick<RadioStation, 'url' | 'url_resolved'>[] };
+      return new Set(stations.flatMap(station => [station.url, station.url_resolved].filter(Boolean)));
+    })
+    .catch(error => {
+      // Try again next time, e.g. once the station list has been generated
+      knownStreamUrls = null;
+      throw error;
+    });
+  return knownStreamUrls;
+}
+
+/**
+ * Check that radio streams answer with audio, from the server so CORS and mixed content
+ * don't get in the way. Reports each stream's status, content type and time to the first data.
+ * Only this app's pages may use it, only for the streams of known stations, and never to
+ * reach private or local addresses.
+ */
+export async function POST(request: Request) {
+  if (!isSameOriginRequest(request)) {
+    return NextResponse.json({ error: 'Cross-origin requests are not allowed' }, { status: 403 });
+  }
+
+  let body: Partial<StreamProbeRequest>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+  }
+
+  if (!Array.isArray(body.urls) || body.urls.some(url => typeof url !== 'string')) {
+    return NextResponse.json({ error: 'Expected a list of stream URLs' }, { status: 400 });
+  }
+  if (body.urls.length > MAX_PROBE_URLS) {
+    return NextResponse.json({ error: `At most ${MAX_PROBE_URLS} streams per request` }, { status: 400 });
+  }
+
+  let known: Set<string>;
+  try {
+    known = await loadKnownStreamUrls();
+  } catch (error) {
+    console.error('Failed to load the station list:', error);
+    return NextResponse.json({ error: 'Station list unavailable' }, { status: 503 });
+  }
+
+  const results = await Promise.all(body.urls.map(url => known.has(url)
+    ? probe(url)
+    : Promise.resolve<StreamProbeResult>({ url, ok: false, startMs: null, error: 'Not a known station' })));
+  return NextResponse.json<StreamProbeResponse>({ results });
+}
+
+async function probe(url: string): Promise<StreamProbeResult> {
+  const checked = await checkOutboundUrl(url);
+  if (!checked.ok) {
+    return { url, ok: false, startMs: null, error: checked.error };
+  }
+
+  const startedAt = Date.now();
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+  try {
+    // Follow redirects by hand, checking every hop like the URL itself
+    let target = checked.url;
+    let response = await fetchStream(target, controller.signal);
+    for (let redirects = 0; isRedirect(response) && redirects < MAX_REDIRECTS; redirects++) {
+      await response.body?.cancel().catch(() => {});
+      const next = await checkOutboundUrl(new URL(response.headers.get('location')!, target).toString());
+      if (!next.ok) {
+        return { url, ok: false, startMs: null, status: response.status, error: next.error };
+      }
+      target = next.url;
+      response = await fetchStream(target, controller.signal);
+    }
+
+    const contentType = response.headers.get('content-type') ?? undefined;
+    if (!response.ok || !response.body) {
+      return { url, ok: false, startMs: null, status: response.status, contentType, error: response.statusText || `HTTP ${response.status}` };
+    }
+
+    // Streams never end, so stop after the first chunk of audio
+    const reader = response.body.getReader();
+    const { value } = await reader.read();
+    const startMs = Date.now() - startedAt;
+    await reader.cancel().catch(() => {});
+
+    if (!value || value.length === 0) {
+      return { url, ok: false, startMs: null, status: response.status, contentType, error: 'No data' };
+    }
+    // A web page in place of the stream, e.g. a station's moved or parked domain
+    if (contentType && /text\/html/i.test(contentType)) {
+      return { url, ok: false, startMs: null, status: response.status, contentType, error: 'Not an audio stream' };
+    }
+    return { url, ok: true, startMs, status: response.status, contentType };
+  } catch (error) {
+    const message = error instanceof Error && error.name === 'AbortError'
+      ? 'Timed out'
+      : error instanceof Error ? error.message : 'Probe failed';
+    return { url, ok: false, startMs: null, error: message };
+  } finally {
+    clearTimeout(timeout);
+    controller.abort();
+  }
+}
+
+function fetchStream(target: URL, signal: AbortSignal): Promise<Response> {
+  return fetch(target, {
+    headers: { 'User-Agent': 'PomaRadio/1.0 probe', 'Icy-MetaData': '0' },
+    redirect: 'manual',
+    signal,
+  });
+}
+
+function isRedirect(response: Response): boolean {
+  return response.status >= 300 && response.status < 400 && response.headers.has('location');
+}
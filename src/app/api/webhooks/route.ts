@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import type { WebhookRelayRequest, WebhookRelayResponse } from '@/types/webhooks';
+import { checkOutboundUrl, isSameOriginRequest, parseHostList } from '@/lib/outboundRequests';
+
+// Give up on a webhook's server after this long
+const DELIVERY_TIMEOUT_MS = 10000;
+
+/**
+ * Relay a webhook delivery from the browser, so the receiving server doesn't need CORS.
+ * Only this app's pages may use it, and only to reach public hosts, or the hosts listed
+ * in WEBHOOK_ALLOWED_HOSTS when that's set.
+ */
+export async function POST(request: Request) {
+  if (!isSameOriginRequest(request)) {
+    return NextResponse.json<WebhookRelayResponse>({ ok: false, error: 'Cross-origin requests are not allowed' }, { status: 403 });
+  }
+
+  let body: Partial<WebhookRelayRequest>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json<WebhookRelayResponse>({ ok: false, error: 'Invalid JSON' }, { status: 400 });
+  }
+
+  const target = await checkOutboundUrl(body.url ?? '', parseHostList(process.env.WEBHOOK_ALLOWED_HOSTS));
+  if (!target.ok) {
+    return NextResponse.json<WebhookRelayResponse>({ ok: false, error: target.error }, { status: 400 });
+  }
+
+  try {
+    const response = await fetch(target.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'PomaRadio/1.0 webhooks',
+      },
+      body: JSON.stringify(body.payload ?? null),
+      // A redirect could point anywhere, including the addresses checked for above
+      redirect: 'manual',
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+
+    return NextResponse.json<WebhookRelayResponse>({
+      ok: response.ok,
+      status: response.status,
+      ...(!response.ok && { error: response.statusText || `HTTP ${response.status}` }),
+    });
+  } catch (error) {
+    const message = error instanceof Error && error.name === 'TimeoutError'
+      ? 'Timed out'
+      : error instanceof Error ? error.message : 'Delivery failed';
+    return NextResponse.json<WebhookRelayResponse>({ ok: false, error: message });
+  }
+}
@@ -0,0 +1,10 @@
+import type { Metadata } from "next";
+import { MiniTimer } from '@/components/MiniTimer';
+
+export const metadata: Metadata = {
+  title: "Pomoradio mini timer",
+};
+
+export default function Mini() {
+  return <MiniTimer />;
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import { Play } from 'lucide-react';
+import type { ChimeSound } from '@/types/alerts';
+import { usePhaseAlerts } from '@/hooks/usePhaseAlerts';
+import { CHIME_SOUNDS } from '@/lib/chimes';
+
+interface AlertsPanelProps {
+  phaseAlerts: ReturnType<typeof usePhaseAlerts>;
+}
+
+const CHIME_OPTIONS = Object.keys(CHIME_SOUNDS) as ChimeSound[];
+
+export function AlertsPanel({ phaseAlerts }: AlertsPanelProps) {
+  const { preferences, permission, updatePreferences, setNotificationsEnabled, previewChime } = phaseAlerts;
+
+  const renderChimePicker = (label: string, key: 'focusChime' | 'breakChime') => (
+    <label className="flex items-center justify-between gap-3 text-sm text-gray-300">
+      <span>{label}</span>
+      <div className="flex items-center gap-1">
+        <select
+          value={preferences[key]}
+          onChange={(e) => updatePreferences({ [key]: e.target.value as ChimeSound })}
+          className="bg-gray-800 rounded-md !px-2 !py-1 text-xs text-white border border-gray-700 focus:border-blue-500 outline-none"
+        >
+          {CHIME_OPTIONS.map(sound => (
+            <option key={sound} value={sound}>{CHIME_SOUNDS[sound].label}</option>
+          ))}
+        </select>
+        <button
+          onClick={(e) => {
+            e.preventDefault();
+            previewChime(preferences[key]);
+          }}
+          className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700/50 transition-colors"
+          title="Preview"
+        >
+          <Play size={12} />
+        </button>
+      </div>
+    </label>
+  );
+
+  return (
+    <div className="!space-y-3">
+      <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={preferences.notifications}
+          disabled={permission === 'unsupported'}
+          onChange={(e) => setNotificationsEnabled(e.target.checked)}
+        />
+        Desktop notifications
+      </label>
+      {permission === 'denied' && (
+        <div className="text-xs text-red-400">
+          Notifications are blocked for this site. Allow them in your browser settings.
+        </div>
+      )}
+      {permission === 'unsupported' && (
+        <div className="text-xs text-gray-500">This browser doesn&apos;t support notifications.</div>
+      )}
+
+      <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={preferences.chimes}
+          onChange={(e) => updatePreferences({ chimes: e.target.checked })}
+        />
+        Chimes
+      </label>
+
+      {preferences.chimes && (
+        <div className="!space-y-2">
+          {renderChimePicker('Focus starts', 'focusChime')}
+          {renderChimePicker('Break starts', 'breakChime')}
+          <label className="flex items-center justify-between gap-3 text-sm text-gray-300">
+            <span>Volume</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={preferences.chimeVolume}
+              onChange={(e) => updatePreferences({ chimeVolume: Number(e.target.value) })}
+              className="w-28"
+            />
+          </label>
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Alerts fire on every phase change. A playing station is turned down while the chime sounds.
+      </p>
+    </div>
+  );
+}
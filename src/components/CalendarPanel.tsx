@@ -0,0 +1,152 @@
+'use client';
+
+import { useState, useRef } from 'react';
+import { Upload, Trash2 } from 'lucide-react';
+import type { MeetingConflictMode } from '@/types/calendar';
+import { useCalendar } from '@/hooks/useCalendar';
+
+interface CalendarPanelProps {
+  calendar: ReturnType<typeof useCalendar>;
+}
+
+// How many upcoming meetings to list
+const UPCOMING_LIMIT = 4;
+
+const CONFLICT_MODES: { value: MeetingConflictMode; label: string }[] = [
+  { value: 'shorten', label: 'End focus when a meeting starts' },
+  { value: 'warn', label: 'Only warn me' },
+];
+
+function formatMeetingTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export function CalendarPanel({ calendar }: CalendarPanelProps) {
+  const { calendar: imported, eventCount, conflictMode, storageError, busyBlocks, importCalendar, clearCalendar, setConflictMode } = calendar;
+  const [pasted, setPasted] = useState('');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImport = (ics: string, name: string) => {
+    try {
+      const count = importCalendar(ics, name);
+      setMessage({ text: `Imported ${count} events.`, isError: false });
+      setPasted('');
+    } catch (error) {
+      console.error('Failed to import calendar:', error);
+      setMessage({ text: 'That is not an iCalendar (.ics) file.', isError: true });
+    }
+  };
+
+  const now = Date.now();
+  const upcoming = busyBlocks.filter(block => block.end > now).slice(0, UPCOMING_LIMIT);
+
+  return (
+    <div className="!space-y-3">
+      <div className="text-xs text-gray-400">
+        The timer pauses during meetings, and break radio waits until they&apos;re over.
+      </div>
+
+      {imported ? (
+        <div className="flex items-center justify-between gap-2">
+          <div className="min-w-0">
+            <div className="text-sm text-white truncate">{imported.name}</div>
+            <div className="text-xs text-gray-500">{eventCount} events</div>
+          </div>
+          <button
+            onClick={() => {
+              clearCalendar();
+              setMessage(null);
+            }}
+            className="p-1 rounded text-gray-400 hover:text-red-400 hover:bg-gray-700/50 transition-colors"
+            title="Remove calendar"
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+      ) : (
+        <div className="text-xs text-gray-500">No calendar imported.</div>
+      )}
+
+      <div className="!space-y-2">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-1.5 !px-3 !py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-white text-xs transition-colors"
+        >
+          <Upload size={12} />
+          {imported ? 'Replace with .ics file' : 'Import .ics file'}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="text/calendar,.ics"
+          className="hidden"
+          onChange={async (e) => {
+            const file = e.target.files?.[0];
+            e.target.value = ''; // allow importing the same file again
+            if (file) handleImport(await file.text(), file.name);
+          }}
+        />
+        <textarea
+          value={pasted}
+          onChange={(e) => setPasted(e.target.value)}
+          placeholder="…or paste ICS text"
+          rows={3}
+          className="w-full bg-gray-800 rounded-md !px-2 !py-1 text-xs text-white font-mono border border-gray-700 focus:border-blue-500 outline-none resize-none"
+        />
+        {pasted.trim() && (
+          <button
+            onClick={() => handleImport(pasted, 'Pasted calendar')}
+            className="!px-3 !py-1.5 rounded-lg bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/50 text-white text-xs transition-colors"
+          >
+            Import pasted text
+          </button>
+        )}
+      </div>
+
+      {message && (
+        <div className={`text-xs ${message.isError ? 'text-red-400' : 'text-gray-300'}`}>{message.text}</div>
+      )}
+      {storageError && (
+        <div className="text-xs text-red-400">{storageError}</div>
+      )}
+
+      {imported && (
+        <>
+          <label className="flex items-center justify-between gap-3 text-sm text-gray-300">
+            <span>Focus runs into a meeting</span>
+            <select
+              value={conflictMode}
+              onChange={(e) => setConflictMode(e.target.value as MeetingConflictMode)}
+              className="bg-gray-800 rounded-md !px-2 !py-1 text-xs text-white border border-gray-700 focus:border-blue-500 outline-none"
+            >
+              {CONFLICT_MODES.map(mode => (
+                <option key={mode.value} value={mode.value}>{mode.label}</option>
+              ))}
+            </select>
+          </label>
+
+          <div className="!space-y-1">
+            <div className="text-xs text-gray-400">Upcoming</div>
+            {upcoming.length === 0 ? (
+              <div className="text-xs text-gray-500">No meetings in the next week.</div>
+            ) : (
+              upcoming.map(block => (
+                <div key={block.id} className="flex items-center justify-between gap-2 text-xs">
+                  <span className="text-gray-300 truncate">{block.summary}</span>
+                  <span className="text-gray-500 flex-shrink-0">
+                    {block.start <= now ? 'now' : formatMeetingTime(block.start)}
+                  </span>
+                </div>
+              ))
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
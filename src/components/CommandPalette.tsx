@@ -0,0 +1,164 @@
+'use client';
+
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { Search, Play, Globe, Command } from 'lucide-react';
+import type { RadioStation } from '@/types/radio';
+import { fuzzySearch } from '@/lib/fuzzySearch';
+import { formatCombo } from '@/lib/shortcuts';
+import { getCountryFlag } from '@/utils/countryFlags';
+
+export interface PaletteCommand {
+  id: string;
+  label: string;
+  shortcut?: string; // key combo shown next to the command
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  commands: PaletteCommand[];
+  onPlayStation: (station: RadioStation) => void;
+  onFlyToStation: (station: RadioStation) => void;
+  onClose: () => void;
+}
+
+type PaletteItem =
+  | { kind: 'command'; command: PaletteCommand }
+  | { kind: 'station'; station: RadioStation };
+
+const MAX_STATION_RESULTS = 8;
+
+// Loaded once and shared between openings of the palette
+let stationsPromise: Promise<RadioStation[]> | null = null;
+
+function loadStations(): Promise<RadioStation[]> {
+  if (!stationsPromise) {
+    stationsPromise = fetch('/radio-stations.json')
+      .then(response => response.json())
+      .then(data => data.stations as RadioStation[])
+      .catch(error => {
+        console.error('Failed to load radio stations for the command palette:', error);
+        stationsPromise = null;
+        return [];
+      });
+  }
+  return stationsPromise;
+}
+
+export function CommandPalette({ commands, onPlayStation, onFlyToStation, onClose }: CommandPaletteProps) {
+  const [query, setQuery] = useState('');
+  const [stations, setStations] = useState<RadioStation[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    loadStations().then(setStations);
+  }, []);
+
+  const items = useMemo<PaletteItem[]>(() => {
+    const matchingCommands = query.trim()
+      ? fuzzySearch(commands, query, command => command.label, commands.length)
+      : commands;
+    // Stations only once there's something to search for
+    const matchingStations = query.trim().length >= 2
+      ? fuzzySearch(stations, query, station => `${station.name} ${station.country}`, MAX_STATION_RESULTS)
+      : [];
+
+    return [
+      ...matchingCommands.map(command => ({ kind: 'command' as const, command })),
+      ...matchingStations.map(station => ({ kind: 'station' as const, station })),
+    ];
+  }, [commands, stations, query]);
+
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [query]);
+
+  const runItem = (item: PaletteItem, flyOnly: boolean = false) => {
+    onClose();
+    if (item.kind === 'command') {
+      item.command.run();
+    } else {
+      if (!flyOnly) onPlayStation(item.station);
+      onFlyToStation(item.station);
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setSelectedIndex(prev => Math.min(prev + 1, items.length - 1));
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setSelectedIndex(prev => Math.max(prev - 1, 0));
+    } else if (event.key === 'Enter' && items[selectedIndex]) {
+      event.preventDefault();
+      runItem(items[selectedIndex], event.altKey);
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center bg-black/60 !pt-[15vh]" onClick={onClose}>
+      <div
+        className="bg-gray-900/95 backdrop-blur-xl border border-gray-700 rounded-xl shadow-lg w-[32rem] max-w-[calc(100vw-2rem)] overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-2 !px-4 !py-3 border-b border-gray-700">
+          <Search className="h-4 w-4 text-gray-400" />
+          <input
+            ref={inputRef}
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Run a command or search stations…"
+            className="flex-1 bg-transparent text-sm text-white placeholder-gray-500 outline-none"
+          />
+        </div>
+
+        <div className="max-h-80 overflow-y-auto !py-1">
+          {items.length === 0 && (
+            <div className="!px-4 !py-3 text-sm text-gray-400">No matches</div>
+          )}
+          {items.map((item, index) => (
+            <button
+              key={item.kind === 'command' ? item.command.id : item.station.stationuuid}
+              onClick={() => runItem(item)}
+              onMouseEnter={() => setSelectedIndex(index)}
+              className={`flex items-center gap-3 w-full !px-4 !py-2 text-left text-sm transition-colors ${
+                index === selectedIndex ? 'bg-gray-800 text-white' : 'text-gray-300'
+              }`}
+            >
+              {item.kind === 'command' ? (
+                <>
+                  <Command className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                  <span className="flex-1 truncate">{item.command.label}</span>
+                  {item.command.shortcut && (
+                    <span className="font-mono text-xs text-gray-500">{formatCombo(item.command.shortcut)}</span>
+                  )}
+                </>
+              ) : (
+                <>
+                  <span className="text-lg leading-none">{getCountryFlag(item.station.countrycode)}</span>
+                  <span className="flex-1 min-w-0">
+                    <span className="block truncate">{item.station.name}</span>
+                    <span className="block truncate text-xs text-gray-500">{item.station.country}</span>
+                  </span>
+                  {index === selectedIndex && (
+                    <span className="flex items-center gap-2 text-xs text-gray-500">
+                      <Play size={12} /> Enter
+                      <Globe size={12} /> Alt+Enter
+                    </span>
+                  )}
+                </>
+              )}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
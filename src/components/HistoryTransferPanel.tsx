@@ -0,0 +1,121 @@
+'use client';
+
+import { useState, useRef } from 'react';
+import { Download, Upload } from 'lucide-react';
+import type { PhaseHistoryEntry } from '@/types/history';
+import type { HistoryExportFormat } from '@/lib/historyExport';
+import { EXPORT_FORMATS, downloadFile, filterEntriesByRange, parseHistoryJson } from '@/lib/historyExport';
+
+interface HistoryTransferPanelProps {
+  entries: PhaseHistoryEntry[];
+  onImport: (entries: PhaseHistoryEntry[]) => Promise<number>;
+}
+
+const FORMATS = Object.keys(EXPORT_FORMATS) as HistoryExportFormat[];
+
+// Parse a date input value (YYYY-MM-DD) as local midnight, optionally some days later
+function parseDateInput(value: string, addDays: number = 0): number | undefined {
+  if (!value) return undefined;
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day + addDays).getTime();
+}
+
+export function HistoryTransferPanel({ entries, onImport }: HistoryTransferPanelProps) {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const fromTime = parseDateInput(from);
+  // The end date includes the whole day, up to the next local midnight, however long the day
+  const dayAfter = parseDateInput(to, 1);
+  const toTime = dayAfter !== undefined ? dayAfter - 1 : undefined;
+  const selected = filterEntriesByRange(entries, fromTime, toTime);
+
+  const handleExport = (format: HistoryExportFormat) => {
+    const { extension, mimeType, serialize } = EXPORT_FORMATS[format];
+    const today = new Date().toISOString().slice(0, 10);
+    downloadFile(`pomoradio-history-${today}.${extension}`, serialize(selected), mimeType);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseHistoryJson(await file.text());
+      const added = await onImport(imported);
+      setMessage({
+        text: `Imported ${added} of ${imported.length} phases${added < imported.length ? ' (the rest were already here)' : ''}.`,
+        isError: false,
+      });
+    } catch (error) {
+      console.error('Failed to import session history:', error);
+      setMessage({ text: 'That file is not a pomoradio history export.', isError: true });
+    }
+  };
+
+  return (
+    <div className="!space-y-3">
+      <div className="text-xs text-gray-400">Export & import</div>
+
+      {/* Date range */}
+      <div className="grid grid-cols-2 gap-2">
+        <label className="!space-y-1 text-xs text-gray-400">
+          <span>From</span>
+          <input
+            type="date"
+            value={from}
+            max={to || undefined}
+            onChange={(e) => setFrom(e.target.value)}
+            className="w-full bg-gray-800 rounded-md !px-2 !py-1 text-xs text-white border border-gray-700 focus:border-blue-500 outline-none"
+          />
+        </label>
+        <label className="!space-y-1 text-xs text-gray-400">
+          <span>To</span>
+          <input
+            type="date"
+            value={to}
+            min={from || undefined}
+            onChange={(e) => setTo(e.target.value)}
+            className="w-full bg-gray-800 rounded-md !px-2 !py-1 text-xs text-white border border-gray-700 focus:border-blue-500 outline-none"
+          />
+        </label>
+      </div>
+      <div className="text-xs text-gray-500">{selected.length} phases selected</div>
+
+      <div className="flex flex-wrap gap-2">
+        {FORMATS.map(format => (
+          <button
+            key={format}
+            onClick={() => handleExport(format)}
+            disabled={selected.length === 0}
+            className="flex items-center gap-1.5 !px-3 !py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-white text-xs transition-colors disabled:opacity-40"
+          >
+            <Download size={12} />
+            {EXPORT_FORMATS[format].label}
+          </button>
+        ))}
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-1.5 !px-3 !py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-white text-xs transition-colors"
+        >
+          <Upload size={12} />
+          Import JSON
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = ''; // allow importing the same file again
+          }}
+        />
+      </div>
+
+      {message && (
+        <div className={`text-xs ${message.isError ? 'text-red-400' : 'text-gray-300'}`}>{message.text}</div>
+      )}
+    </div>
+  );
+}
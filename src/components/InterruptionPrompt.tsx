@@ -0,0 +1,84 @@
+'use client';
+
+import { useState } from 'react';
+import { Zap, Pause, X } from 'lucide-react';
+import type { InterruptionKind } from '@/types/history';
+
+interface InterruptionPromptProps {
+  kind: InterruptionKind;
+  count: number; // interruptions logged this session, including this one
+  canPause: boolean;
+  onSave: (reason: string) => void;
+  onPause: (reason: string) => void;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<InterruptionKind, string> = {
+  internal: 'Internal',
+  external: 'External',
+};
+
+/**
+ * Shown after an interruption is logged, to optionally say what it was and pause
+ */
+export function InterruptionPrompt({ kind, count, canPause, onSave, onPause, onClose }: InterruptionPromptProps) {
+  const [reason, setReason] = useState('');
+
+  const save = () => {
+    if (reason.trim()) onSave(reason);
+    onClose();
+  };
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 bg-gray-900/95 backdrop-blur-xl border border-gray-700 rounded-xl shadow-lg !p-4 w-[22rem] max-w-[calc(100vw-2rem)]">
+      <div className="flex items-start gap-3">
+        <Zap className="h-5 w-5 text-yellow-400 flex-shrink-0 mt-0.5" />
+        <div className="flex-1 min-w-0 !space-y-2">
+          <div className="text-white font-semibold text-sm">
+            {KIND_LABELS[kind]} interruption logged
+            <span className="text-xs text-gray-400 font-normal ml-2">{count} this session</span>
+          </div>
+          <input
+            autoFocus
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') save();
+              if (e.key === 'Escape') onClose();
+            }}
+            placeholder="Reason (optional)"
+            className="w-full bg-gray-800 rounded-md !px-2 !py-1 text-xs text-white border border-gray-700 focus:border-blue-500 outline-none"
+          />
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700/50 transition-colors"
+          title="Dismiss"
+        >
+          <X size={14} />
+        </button>
+      </div>
+      <div className="flex justify-end gap-2 !mt-3">
+        {canPause && (
+          <button
+            onClick={() => {
+              if (reason.trim()) onSave(reason);
+              onPause(reason.trim() || `${KIND_LABELS[kind]} interruption`);
+              onClose();
+            }}
+            className="flex items-center gap-1.5 !px-3 !py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-white text-xs transition-colors"
+          >
+            <Pause size={12} />
+            Pause timer
+          </button>
+        )}
+        <button
+          onClick={save}
+          className="!px-3 !py-1.5 rounded-lg bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/50 text-white text-xs transition-colors"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+'use client';
+
+import { CalendarClock, X } from 'lucide-react';
+import type { BusyBlock } from '@/types/calendar';
+
+interface MeetingNoticeProps {
+  block: BusyBlock;
+  shortened: boolean; // the focus phase was cut short to end as the meeting starts
+  onDismiss: () => void;
+}
+
+export function MeetingNotice({ block, shortened, onDismiss }: MeetingNoticeProps) {
+  const startsAt = new Date(block.start).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="fixed top-20 left-1/2 -translate-x-1/2 z-50 bg-gray-900/95 backdrop-blur-xl border border-amber-500/50 rounded-xl shadow-lg !p-4 w-[22rem] max-w-[calc(100vw-2rem)]">
+      <div className="flex items-start gap-3">
+        <CalendarClock className="h-5 w-5 text-amber-400 flex-shrink-0 mt-0.5" />
+        <div className="flex-1 min-w-0 !space-y-1">
+          <div className="text-white font-semibold text-sm truncate">{block.summary} at {startsAt}</div>
+          <div className="text-xs text-gray-300">
+            {shortened
+              ? 'This focus session was shortened to end when the meeting starts.'
+              : 'This focus session runs into the meeting. The timer will pause when it starts.'}
+          </div>
+        </div>
+        <button
+          onClick={onDismiss}
+          className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700/50 transition-colors"
+          title="Dismiss"
+        >
+          <X size={14} />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+'use client';
+
+import { usePomodoro } from '@/hooks/usePomodoro';
+import { usePomodoroSettings } from '@/hooks/usePomodoroSettings';
+import { usePhaseSequences } from '@/hooks/usePhaseSequences';
+import { useTabLeadership } from '@/hooks/useTabLeadership';
+import { useTabSync } from '@/hooks/useTabSync';
+import { MiniTimerView } from '@/components/MiniTimerView';
+
+/**
+ * The /mini popup. It never runs the timer itself: it mirrors whichever tab leads
+ * and forwards its controls there.
+ */
+export function MiniTimer() {
+  const pomodoroSettings = usePomodoroSettings();
+  const phaseSequences = usePhaseSequences(pomodoroSettings.settings);
+  const leadership = useTabLeadership({ canLead: false });
+  const localPomodoro = usePomodoro({
+    settings: pomodoroSettings.settings,
+    sequence: phaseSequences.sequence,
+    passive: true,
+  });
+  const pomodoro = useTabSync(localPomodoro, leadership);
+
+  return <MiniTimerView pomodoro={pomodoro} />;
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import { Play, Pause, RotateCcw, SkipForward, Radio, CloudOff } from 'lucide-react';
+import { usePomodoro } from '@/hooks/usePomodoro';
+import { getCountryFlag } from '@/utils/countryFlags';
+import { isSoundscapeStation } from '@/lib/soundscape';
+
+interface MiniTimerViewProps {
+  pomodoro: ReturnType<typeof usePomodoro>;
+}
+
+/**
+ * Compact countdown with controls and the station playing, for the mini window
+ */
+export function MiniTimerView({ pomodoro }: MiniTimerViewProps) {
+  const { currentStep, audio } = pomodoro;
+
+  return (
+    <div className="h-screen bg-gray-900 text-white flex flex-col justify-center gap-3 !p-4 select-none">
+      <div className="flex items-center justify-between gap-2">
+        <div className="px-3 py-1 rounded-full text-xs font-semibold bg-black/30">
+          {currentStep.label}
+        </div>
+        <div className="text-xs text-gray-400">
+          Session {pomodoro.currentCycle} • Completed: {pomodoro.completedSessions}
+        </div>
+      </div>
+
+      <div className="text-5xl font-mono font-bold text-center">{pomodoro.timeDisplay}</div>
+
+      <div className="flex items-center justify-center gap-2">
+        <button
+          onClick={pomodoro.isRunning ? () => pomodoro.pause() : pomodoro.start}
+          className="flex items-center gap-1.5 !px-4 !py-1.5 rounded-lg bg-white/15 hover:bg-white/25 text-sm transition-colors"
+        >
+          {pomodoro.isRunning ? <Pause size={14} /> : <Play size={14} />}
+          {pomodoro.isRunning ? 'Pause' : 'Start'}
+        </button>
+        <button
+          onClick={pomodoro.skip}
+          className="p-2 rounded-lg bg-white/10 hover:bg-white/20 transition-colors"
+          title="Skip"
+        >
+          <SkipForward size={14} />
+        </button>
+        <button
+          onClick={pomodoro.reset}
+          className="p-2 rounded-lg bg-white/10 hover:bg-white/20 transition-colors"
+          title="Reset"
+        >
+          <RotateCcw size={14} />
+        </button>
+      </div>
+
+      <div className="flex items-center justify-center gap-2 text-xs text-gray-300 min-w-0">
+        {audio.currentStation ? (
+          <>
+            {isSoundscapeStation(audio.currentStation) ? (
+              <>
+                <CloudOff size={12} className="text-amber-400 flex-shrink-0" />
+                <span className="truncate text-amber-300">Offline soundscape</span>
+              </>
+            ) : (
+              <>
+                <span className="text-base">{getCountryFlag(audio.currentStation.countrycode)}</span>
+                <span className="truncate">{audio.currentStation.name}</span>
+              </>
+            )}
+            {!audio.isPlaying && <span className="text-gray-500">(paused)</span>}
+          </>
+        ) : (
+          <>
+            <Radio size={12} className="text-gray-500" />
+            <span className="text-gray-500">Radio off</span>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
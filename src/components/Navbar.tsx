@@ -2,31 +2,47 @@
 
 import { useState } from 'react';
 import { usePomodoro } from '@/hooks/usePomodoro';
-import { Play, Pause, RotateCcw, SkipForward, Volume2, Radio, Info, Square } from 'lucide-react';
+import { Play, Pause, RotateCcw, SkipForward, Volume2, Radio, Info, Square, Keyboard, PictureInPicture2, CloudOff } from 'lucide-react';
 import { getCountryFlag } from '@/utils/countryFlags';
+import { isSoundscapeStation } from '@/lib/soundscape';
+import type { Task } from '@/types/task';
 
 interface NavbarProps {
   pomodoro: ReturnType<typeof usePomodoro>;
   pomodoroEnabled: boolean;
+  activeTask?: Task | null;
+  onShowShortcuts?: () => void;
+  onOpenMiniTimer?: () => void;
 }
 
-export function Navbar({ pomodoro, pomodoroEnabled }: NavbarProps) {
+export function Navbar({ pomodoro, pomodoroEnabled, activeTask, onShowShortcuts, onOpenMiniTimer }: NavbarProps) {
   const [showTooltip, setShowTooltip] = useState(false);
+  const isSoundscape = isSoundscapeStation(pomodoro.audio.currentStation);
 
   const getPhaseDisplay = () => {
     switch (pomodoro.phase) {
       case 'work':
-        return { title: 'Focus Time', color: 'bg-black/30', hoverColor: 'hover:bg-black/30' };
+        return { title: pomodoro.currentStep.label, color: 'bg-black/30', hoverColor: 'hover:bg-black/30' };
       case 'shortBreak':
-        return { title: 'Short Break', color: 'bg-black/30', hoverColor: 'hover:bg-black/30' };
+        return { title: pomodoro.currentStep.label, color: 'bg-black/30', hoverColor: 'hover:bg-black/30' };
       case 'longBreak':
-        return { title: 'Long Break', color: 'bg-black/30', hoverColor: 'hover:bg-black/30' };
-      default:
+        return { title: pomodoro.currentStep.label, color: 'bg-black/30', hoverColor: 'hover:bg-black/30' };
+      case 'paused':
         return { title: 'Paused', color: 'bg-black/30', hoverColor: 'hover:bg-black/50' };
+      default:
+        // User-defined phase kinds from a custom sequence
+        return { title: pomodoro.currentStep.label, color: 'bg-black/30', hoverColor: 'hover:bg-black/30' };
     }
   };
 
   const phaseInfo = getPhaseDisplay();
+  const focusTask = pomodoro.currentStep.isFocus ? activeTask : null;
+  const internalInterruptions = pomodoro.interruptions.filter(interruption => interruption.kind === 'internal').length;
+  const externalInterruptions = pomodoro.interruptions.length - internalInterruptions;
+  // Auto-paused for a meeting from the imported calendar
+  const meetingResumesAt = !pomodoro.isRunning && pomodoro.meetingUntil !== null
+    ? new Date(pomodoro.meetingUntil).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })
+    : null;
 
   return (
     <nav className="relative z-40 !bg-black/20 backdrop-blur-sm !py-4 min-h-12 flex items-center !px-4 sm:!px-6">
@@ -40,9 +56,25 @@ export function Navbar({ pomodoro, pomodoroEnabled }: NavbarProps) {
                 <div className={`px-3 py-1 rounded-full text-xs font-semibold text-white ${phaseInfo.color}`}>
                   {phaseInfo.title}
                 </div>
+                {focusTask && (
+                  <div className="text-sm text-white max-w-56 truncate" title={focusTask.title}>
+                    {focusTask.title}
+                    <span className="text-xs text-gray-400 ml-2">
+                      {focusTask.actualPomodoros}/{focusTask.estimatedPomodoros}
+                    </span>
+                  </div>
+                )}
                 <div className="text-xs text-gray-400">
                   Session {pomodoro.currentCycle} • Completed: {pomodoro.completedSessions}
                 </div>
+                {pomodoro.interruptions.length > 0 && (
+                  <div className="text-xs text-gray-400" title="Interruptions this session">
+                    Interruptions: {internalInterruptions} internal • {externalInterruptions} external
+                  </div>
+                )}
+                {meetingResumesAt && (
+                  <div className="text-xs text-amber-400">In a meeting • resumes at {meetingResumesAt}</div>
+                )}
               </>
             )}
           </div>
@@ -60,7 +92,7 @@ export function Navbar({ pomodoro, pomodoroEnabled }: NavbarProps) {
               {/* Timer Controls */}
               <div className="flex items-center gap-3 px-4 py-2">
                 <button
-                  onClick={pomodoro.isRunning ? pomodoro.pause : pomodoro.start}
+                  onClick={pomodoro.isRunning ? () => pomodoro.pause() : pomodoro.start}
                   className={`flex items-center gap-2 !px-6 !py-2.5 rounded-lg text-white font-medium text-sm transition-colors ${phaseInfo.color} ${phaseInfo.hoverColor}`}
                 >
                   {pomodoro.isRunning ? <Pause size={16} /> : <Play size={16} />}
@@ -90,8 +122,8 @@ export function Navbar({ pomodoro, pomodoroEnabled }: NavbarProps) {
             {pomodoro.audio.currentStation ? (
               <div className="flex items-center gap-3">
                 <div className="flex items-center gap-3">
-                  <span className="text-2xl">
-                    {getCountryFlag(pomodoro.audio.currentStation.countrycode)}
+                  <span className="text-2xl" title={isSoundscape ? 'No station reachable, playing the offline soundscape' : undefined}>
+                    {isSoundscape ? <CloudOff size={22} className="text-amber-400" /> : getCountryFlag(pomodoro.audio.currentStation.countrycode)}
                   </span>
                   <div className="flex items-center gap-2">
                     <div className="text-sm font-semibold text-white">
@@ -144,6 +176,28 @@ export function Navbar({ pomodoro, pomodoroEnabled }: NavbarProps) {
                   </span>
                 </div>
 
+                {/* Mini Timer */}
+                {onOpenMiniTimer && (
+                  <button
+                    onClick={onOpenMiniTimer}
+                    className="p-2 text-gray-300 hover:text-white transition-colors"
+                    title="Pop out mini timer"
+                  >
+                    <PictureInPicture2 size={16} />
+                  </button>
+                )}
+
+                {/* Keyboard Shortcuts */}
+                {onShowShortcuts && (
+                  <button
+                    onClick={onShowShortcuts}
+                    className="p-2 text-gray-300 hover:text-white transition-colors"
+                    title="Keyboard shortcuts"
+                  >
+                    <Keyboard size={16} />
+                  </button>
+                )}
+
                 {/* Info Icon with Tooltip */}
                 <div className="relative">
                   <button
@@ -191,6 +245,16 @@ export function Navbar({ pomodoro, pomodoroEnabled }: NavbarProps) {
                   {phaseInfo.title}
                 </div>
               )}
+              {pomodoroEnabled && focusTask && (
+                <div className="hidden sm:block text-xs text-white max-w-32 truncate" title={focusTask.title}>
+                  {focusTask.title}
+                </div>
+              )}
+              {pomodoroEnabled && pomodoro.interruptions.length > 0 && (
+                <div className="text-xs text-gray-400" title={`Interruptions this session: ${internalInterruptions} internal, ${externalInterruptions} external`}>
+                  ⚡{pomodoro.interruptions.length}
+                </div>
+              )}
             </div>
             {pomodoroEnabled && (
               <div className="text-center">
@@ -207,7 +271,7 @@ export function Navbar({ pomodoro, pomodoroEnabled }: NavbarProps) {
             {pomodoroEnabled && (
               <div className="flex items-center gap-2 sm:gap-3">
                 <button
-                  onClick={pomodoro.isRunning ? pomodoro.pause : pomodoro.start}
+                  onClick={pomodoro.isRunning ? () => pomodoro.pause() : pomodoro.start}
                   className={`flex items-center gap-1.5 px-4 py-2 rounded-lg text-white font-medium text-sm transition-colors ${phaseInfo.color} ${phaseInfo.hoverColor}`}
                 >
                   {pomodoro.isRunning ? <Pause size={14} /> : <Play size={14} />}
@@ -235,8 +299,8 @@ export function Navbar({ pomodoro, pomodoroEnabled }: NavbarProps) {
               {/* Radio Status */}
               {pomodoro.audio.currentStation ? (
                 <div className="flex items-center gap-2">
-                  <span className="text-2xl">
-                    {getCountryFlag(pomodoro.audio.currentStation.countrycode)}
+                  <span className="text-2xl" title={isSoundscape ? 'No station reachable, playing the offline soundscape' : undefined}>
+                    {isSoundscape ? <CloudOff size={22} className="text-amber-400" /> : getCountryFlag(pomodoro.audio.currentStation.countrycode)}
                   </span>
                   <div className="hidden sm:block">
                     <div className="text-xs font-semibold text-white">
@@ -1,15 +1,57 @@
 'use client';
 
-import { useCallback, useState } from 'react';
+import { useCallback, useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
 import { usePomodoro } from '@/hooks/usePomodoro';
+import { usePomodoroSettings } from '@/hooks/usePomodoroSettings';
+import { useSessionHistory } from '@/hooks/useSessionHistory';
+import { useTasks } from '@/hooks/useTasks';
+import { usePhaseSequences } from '@/hooks/usePhaseSequences';
+import { usePhaseAlerts } from '@/hooks/usePhaseAlerts';
+import { useFavorites } from '@/hooks/useFavorites';
+import { useStationFilters } from '@/hooks/useStationFilters';
+import { useStationSelection } from '@/hooks/useStationSelection';
+import { useWorldTour } from '@/hooks/useWorldTour';
+import { useCalendar } from '@/hooks/useCalendar';
+import { useWebhooks } from '@/hooks/useWebhooks';
+import { useMiniWindow } from '@/hooks/useMiniWindow';
+import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts';
+import { useTabLeadership } from '@/hooks/useTabLeadership';
+import { useTabSync } from '@/hooks/useTabSync';
+import { useFocusRoom } from '@/hooks/useFocusRoom';
+import { useRoomSync } from '@/hooks/useRoomSync';
 import { RadioGlobe } from '@/components/RadioGlobe';
 import { Navbar } from '@/components/Navbar';
 import { SideMenu } from '@/components/SideMenu';
+import { ResumeSessionPrompt } from '@/components/ResumeSessionPrompt';
+import { ShortcutsDialog } from '@/components/ShortcutsDialog';
+import { CommandPalette } from '@/components/CommandPalette';
+import { MeetingNotice } from '@/components/MeetingNotice';
+import { InterruptionPrompt } from '@/components/InterruptionPrompt';
+import { MiniTimerView } from '@/components/MiniTimerView';
+import type { PaletteCommand } from '@/components/CommandPalette';
 import type { RadioStation } from '@/types/radio';
+import type { PhaseHistoryEntry, InterruptionKind } from '@/types/history';
+import type { PhaseStep } from '@/types/pomodoro';
+import type { ShortcutAction } from '@/types/shortcuts';
+import type { BusyBlock } from '@/types/calendar';
+import { SHORTCUT_ACTIONS, SHORTCUT_LABELS } from '@/lib/shortcuts';
+import { getListeningHistory } from '@/lib/stationSelection';
+import { isSoundscapeStation } from '@/lib/soundscape';
+import { getRadioProfile } from '@/lib/radioProfiles';
+
+// Volume change per key press
+const VOLUME_STEP = 0.05;
 
 export function PomodoroTimer() {
   const [flyToStationTrigger, setFlyToStationTrigger] = useState<RadioStation | null>(null);
   const [pomodoroEnabled, setPomodoroEnabled] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [showPalette, setShowPalette] = useState(false);
+  const [meetingAhead, setMeetingAhead] = useState<{ block: BusyBlock; shortened: boolean } | null>(null);
+  const [loggedInterruption, setLoggedInterruption] = useState<{ kind: InterruptionKind; at: number } | null>(null);
+  // Keep the globe drawing even though the mini timer is open
+  const [showGlobeWithMini, setShowGlobeWithMini] = useState(false);
 
   // Handle flying to a randomly selected station from pomodoro
   const handlePomodoroStationSelected = useCallback((station: RadioStation) => {
@@ -21,14 +63,101 @@ export function PomodoroTimer() {
     }, 2000);
   }, []);
 
-  const pomodoro = usePomodoro({ 
-    onStationSelected: handlePomodoroStationSelected 
+  const pomodoroSettings = usePomodoroSettings();
+  const phaseSequences = usePhaseSequences(pomodoroSettings.settings);
+  const sessionHistory = useSessionHistory();
+  const tasks = useTasks();
+  const phaseAlerts = usePhaseAlerts();
+  const stationFavorites = useFavorites();
+  const stationFilters = useStationFilters();
+  const stationSelection = useStationSelection();
+  const worldTour = useWorldTour();
+  const calendar = useCalendar();
+  const webhooks = useWebhooks();
+  const miniWindow = useMiniWindow();
+  const globeSuspended = miniWindow.isOpen && !showGlobeWithMini;
+
+  // Log every ended phase, and count finished work phases towards their task
+  const { recordEntry } = sessionHistory;
+  const { recordPomodoro } = tasks;
+  const handlePhaseEnded = useCallback((entry: PhaseHistoryEntry) => {
+    recordEntry(entry);
+    if (entry.isFocus && entry.outcome === 'completed' && entry.taskId) {
+      recordPomodoro(entry.taskId);
+    }
+  }, [recordEntry, recordPomodoro]);
+
+  // Chime and notify on every phase change. The audio player comes from usePomodoro,
+  // so it's reached through a ref to duck the station under the chime.
+  const { announcePhase } = phaseAlerts;
+  const { radioProfiles } = pomodoroSettings.settings;
+  const duckRef = useRef<((seconds: number) => void) | null>(null);
+  const handlePhaseStarted = useCallback((step: PhaseStep) => {
+    announcePhase(step, radioProfiles, duckRef.current ?? undefined);
+  }, [announcePhase, radioProfiles]);
+
+  const handleMeetingAhead = useCallback((block: BusyBlock, shortened: boolean) => {
+    setMeetingAhead({ block, shortened });
+  }, []);
+
+  // What weighs each break's station pick
+  const listeningHistory = useMemo(() => getListeningHistory(sessionHistory.entries), [sessionHistory.entries]);
+  const { ratings, reliability, settings: selectionSettings } = stationSelection;
+  const selectionContext = useMemo(() => ({
+    favoriteIds: stationFavorites.favorites,
+    ratings,
+    reliability,
+    settings: selectionSettings,
+    ...listeningHistory,
+  }), [stationFavorites.favorites, ratings, reliability, selectionSettings, listeningHistory]);
+
+  // Only one tab runs the timer and plays audio, the others mirror it. That tab also
+  // holds the focus room connection; in a room, the host's timer is everyone's timer
+  // and personal calendars no longer move it.
+  const leadership = useTabLeadership();
+  const room = useFocusRoom({ enabled: leadership.isLeader });
+  const localPomodoro = usePomodoro({ 
+    settings: pomodoroSettings.settings,
+    sequence: room.isMember && room.sequence ? room.sequence : phaseSequences.sequence,
+    onPhaseEnded: handlePhaseEnded,
+    onPhaseStarted: handlePhaseStarted,
+    activeTask: tasks.activeTask,
+    stationSelection: selectionContext,
+    onStationAttempt: stationSelection.recordAttempt,
+    onStationStalled: stationSelection.recordStall,
+    tour: worldTour,
+    stationFilters: stationFilters.filters,
+    calendar: room.room ? null : calendar.timerCalendar,
+    onMeetingAhead: handleMeetingAhead,
+    onStationSelected: handlePomodoroStationSelected,
+    onActivity: webhooks.handleActivity,
+    autoRadio: !(room.isMember && room.sharedStation),
+    passive: !leadership.isLeader,
   });
+  const roomPomodoro = useRoomSync(localPomodoro, room, handlePomodoroStationSelected);
+  const pomodoro = useTabSync(roomPomodoro, leadership);
+
+  duckRef.current = pomodoro.audio.duck;
+
+  // Resuming a saved session also turns the timer UI back on
+  const handleResumeSession = useCallback(() => {
+    setPomodoroEnabled(true);
+    pomodoro.resumeSession();
+  }, [pomodoro.resumeSession]);
+
+  // Stations can't be picked while focusing, unless the user opted into radio while focusing
+  const stationsLocked = pomodoro.currentStep.isFocus && pomodoro.isRunning
+    && getRadioProfile(pomodoro.currentStep, pomodoro.settings.radioProfiles).behavior === 'silent';
 
   // Handle station selection from globe or side menu
   const handleStationSelect = useCallback(async (station: RadioStation) => {
-    // Only allow manual station selection during breaks or when paused
-    if (pomodoro.phase === 'work' && pomodoro.isRunning) {
+    // While drawing a tour route, stations become stops instead of playing
+    if (worldTour.isDrawing) {
+      worldTour.addDraftStop(station);
+      return;
+    }
+
+    if (stationsLocked) {
       return; // Don't interrupt work sessions
     }
 
@@ -37,7 +166,7 @@ export function PomodoroTimer() {
     } catch (error) {
       console.error('Failed to play selected station:', error);
     }
-  }, [pomodoro.audio, pomodoro.phase, pomodoro.isRunning]);
+  }, [pomodoro.audio, stationsLocked, worldTour]);
 
   // Handle flying to station (for side menu selections)
   const handleFlyToStation = useCallback((station: RadioStation) => {
@@ -49,28 +178,176 @@ export function PomodoroTimer() {
     }, 2000);
   }, []);
 
+  // Interruptions count against a focus phase once it has started
+  const logInterruption = (kind: InterruptionKind) => {
+    if (!pomodoro.currentStep.isFocus || pomodoro.phaseStartedAt === null) return;
+    setLoggedInterruption({ kind, at: pomodoro.logInterruption(kind) });
+  };
+
+  // Every keyboard shortcut, also offered as a command palette entry
+  const shortcutHandlers: Record<ShortcutAction, () => void> = {
+    toggleTimer: () => {
+      if (pomodoro.isRunning) {
+        pomodoro.pause();
+      } else {
+        setPomodoroEnabled(true);
+        pomodoro.start();
+      }
+    },
+    resetTimer: pomodoro.reset,
+    skipPhase: pomodoro.skip,
+    logInternalInterruption: () => logInterruption('internal'),
+    logExternalInterruption: () => logInterruption('external'),
+    toggleRadio: () => {
+      if (!pomodoro.audio.currentStation) return;
+      if (pomodoro.audio.isPlaying) {
+        pomodoro.audio.pause();
+      } else {
+        pomodoro.audio.resume();
+      }
+    },
+    volumeUp: () => pomodoro.audio.setVolume(pomodoro.audio.volume + VOLUME_STEP),
+    volumeDown: () => pomodoro.audio.setVolume(pomodoro.audio.volume - VOLUME_STEP),
+    toggleFavorite: () => {
+      if (pomodoro.audio.currentStation && !isSoundscapeStation(pomodoro.audio.currentStation)) {
+        stationFavorites.toggleFavorite(pomodoro.audio.currentStation);
+      }
+    },
+    openPalette: () => setShowPalette(prev => !prev),
+    showShortcuts: () => setShowShortcuts(prev => !prev),
+  };
+  const shortcuts = useKeyboardShortcuts(shortcutHandlers);
+
+  const handlersRef = useRef(shortcutHandlers);
+  handlersRef.current = shortcutHandlers;
+  const paletteCommands = useMemo<PaletteCommand[]>(() => [
+    ...SHORTCUT_ACTIONS
+      .filter(action => action !== 'openPalette')
+      .map(action => ({
+        id: action,
+        label: SHORTCUT_LABELS[action],
+        shortcut: shortcuts.bindings[action],
+        run: () => handlersRef.current[action](),
+      })),
+    {
+      id: 'togglePomodoro',
+      label: pomodoroEnabled ? 'Disable Pomodoro timer' : 'Enable Pomodoro timer',
+      run: () => {
+        // Same as the side menu toggle: disabling resets the timer and stops any audio
+        if (pomodoroEnabled) {
+          handlersRef.current.resetTimer();
+        }
+        setPomodoroEnabled(!pomodoroEnabled);
+      },
+    },
+  ], [shortcuts.bindings, pomodoroEnabled]);
+
   return (
     <div className="h-screen bg-black overflow-hidden grid grid-rows-[auto_1fr]">
       {/* Navbar */}
-      <Navbar pomodoro={pomodoro} pomodoroEnabled={pomodoroEnabled} />
+      <Navbar
+        pomodoro={pomodoro}
+        pomodoroEnabled={pomodoroEnabled}
+        activeTask={tasks.activeTask}
+        onShowShortcuts={() => setShowShortcuts(true)}
+        onOpenMiniTimer={() => {
+          setShowGlobeWithMini(false);
+          miniWindow.open().catch(console.error);
+        }}
+      />
       
       {/* Side Menu with Pomodoro Toggle */}
       <SideMenu 
         pomodoroEnabled={pomodoroEnabled} 
         onPomodoroToggle={setPomodoroEnabled}
         pomodoro={pomodoro}
+        pomodoroSettings={pomodoroSettings}
+        phaseSequences={phaseSequences}
+        sessionHistory={sessionHistory}
+        tasks={tasks}
+        phaseAlerts={phaseAlerts}
+        stationFavorites={stationFavorites}
+        stationFilters={stationFilters}
+        stationSelection={stationSelection}
+        worldTour={worldTour}
+        calendar={calendar}
+        webhooks={webhooks}
+        room={room}
         onStationSelect={handleStationSelect}
         onFlyToStation={handleFlyToStation}
       />
       
+      {/* Resume prompt for a session saved before the last reload */}
+      {pomodoro.savedSession && (
+        <ResumeSessionPrompt
+          session={pomodoro.savedSession}
+          formatTime={pomodoro.formatTime}
+          onResume={handleResumeSession}
+          onDiscard={pomodoro.discardSession}
+        />
+      )}
+      
+      {/* Heads-up when a focus phase runs into a meeting */}
+      {meetingAhead && (
+        <MeetingNotice
+          block={meetingAhead.block}
+          shortened={meetingAhead.shortened}
+          onDismiss={() => setMeetingAhead(null)}
+        />
+      )}
+      
+      {/* Reason for the interruption just logged */}
+      {loggedInterruption && (
+        <InterruptionPrompt
+          key={loggedInterruption.at}
+          kind={loggedInterruption.kind}
+          count={pomodoro.interruptions.length}
+          canPause={pomodoro.isRunning}
+          onSave={(reason) => pomodoro.noteInterruption(loggedInterruption.at, reason)}
+          onPause={(reason) => pomodoro.pause(reason)}
+          onClose={() => setLoggedInterruption(null)}
+        />
+      )}
+      
+      {/* Keyboard cheat sheet and command palette */}
+      {showShortcuts && (
+        <ShortcutsDialog shortcuts={shortcuts} onClose={() => setShowShortcuts(false)} />
+      )}
+      {showPalette && (
+        <CommandPalette
+          commands={paletteCommands}
+          onPlayStation={handleStationSelect}
+          onFlyToStation={handleFlyToStation}
+          onClose={() => setShowPalette(false)}
+        />
+      )}
+      
+      {/* Mini timer rendered into the Picture-in-Picture window */}
+      {miniWindow.pipContainer && createPortal(<MiniTimerView pomodoro={pomodoro} />, miniWindow.pipContainer)}
+      
       {/* Main Content - Globe */}
-      <div className="bg-gray-900 overflow-hidden">
+      <div className="bg-gray-900 overflow-hidden relative">
         <RadioGlobe 
           onStationSelect={handleStationSelect}
           currentStation={pomodoro.audio.currentStation}
           flyToStationTrigger={flyToStationTrigger}
-          isInFocusMode={pomodoroEnabled && pomodoro.phase === 'work' && pomodoro.isRunning}
+          stationFilters={stationFilters.filters}
+          tour={worldTour.tour}
+          tourDraft={worldTour.draft}
+          isInFocusMode={stationsLocked}
+          suspended={globeSuspended}
         />
+        {globeSuspended && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 bg-gray-900/80">
+            <div className="text-sm text-gray-300">The globe is paused while the mini timer is open</div>
+            <button
+              onClick={() => setShowGlobeWithMini(true)}
+              className="!px-3 !py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-white text-xs transition-colors"
+            >
+              Show globe
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,9 +1,13 @@
 'use client';
 
-import { useEffect, useRef, useState, useCallback } from 'react';
+import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import dynamic from 'next/dynamic';
-import type { RadioStation } from '@/types/radio';
+import type { RadioStation, StationFilters } from '@/types/radio';
 import { radioAPI } from '@/lib/radioApi';
+import { applyStationFilters } from '@/lib/stationFilters';
+import { getTourArcs, getDraftArcs } from '@/lib/tour';
+import { formatStationTime } from '@/lib/timeZones';
+import type { TourStop, WorldTour } from '@/types/tour';
 
 // Dynamically import Globe to avoid SSR issues
 const Globe = dynamic(() => import('react-globe.gl'), { 
@@ -23,10 +27,14 @@ interface RadioGlobeProps {
   onStationSelect?: (station: RadioStation) => void;
   currentStation?: RadioStation | null;
   flyToStationTrigger?: RadioStation | null;
+  stationFilters?: StationFilters; // hide stations outside the user's preferences
+  tour?: WorldTour | null; // draws the route travelled so far
+  tourDraft?: TourStop[] | null; // a route being drawn
   isInFocusMode?: boolean;
+  suspended?: boolean; // stop rendering, e.g. while only the mini timer is being watched
 }
 
-export function RadioGlobe({ onStationSelect, currentStation, flyToStationTrigger, isInFocusMode }: RadioGlobeProps) {
+export function RadioGlobe({ onStationSelect, currentStation, flyToStationTrigger, stationFilters, tour = null, tourDraft = null, isInFocusMode, suspended = false }: RadioGlobeProps) {
   const globeEl = useRef<any>(null);
   const [stations, setStations] = useState<StationMarker[]>([]);
   const [loading, setLoading] = useState(true);
@@ -212,13 +220,21 @@ export function RadioGlobe({ onStationSelect, currentStation, flyToStationTrigge
     startInactivityTimeout();
   }, [startInactivityTimeout]);
 
+  // Stations that meet the user's preferences, before thinning out by zoom
+  const matchingStations = useMemo(
+    () => (stationFilters ? applyStationFilters(stations, stationFilters) : stations),
+    [stations, stationFilters]
+  );
+
+  const tourArcs = useMemo(() => (tourDraft ? getDraftArcs(tourDraft) : getTourArcs(tour)), [tour, tourDraft]);
+
   // Update visible stations when altitude or stations change
   useEffect(() => {
     if (stations.length > 0) {
-      const filtered = filterStationsByZoom(stations, currentAltitude);
+      const filtered = filterStationsByZoom(matchingStations, currentAltitude);
       setVisibleStations(filtered);
     }
-  }, [stations, currentAltitude, filterStationsByZoom]);
+  }, [stations, matchingStations, currentAltitude, filterStationsByZoom]);
 
   // Track altitude changes for zoom-based filtering
   useEffect(() => {
@@ -385,9 +401,20 @@ export function RadioGlobe({ onStationSelect, currentStation, flyToStationTrigge
     };
   }, [globeReady, userHasInteracted, handleUserInteraction, resetInactivityTimeout]);
 
+  // Stop the render loop while suspended
+  useEffect(() => {
+    if (!globeEl.current || !globeReady) return;
+
+    if (suspended) {
+      globeEl.current.pauseAnimation();
+    } else {
+      globeEl.current.resumeAnimation();
+    }
+  }, [globeReady, suspended]);
+
   // Blinking effect for current station
   useEffect(() => {
-    if (currentStation && globeReady) {
+    if (currentStation && globeReady && !suspended) {
       // Start blinking animation
       const startBlinking = () => {
         blinkTimeoutRef.current = setTimeout(() => {
@@ -412,7 +439,7 @@ export function RadioGlobe({ onStationSelect, currentStation, flyToStationTrigge
         clearTimeout(blinkTimeoutRef.current);
       }
     };
-  }, [currentStation, globeReady]);
+  }, [currentStation, globeReady, suspended]);
 
   // Handle external flight triggers (e.g., from pomodoro random station selection)
   useEffect(() => {
@@ -552,14 +579,23 @@ export function RadioGlobe({ onStationSelect, currentStation, flyToStationTrigge
           }
         }}
         
+        // World tour route: solid legs travelled, a dashed leg to the next stop
+        arcsData={tourArcs}
+        arcColor={(d: any) => (d.travelled ? '#00ffff' : 'rgba(255, 255, 255, 0.6)')}
+        arcStroke={0.4}
+        arcDashLength={(d: any) => (d.travelled ? 1 : 0.4)}
+        arcDashGap={(d: any) => (d.travelled ? 0 : 0.2)}
+        arcDashAnimateTime={(d: any) => (d.travelled ? 0 : 3000)}
+        
         // Interactivity
         onPointClick={handleStationClick}
         onPointHover={(point: any) => {
           // Change cursor on hover
           document.body.style.cursor = point ? 'pointer' : 'auto';
         }}
-        pointLabel={(d: any) => 
-          isInFocusMode 
+        pointLabel={(d: any) => {
+          const localTime = formatStationTime(d);
+          return isInFocusMode 
             ? `<div style="background: rgba(0,0,0,0.85); padding: 10px; border-radius: 6px; color: white; max-width: 220px; font-family: system-ui, sans-serif; box-shadow: 0 4px 12px rgba(0,0,0,0.5);">
                 <div style="font-weight: bold; margin-bottom: 6px; font-size: 14px; color:rgb(185, 38, 38);">Radio not available</div>
                 <div style="font-size: 11px; color: #ccc; line-height: 1.4;">
@@ -571,10 +607,11 @@ export function RadioGlobe({ onStationSelect, currentStation, flyToStationTrigge
                 <div style="font-size: 11px; color: #ccc; line-height: 1.4;">
                   ${d.country}<br/>
                   ${d.codec} • ${d.bitrate}kbps<br/>
-                  ${d.votes.toLocaleString()} votes
+                  ${d.votes.toLocaleString()} votes${localTime ? `<br/>
+                  🕐 ${localTime} local time` : ''}
                 </div>
-              </div>`
-        }
+              </div>`;
+        }}
         
         // Animation
         animateIn={true}
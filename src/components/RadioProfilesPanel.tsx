@@ -0,0 +1,98 @@
+'use client';
+
+import type { PhaseRadioBehavior, PhaseRadioProfile, RadioProfileKind } from '@/types/pomodoro';
+import { RADIO_PROFILE_KINDS, RADIO_PROFILE_LABELS, RADIO_BEHAVIOR_LABELS } from '@/lib/radioProfiles';
+
+interface RadioProfilesPanelProps {
+  profiles: Record<RadioProfileKind, PhaseRadioProfile>;
+  onChange: (profiles: Record<RadioProfileKind, PhaseRadioProfile>) => void;
+}
+
+const BEHAVIORS = Object.keys(RADIO_BEHAVIOR_LABELS) as PhaseRadioBehavior[];
+
+export function RadioProfilesPanel({ profiles, onChange }: RadioProfilesPanelProps) {
+  const updateProfile = (kind: RadioProfileKind, changes: Partial<PhaseRadioProfile>) => {
+    onChange({ ...profiles, [kind]: { ...profiles[kind], ...changes } });
+  };
+
+  const inputClass = 'bg-gray-800 rounded-md !px-2 !py-1 text-xs text-white border border-gray-700 focus:border-blue-500 outline-none';
+
+  return (
+    <div className="!space-y-3">
+      <div className="text-sm text-gray-300">Radio by phase</div>
+      {RADIO_PROFILE_KINDS.map(kind => {
+        const profile = profiles[kind];
+        const isSilent = profile.behavior === 'silent';
+        return (
+          <div key={kind} className="bg-gray-800/50 rounded-lg !p-2 !space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-xs text-gray-300">{RADIO_PROFILE_LABELS[kind]}</span>
+              <select
+                value={profile.behavior}
+                onChange={(e) => updateProfile(kind, { behavior: e.target.value as PhaseRadioBehavior })}
+                className={inputClass}
+              >
+                {BEHAVIORS.map(behavior => (
+                  <option key={behavior} value={behavior}>{RADIO_BEHAVIOR_LABELS[behavior]}</option>
+                ))}
+              </select>
+            </div>
+
+            {kind === 'work' && isSilent && (
+              <div className="text-xs text-gray-500">
+                Off while you focus. Pick Focus stations for ambient, lo-fi or classical radio in the background.
+              </div>
+            )}
+
+            {!isSilent && (
+              <>
+                {profile.behavior === 'stream' && (
+                  <input
+                    type="url"
+                    value={profile.streamUrl}
+                    onChange={(e) => updateProfile(kind, { streamUrl: e.target.value.trim() })}
+                    placeholder="https://example.com/ambient.mp3"
+                    className={`w-full ${inputClass}`}
+                  />
+                )}
+                <div className="flex items-center gap-2">
+                  <input
+                    value={profile.genre}
+                    onChange={(e) => updateProfile(kind, { genre: e.target.value })}
+                    placeholder="Genre, e.g. jazz"
+                    title={profile.behavior === 'stream' ? 'Used if the stream fails' : undefined}
+                    className={`flex-1 min-w-0 ${inputClass}`}
+                  />
+                  <input
+                    value={profile.countrycode}
+                    onChange={(e) => updateProfile(kind, { countrycode: e.target.value.trim().toUpperCase().slice(0, 2) })}
+                    placeholder="Country"
+                    title="Two-letter country code, e.g. BR"
+                    className={`w-16 ${inputClass}`}
+                  />
+                </div>
+                <label className="flex items-center gap-2 text-xs text-gray-400">
+                  Volume
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={profile.volume}
+                    onChange={(e) => updateProfile(kind, { volume: Number(e.target.value) })}
+                    className="flex-1"
+                  />
+                  <span className="w-8 text-right">{Math.round(profile.volume * 100)}%</span>
+                </label>
+              </>
+            )}
+          </div>
+        );
+      })}
+      <p className="text-xs text-gray-500">
+        Applied as each phase begins, fading from one phase&apos;s station into the next. Breaks a
+        sequence keeps silent stay silent.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+'use client';
+
+import { History, Play, X } from 'lucide-react';
+import type { PersistedPomodoroSession } from '@/types/pomodoro';
+import { getPhaseTitle } from '@/lib/sequences';
+
+interface ResumeSessionPromptProps {
+  session: PersistedPomodoroSession;
+  formatTime: (seconds: number) => string;
+  onResume: () => void;
+  onDiscard: () => void;
+}
+
+export function ResumeSessionPrompt({ session, formatTime, onResume, onDiscard }: ResumeSessionPromptProps) {
+  const { state } = session;
+
+  // A running phase kept counting down while the page was closed
+  const secondsLeft = state.isRunning && state.phaseEndsAt !== null
+    ? Math.ceil((state.phaseEndsAt - Date.now()) / 1000)
+    : state.timeRemaining;
+  const phaseEnded = secondsLeft <= 0;
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 bg-gray-900/95 backdrop-blur-xl border border-gray-700 rounded-xl shadow-lg !p-4 w-[22rem] max-w-[calc(100vw-2rem)]">
+      <div className="flex items-start gap-3">
+        <History className="h-5 w-5 text-blue-400 flex-shrink-0 mt-0.5" />
+        <div className="flex-1 min-w-0 !space-y-1">
+          <div className="text-white font-semibold text-sm">Resume where you left off?</div>
+          <div className="text-xs text-gray-300">
+            {getPhaseTitle(state.phase)} • Session {state.currentCycle} • Completed: {state.completedSessions}
+          </div>
+          <div className="text-xs text-gray-400">
+            {phaseEnded
+              ? 'This phase ended while you were away — the timer will catch up.'
+              : `${formatTime(secondsLeft)} left${state.isRunning ? '' : ' (paused)'}`}
+          </div>
+          {session.breakStation && !phaseEnded && (
+            <div className="text-xs text-gray-400 truncate">
+              Break station: {session.breakStation.name}
+            </div>
+          )}
+        </div>
+        <button
+          onClick={onDiscard}
+          className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700/50 transition-colors"
+          title="Dismiss"
+        >
+          <X size={14} />
+        </button>
+      </div>
+      <div className="flex justify-end gap-2 !mt-3">
+        <button
+          onClick={onDiscard}
+          className="!px-3 !py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-white text-xs transition-colors"
+        >
+          Start fresh
+        </button>
+        <button
+          onClick={onResume}
+          className="flex items-center gap-1.5 !px-3 !py-1.5 rounded-lg bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/50 text-white text-xs transition-colors"
+        >
+          <Play size={12} />
+          Resume
+        </button>
+      </div>
+    </div>
+  );
+}
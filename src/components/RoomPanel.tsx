@@ -0,0 +1,143 @@
+'use client';
+
+import { useState } from 'react';
+import { Copy, Check, Crown, LogOut, Plus } from 'lucide-react';
+import type { RoomMemberStatus } from '@/types/rooms';
+import { useFocusRoom } from '@/hooks/useFocusRoom';
+import { ROOM_STATUS_LABELS, getRoomLink, isValidRoomId } from '@/lib/rooms';
+
+interface RoomPanelProps {
+  room: ReturnType<typeof useFocusRoom>;
+}
+
+const STATUS_COLORS: Record<RoomMemberStatus, string> = {
+  focusing: 'text-red-400',
+  break: 'text-green-400',
+  paused: 'text-yellow-400',
+  idle: 'text-gray-500',
+};
+
+const CONNECTION_LABELS = {
+  disconnected: 'Reconnecting to the room server…',
+  connecting: 'Connecting…',
+  connected: 'Connected',
+};
+
+export function RoomPanel({ room }: RoomPanelProps) {
+  const { room: joined, connection, memberId, hostId, members, isHost, sharedStation, createRoom, joinRoom, leaveRoom, rename, setSharedStation } = room;
+  const [name, setName] = useState('');
+  const [roomCode, setRoomCode] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  const inputClass = 'w-full bg-gray-800 rounded-md !px-2 !py-1 text-xs text-white border border-gray-700 focus:border-blue-500 outline-none';
+
+  if (!joined) {
+    return (
+      <div className="!space-y-3">
+        <div className="text-xs text-gray-400">
+          Work on the same clock as your team. Whoever creates the room runs the timer; everyone who joins by link follows it.
+        </div>
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Your name"
+          className={inputClass}
+        />
+        <button
+          onClick={() => createRoom(name)}
+          className="flex items-center gap-1.5 !px-3 !py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-white text-xs transition-colors"
+        >
+          <Plus size={12} />
+          Create room
+        </button>
+        <div className="flex items-center gap-2">
+          <input
+            value={roomCode}
+            onChange={(e) => setRoomCode(e.target.value.trim())}
+            placeholder="Room code"
+            className={inputClass}
+          />
+          <button
+            onClick={() => joinRoom(roomCode, name)}
+            disabled={!isValidRoomId(roomCode)}
+            className="flex-shrink-0 !px-3 !py-1 rounded-lg bg-white/10 hover:bg-white/20 text-white text-xs transition-colors disabled:opacity-40"
+          >
+            Join
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const copyLink = () => {
+    navigator.clipboard.writeText(getRoomLink(joined.roomId))
+      .then(() => {
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+      })
+      .catch(error => console.error('Failed to copy room link:', error));
+  };
+
+  return (
+    <div className="!space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="min-w-0">
+          <div className="text-sm text-white font-mono">{joined.roomId}</div>
+          <div className={`text-xs ${connection === 'connected' ? 'text-gray-500' : 'text-yellow-400'}`}>
+            {CONNECTION_LABELS[connection]}
+          </div>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={copyLink}
+            className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700/50 transition-colors"
+            title="Copy invite link"
+          >
+            {copied ? <Check size={14} /> : <Copy size={14} />}
+          </button>
+          <button
+            onClick={leaveRoom}
+            className="p-1 rounded text-gray-400 hover:text-red-400 hover:bg-gray-700/50 transition-colors"
+            title="Leave room"
+          >
+            <LogOut size={14} />
+          </button>
+        </div>
+      </div>
+
+      <input
+        value={joined.name}
+        onChange={(e) => rename(e.target.value)}
+        placeholder="Your name"
+        className={inputClass}
+      />
+
+      {members.length > 0 && (
+        <div className="!space-y-1">
+          {members.map(member => (
+            <div key={member.id} className="flex items-center justify-between gap-2 text-xs">
+              <span className="flex items-center gap-1 text-gray-300 truncate">
+                {member.id === hostId && <Crown size={12} className="text-yellow-400 flex-shrink-0" />}
+                {member.name}
+                {member.id === memberId && <span className="text-gray-500">(you)</span>}
+              </span>
+              <span className={`flex-shrink-0 ${STATUS_COLORS[member.status]}`}>
+                {ROOM_STATUS_LABELS[member.status]}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <label className={`flex items-center gap-2 text-xs text-gray-300 ${isHost ? 'cursor-pointer' : 'opacity-60'}`}>
+        <input
+          type="checkbox"
+          checked={sharedStation}
+          onChange={(e) => setSharedStation(e.target.checked)}
+          disabled={!isHost}
+        />
+        Everyone hears the host&apos;s break station
+      </label>
+    </div>
+  );
+}
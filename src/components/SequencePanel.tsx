@@ -0,0 +1,219 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ArrowDown, ArrowUp, Copy, Plus, Radio, Trash2, Target } from 'lucide-react';
+import type { PomodoroSequence, PhaseStep } from '@/types/pomodoro';
+import { usePhaseSequences } from '@/hooks/usePhaseSequences';
+import { createCustomPhaseKind, isValidSequence } from '@/lib/sequences';
+
+interface SequencePanelProps {
+  phaseSequences: ReturnType<typeof usePhaseSequences>;
+}
+
+// Focus steps are always 'work'; breaks keep a built-in kind or get one from their label
+function normalizeStep(step: PhaseStep): PhaseStep {
+  if (step.isFocus) return { ...step, kind: 'work' };
+  if (step.kind === 'shortBreak' || step.kind === 'longBreak') return step;
+  return { ...step, kind: createCustomPhaseKind(step.label) };
+}
+
+export function SequencePanel({ phaseSequences }: SequencePanelProps) {
+  const { sequences, sequence, selectSequence, saveSequence, removeSequence } = phaseSequences;
+  const [draft, setDraft] = useState<PomodoroSequence | null>(null);
+
+  // Editing always targets the selected custom sequence
+  useEffect(() => {
+    setDraft(sequence.builtIn ? null : sequence);
+  }, [sequence]);
+
+  const handleCustomize = () => {
+    const copy: PomodoroSequence = {
+      ...sequence,
+      id: `custom-${Date.now()}`,
+      name: `${sequence.name} (custom)`,
+      builtIn: false,
+      steps: sequence.steps.map(step => ({ ...step })),
+    };
+    if (saveSequence(copy)) {
+      selectSequence(copy.id);
+    }
+  };
+
+  const updateStep = (index: number, changes: Partial<PhaseStep>) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      steps: draft.steps.map((step, i) => i === index ? { ...step, ...changes } : step),
+    });
+  };
+
+  const moveStep = (index: number, direction: -1 | 1) => {
+    if (!draft) return;
+    const target = index + direction;
+    if (target < 0 || target >= draft.steps.length) return;
+    const steps = [...draft.steps];
+    [steps[index], steps[target]] = [steps[target], steps[index]];
+    setDraft({ ...draft, steps });
+  };
+
+  const addStep = () => {
+    if (!draft) return;
+    const step: PhaseStep = {
+      id: `step-${Date.now()}`,
+      kind: 'work',
+      label: 'Focus Time',
+      duration: 25,
+      isFocus: true,
+      radio: 'silent',
+    };
+    setDraft({ ...draft, steps: [...draft.steps, step] });
+  };
+
+  const removeStep = (index: number) => {
+    if (!draft) return;
+    setDraft({ ...draft, steps: draft.steps.filter((_, i) => i !== index) });
+  };
+
+  const normalizedDraft = draft && { ...draft, steps: draft.steps.map(normalizeStep) };
+  const draftIsValid = normalizedDraft ? isValidSequence(normalizedDraft) && draft!.name.trim().length > 0 : false;
+  const hasChanges = draft !== null && JSON.stringify(draft) !== JSON.stringify(sequence);
+
+  return (
+    <div className="!space-y-3">
+      {/* Sequence picker */}
+      <select
+        value={sequence.id}
+        onChange={(e) => selectSequence(e.target.value)}
+        className="w-full bg-gray-800 rounded-md !px-2 !py-1.5 text-sm text-white border border-gray-700 focus:border-blue-500 outline-none"
+      >
+        {sequences.map(s => (
+          <option key={s.id} value={s.id}>{s.name}</option>
+        ))}
+      </select>
+
+      {/* Read-only view of a built-in sequence */}
+      {!draft && (
+        <>
+          <div className="!space-y-1">
+            {sequence.steps.map(step => (
+              <div key={step.id} className="flex items-center gap-2 text-xs text-gray-300">
+                {step.isFocus
+                  ? <Target className="h-3 w-3 text-red-400 flex-shrink-0" />
+                  : <Radio className={`h-3 w-3 flex-shrink-0 ${step.radio === 'silent' ? 'text-gray-600' : 'text-green-400'}`} />}
+                <span className="flex-1 truncate">{step.label}</span>
+                <span className="text-gray-400">{step.duration} min</span>
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={handleCustomize}
+            className="flex items-center gap-2 !px-3 !py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-white text-xs transition-colors"
+          >
+            <Copy size={12} />
+            Customize a copy
+          </button>
+        </>
+      )}
+
+      {/* Editor for a custom sequence */}
+      {draft && (
+        <div className="!space-y-2">
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="Sequence name"
+            className="w-full bg-gray-800 rounded-md !px-2 !py-1 text-sm text-white border border-gray-700 focus:border-blue-500 outline-none"
+          />
+
+          {draft.steps.map((step, index) => (
+            <div key={step.id} className="bg-gray-800/50 rounded-lg !p-2 !space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={step.label}
+                  onChange={(e) => updateStep(index, { label: e.target.value })}
+                  className="flex-1 min-w-0 bg-gray-800 rounded-md !px-2 !py-1 text-xs text-white border border-gray-700 focus:border-blue-500 outline-none"
+                />
+                <input
+                  type="number"
+                  min={1}
+                  max={480}
+                  value={step.duration}
+                  onChange={(e) => updateStep(index, { duration: Number(e.target.value) })}
+                  title="Minutes"
+                  className="w-14 bg-gray-800 rounded-md !px-2 !py-1 text-xs text-right text-white border border-gray-700 focus:border-blue-500 outline-none"
+                />
+              </div>
+              <div className="flex items-center gap-3 text-xs text-gray-300">
+                <label className="flex items-center gap-1 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={step.isFocus}
+                    onChange={(e) => updateStep(index, { isFocus: e.target.checked })}
+                  />
+                  Focus
+                </label>
+                {/* Focus steps follow the focus radio profile in settings */}
+                {!step.isFocus && (
+                  <label className="flex items-center gap-1 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={step.radio !== 'silent'}
+                      onChange={(e) => updateStep(index, { radio: e.target.checked ? 'random' : 'silent' })}
+                    />
+                    Radio
+                  </label>
+                )}
+                <div className="ml-auto flex items-center gap-1">
+                  <button onClick={() => moveStep(index, -1)} className="p-1 rounded hover:bg-gray-700/50" title="Move up">
+                    <ArrowUp size={12} />
+                  </button>
+                  <button onClick={() => moveStep(index, 1)} className="p-1 rounded hover:bg-gray-700/50" title="Move down">
+                    <ArrowDown size={12} />
+                  </button>
+                  <button onClick={() => removeStep(index)} className="p-1 rounded hover:bg-gray-700/50 hover:text-red-400" title="Remove step">
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+
+          <button
+            onClick={addStep}
+            className="flex items-center gap-2 !px-3 !py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-white text-xs transition-colors"
+          >
+            <Plus size={12} />
+            Add step
+          </button>
+
+          {!draftIsValid && (
+            <div className="text-xs text-red-400">
+              Every step needs a label and 1–480 minutes, and the sequence needs a name and at least one step.
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => normalizedDraft && saveSequence(normalizedDraft)}
+              disabled={!draftIsValid || !hasChanges}
+              className="!px-3 !py-1.5 rounded-lg bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/50 text-white text-xs transition-colors disabled:opacity-40"
+            >
+              Save
+            </button>
+            <button
+              onClick={() => removeSequence(draft.id)}
+              className="!px-3 !py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-white text-xs transition-colors"
+            >
+              Delete sequence
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">
+            Changes to the running step&apos;s length rescale the time left; everything else applies from the next phase.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { RotateCcw } from 'lucide-react';
+import type { PomodoroSettings } from '@/types/pomodoro';
+import { SETTINGS_LIMITS } from '@/lib/pomodoroSettings';
+import type { SettingsErrors, NumericSettingKey } from '@/lib/pomodoroSettings';
+import { RadioProfilesPanel } from '@/components/RadioProfilesPanel';
+
+interface SettingsPanelProps {
+  settings: PomodoroSettings;
+  errors: SettingsErrors;
+  onChange: (changes: Partial<Record<keyof PomodoroSettings, unknown>>) => void;
+  onReset: () => void;
+}
+
+const SETTINGS_FIELDS = Object.keys(SETTINGS_LIMITS) as NumericSettingKey[];
+
+export function SettingsPanel({ settings, errors, onChange, onReset }: SettingsPanelProps) {
+  // Keep raw input text so invalid values can be shown while being edited
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  // Sync drafts when settings change from outside (load, reset)
+  useEffect(() => {
+    setDrafts(prev => {
+      const next: Record<string, string> = {};
+      SETTINGS_FIELDS.forEach(key => {
+        // Keep drafts that are mid-edit ("2." for 2) or invalid so the user can fix them
+        const isSameValue = prev[key] !== undefined && Number(prev[key]) === settings[key];
+        next[key] = isSameValue || errors[key] ? prev[key] : settings[key].toString();
+      });
+      return next;
+    });
+  }, [settings, errors]);
+
+  const handleChange = (key: NumericSettingKey, value: string) => {
+    setDrafts(prev => ({ ...prev, [key]: value }));
+    onChange({ [key]: value.trim() === '' ? NaN : Number(value) });
+  };
+
+  return (
+    <div className="!space-y-3">
+      {SETTINGS_FIELDS.map(key => {
+        const limit = SETTINGS_LIMITS[key];
+        return (
+          <div key={key} className="!space-y-1">
+            <label className="flex items-center justify-between gap-3 text-sm text-gray-300">
+              <span>{limit.label}</span>
+              <input
+                type="number"
+                min={limit.min}
+                max={limit.max}
+                step={limit.integer ? 1 : 0.5}
+                value={drafts[key] ?? ''}
+                onChange={(e) => handleChange(key, e.target.value)}
+                className={`w-20 bg-gray-800 rounded-md !px-2 !py-1 text-right text-white border ${
+                  errors[key] ? 'border-red-500' : 'border-gray-700 focus:border-blue-500'
+                } outline-none`}
+              />
+            </label>
+            {errors[key] && (
+              <div className="text-xs text-red-400 text-right">{errors[key]}</div>
+            )}
+          </div>
+        );
+      })}
+
+      <p className="text-xs text-gray-500">
+        Changing the current phase&apos;s length rescales the time left. Other changes apply from the next phase.
+      </p>
+
+      <RadioProfilesPanel
+        profiles={settings.radioProfiles}
+        onChange={(radioProfiles) => onChange({ radioProfiles })}
+      />
+
+      <button
+        onClick={onReset}
+        className="flex items-center gap-2 !px-3 !py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-white text-xs transition-colors"
+      >
+        <RotateCcw size={12} />
+        Restore defaults
+      </button>
+    </div>
+  );
+}
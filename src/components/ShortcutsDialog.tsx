@@ -0,0 +1,97 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Keyboard, RotateCcw, X } from 'lucide-react';
+import type { ShortcutAction } from '@/types/shortcuts';
+import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts';
+import { SHORTCUT_ACTIONS, SHORTCUT_LABELS, eventToCombo, formatCombo } from '@/lib/shortcuts';
+
+interface ShortcutsDialogProps {
+  shortcuts: ReturnType<typeof useKeyboardShortcuts>;
+  onClose: () => void;
+}
+
+export function ShortcutsDialog({ shortcuts, onClose }: ShortcutsDialogProps) {
+  const { bindings, updateBinding, resetBindings } = shortcuts;
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+
+  // Capture keys before the global shortcuts see them: the next combo is recorded
+  // while rebinding, Escape cancels or closes
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        event.preventDefault();
+        event.stopPropagation();
+        if (recording) {
+          setRecording(null);
+        } else {
+          onClose();
+        }
+        return;
+      }
+      if (!recording) return;
+
+      const combo = eventToCombo(event);
+      if (!combo) return;
+
+      event.preventDefault();
+      event.stopPropagation();
+      updateBinding(recording, combo);
+      setRecording(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [recording, updateBinding, onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60" onClick={onClose}>
+      <div
+        className="bg-gray-900/95 backdrop-blur-xl border border-gray-700 rounded-xl shadow-lg !p-5 w-[24rem] max-w-[calc(100vw-2rem)]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-2 !mb-4">
+          <Keyboard className="h-5 w-5 text-blue-400" />
+          <span className="flex-1 text-white font-semibold">Keyboard shortcuts</span>
+          <button
+            onClick={onClose}
+            className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700/50 transition-colors"
+            title="Close"
+          >
+            <X size={14} />
+          </button>
+        </div>
+
+        <div className="!space-y-1">
+          {SHORTCUT_ACTIONS.map(action => (
+            <div key={action} className="flex items-center justify-between gap-3 text-sm text-gray-300">
+              <span>{SHORTCUT_LABELS[action]}</span>
+              <button
+                onClick={() => setRecording(action)}
+                className={`min-w-16 !px-2 !py-1 rounded-md font-mono text-xs border transition-colors ${
+                  recording === action
+                    ? 'border-blue-500 bg-blue-500/20 text-white'
+                    : 'border-gray-700 bg-gray-800 text-gray-200 hover:border-gray-500'
+                }`}
+                title="Click, then press a new key"
+              >
+                {recording === action ? 'Press a key…' : formatCombo(bindings[action])}
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between gap-2 !mt-4">
+          <p className="text-xs text-gray-500">Click a key to rebind it. Shortcuts are off while typing.</p>
+          <button
+            onClick={resetBindings}
+            className="flex items-center gap-2 !px-3 !py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-white text-xs transition-colors flex-shrink-0"
+          >
+            <RotateCcw size={12} />
+            Defaults
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,36 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { Menu, Timer, Check, ChevronDown, ChevronRight, Globe, Radio, Play, Square, Volume2, Heart } from 'lucide-react';
+import { useState, useEffect, useMemo } from 'react';
+import { Menu, Timer, Check, ChevronDown, ChevronRight, Globe, Radio, Play, Square, Volume2, Heart, SlidersHorizontal, BarChart3, ListTodo, ListOrdered, Bell, CalendarClock, Webhook, Users, Filter, Shuffle, ThumbsUp, ThumbsDown, Plane, CloudOff } from 'lucide-react';
 import { usePomodoro } from '@/hooks/usePomodoro';
+import { usePomodoroSettings } from '@/hooks/usePomodoroSettings';
+import { usePhaseSequences } from '@/hooks/usePhaseSequences';
+import { useSessionHistory } from '@/hooks/useSessionHistory';
+import { useTasks } from '@/hooks/useTasks';
+import { usePhaseAlerts } from '@/hooks/usePhaseAlerts';
+import { useFavorites } from '@/hooks/useFavorites';
+import { useStationFilters } from '@/hooks/useStationFilters';
+import { useStationSelection } from '@/hooks/useStationSelection';
+import { useWorldTour } from '@/hooks/useWorldTour';
+import { useCalendar } from '@/hooks/useCalendar';
+import { useWebhooks } from '@/hooks/useWebhooks';
+import { useFocusRoom } from '@/hooks/useFocusRoom';
+import { SettingsPanel } from '@/components/SettingsPanel';
+import { SequencePanel } from '@/components/SequencePanel';
+import { StatsPanel } from '@/components/StatsPanel';
+import { HistoryTransferPanel } from '@/components/HistoryTransferPanel';
+import { TaskPanel } from '@/components/TaskPanel';
+import { AlertsPanel } from '@/components/AlertsPanel';
+import { CalendarPanel } from '@/components/CalendarPanel';
+import { WebhooksPanel } from '@/components/WebhooksPanel';
+import { RoomPanel } from '@/components/RoomPanel';
+import { StationFiltersPanel } from '@/components/StationFiltersPanel';
+import { StationSelectionPanel } from '@/components/StationSelectionPanel';
+import { TourPanel } from '@/components/TourPanel';
+import { StationLocalTime } from '@/components/StationLocalTime';
 import { getCountryFlag } from '@/utils/countryFlags';
+import { applyStationFilters } from '@/lib/stationFilters';
+import { isSoundscapeStation } from '@/lib/soundscape';
 import type { RadioStation } from '@/types/radio';
 import {
   Sheet,
@@ -19,16 +46,29 @@ interface SideMenuProps {
   pomodoroEnabled: boolean;
   onPomodoroToggle: (enabled: boolean) => void;
   pomodoro: ReturnType<typeof usePomodoro>;
+  pomodoroSettings: ReturnType<typeof usePomodoroSettings>;
+  phaseSequences: ReturnType<typeof usePhaseSequences>;
+  sessionHistory: ReturnType<typeof useSessionHistory>;
+  tasks: ReturnType<typeof useTasks>;
+  phaseAlerts: ReturnType<typeof usePhaseAlerts>;
+  stationFavorites: ReturnType<typeof useFavorites>;
+  stationFilters: ReturnType<typeof useStationFilters>;
+  stationSelection: ReturnType<typeof useStationSelection>;
+  worldTour: ReturnType<typeof useWorldTour>;
+  calendar: ReturnType<typeof useCalendar>;
+  webhooks: ReturnType<typeof useWebhooks>;
+  room: ReturnType<typeof useFocusRoom>;
   onStationSelect: (station: RadioStation) => void;
   onFlyToStation: (station: RadioStation) => void;
 }
 
-export function SideMenu({ pomodoroEnabled, onPomodoroToggle, pomodoro, onStationSelect, onFlyToStation }: SideMenuProps) {
+export function SideMenu({ pomodoroEnabled, onPomodoroToggle, pomodoro, pomodoroSettings, phaseSequences, sessionHistory, tasks, phaseAlerts, stationFavorites, stationFilters, stationSelection, worldTour, calendar, webhooks, room, onStationSelect, onFlyToStation }: SideMenuProps) {
   const [isOpen, setIsOpen] = useState(false);
-  const [countries, setCountries] = useState<{[key: string]: RadioStation[]}>({});
+  const [allStations, setAllStations] = useState<RadioStation[]>([]);
   const [expandedCountries, setExpandedCountries] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(true);
-  const [favorites, setFavorites] = useState<Set<string>>(new Set());
+  const { favorites } = stationFavorites;
+  const isSoundscape = isSoundscapeStation(pomodoro.audio.currentStation);
   const [favoriteStations, setFavoriteStations] = useState<RadioStation[]>([]);
   
   // State for section dropdowns
@@ -36,29 +76,13 @@ export function SideMenu({ pomodoroEnabled, onPomodoroToggle, pomodoro, onStatio
     new Set() // Start with all sections closed
   );
 
-  // Load and group stations by country
+  // Load stations
   useEffect(() => {
     const loadStations = async () => {
       try {
         const response = await fetch('/radio-stations.json');
         const data = await response.json();
-        const stations = data.stations as RadioStation[];
-        
-        // Group stations by country
-        const grouped: {[key: string]: RadioStation[]} = {};
-        stations.forEach(station => {
-          if (!grouped[station.country]) {
-            grouped[station.country] = [];
-          }
-          grouped[station.country].push(station);
-        });
-        
-        // Sort countries alphabetically and sort stations within each country by name
-        Object.keys(grouped).forEach(country => {
-          grouped[country].sort((a, b) => a.name.localeCompare(b.name));
-        });
-        
-        setCountries(grouped);
+        setAllStations(data.stations as RadioStation[]);
         setLoading(false);
       } catch (error) {
         console.error('Failed to load radio stations:', error);
@@ -68,42 +92,38 @@ export function SideMenu({ pomodoroEnabled, onPomodoroToggle, pomodoro, onStatio
     loadStations();
   }, []);
 
-  // Load favorites from localStorage
-  useEffect(() => {
-    const savedFavorites = localStorage.getItem('radio-favorites');
-    if (savedFavorites) {
-      try {
-        const favoriteIds = JSON.parse(savedFavorites) as string[];
-        setFavorites(new Set(favoriteIds));
-      } catch (error) {
-        console.error('Failed to load favorites:', error);
+  const matchingStations = useMemo(
+    () => applyStationFilters(allStations, stationFilters.filters),
+    [allStations, stationFilters.filters]
+  );
+
+  // Group the stations that meet the filters by country
+  const countries = useMemo(() => {
+    const grouped: {[key: string]: RadioStation[]} = {};
+    matchingStations.forEach(station => {
+      if (!grouped[station.country]) {
+        grouped[station.country] = [];
       }
-    }
-  }, []);
+      grouped[station.country].push(station);
+    });
+    
+    // Sort countries alphabetically and sort stations within each country by name
+    Object.keys(grouped).forEach(country => {
+      grouped[country].sort((a, b) => a.name.localeCompare(b.name));
+    });
+    return grouped;
+  }, [matchingStations]);
 
-  // Update favorite stations when favorites or countries change
+  // Update favorite stations when favorites or stations change. Favorites stay listed
+  // whatever the filters say, since they were picked by hand.
   useEffect(() => {
-    const allStations = Object.values(countries).flat();
     const favStations = allStations.filter(station => favorites.has(station.stationuuid));
     setFavoriteStations(favStations);
-  }, [favorites, countries]);
+  }, [favorites, allStations]);
 
   const toggleFavorite = (station: RadioStation, event: React.MouseEvent) => {
     event.stopPropagation(); // Prevent any bubbling
-    
-    setFavorites(prev => {
-      const newFavorites = new Set(prev);
-      if (newFavorites.has(station.stationuuid)) {
-        newFavorites.delete(station.stationuuid);
-      } else {
-        newFavorites.add(station.stationuuid);
-      }
-      
-      // Save to localStorage
-      localStorage.setItem('radio-favorites', JSON.stringify(Array.from(newFavorites)));
-      
-      return newFavorites;
-    });
+    stationFavorites.toggleFavorite(station);
   };
 
   const toggleCountry = (country: string) => {
@@ -158,7 +178,7 @@ export function SideMenu({ pomodoroEnabled, onPomodoroToggle, pomodoro, onStatio
           </SheetDescription> */}
         </SheetHeader>
         
-        <div className="space-y-4 !mt-8 flex-1 flex flex-col overflow-hidden">
+        <div className="space-y-4 !mt-8 flex-1 flex flex-col overflow-y-auto">
           {/* Options Section Header */}
           <button
             onClick={() => toggleSection('options')}
@@ -255,6 +275,203 @@ export function SideMenu({ pomodoroEnabled, onPomodoroToggle, pomodoro, onStatio
             </div>
           )}
 
+          {/* Tasks Section */}
+          <div className="border-t border-gray-700 !py-4">
+            <button
+              onClick={() => toggleSection('tasks')}
+              className="flex items-center gap-2 w-full !p-2 rounded-lg hover:bg-gray-800/50 transition-colors text-left"
+            >
+              {expandedSections.has('tasks') ? (
+                <ChevronDown className="h-4 w-4 text-gray-400 flex-shrink-0" />
+              ) : (
+                <ChevronRight className="h-4 w-4 text-gray-400 flex-shrink-0" />
+              )}
+              <ListTodo className="h-5 w-5 text-gray-400" />
+              <span className="text-white font-semibold">Tasks</span>
+              <span className="text-gray-400 text-xs ml-auto">
+                ({tasks.tasks.filter(task => !task.done).length})
+              </span>
+            </button>
+
+            {expandedSections.has('tasks') && (
+              <div className="!ml-6 !mt-3">
+                <TaskPanel tasks={tasks} isRunning={pomodoro.isRunning} />
+              </div>
+            )}
+          </div>
+
+          {/* Focus Room Section */}
+          <div className="border-t border-gray-700 !py-4">
+            <button
+              onClick={() => toggleSection('room')}
+              className="flex items-center gap-2 w-full !p-2 rounded-lg hover:bg-gray-800/50 transition-colors text-left"
+            >
+              {expandedSections.has('room') ? (
+                <ChevronDown className="h-4 w-4 text-gray-400 flex-shrink-0" />
+              ) : (
+                <ChevronRight className="h-4 w-4 text-gray-400 flex-shrink-0" />
+              )}
+              <Users className="h-5 w-5 text-gray-400" />
+              <span className="text-white font-semibold">Focus Room</span>
+              {room.members.length > 0 && (
+                <span className="text-xs text-gray-400 ml-auto">{room.members.length}</span>
+              )}
+            </button>
+
+            {expandedSections.has('room') && (
+              <div className="!ml-6 !mt-3">
+                <RoomPanel room={room} />
+              </div>
+            )}
+          </div>
+
+          {/* Settings Section */}
+          <div className="border-t border-gray-700 !py-4">
+            <button
+              onClick={() => toggleSection('settings')}
+              className="flex items-center gap-2 w-full !p-2 rounded-lg hover:bg-gray-800/50 transition-colors text-left"
+            >
+              {expandedSections.has('settings') ? (
+                <ChevronDown className="h-4 w-4 text-gray-400 flex-shrink-0" />
+              ) : (
+                <ChevronRight className="h-4 w-4 text-gray-400 flex-shrink-0" />
+              )}
+              <SlidersHorizontal className="h-5 w-5 text-gray-400" />
+              <span className="text-white font-semibold">Settings</span>
+            </button>
+
+            {expandedSections.has('settings') && (
+              <div className="!ml-6 !mt-3">
+                <SettingsPanel
+                  settings={pomodoroSettings.settings}
+                  errors={pomodoroSettings.errors}
+                  onChange={pomodoroSettings.updateSettings}
+                  onReset={pomodoroSettings.resetSettings}
+                />
+              </div>
+            )}
+          </div>
+
+          {/* Alerts Section */}
+          <div className="border-t border-gray-700 !py-4">
+            <button
+              onClick={() => toggleSection('alerts')}
+              className="flex items-center gap-2 w-full !p-2 rounded-lg hover:bg-gray-800/50 transition-colors text-left"
+            >
+              {expandedSections.has('alerts') ? (
+                <ChevronDown className="h-4 w-4 text-gray-400 flex-shrink-0" />
+              ) : (
+                <ChevronRight className="h-4 w-4 text-gray-400 flex-shrink-0" />
+              )}
+              <Bell className="h-5 w-5 text-gray-400" />
+              <span className="text-white font-semibold">Alerts</span>
+            </button>
+
+            {expandedSections.has('alerts') && (
+              <div className="!ml-6 !mt-3">
+                <AlertsPanel phaseAlerts={phaseAlerts} />
+              </div>
+            )}
+          </div>
+
+          {/* Calendar Section */}
+          <div className="border-t border-gray-700 !py-4">
+            <button
+              onClick={() => toggleSection('calendar')}
+              className="flex items-center gap-2 w-full !p-2 rounded-lg hover:bg-gray-800/50 transition-colors text-left"
+            >
+              {expandedSections.has('calendar') ? (
+                <ChevronDown className="h-4 w-4 text-gray-400 flex-shrink-0" />
+              ) : (
+                <ChevronRight className="h-4 w-4 text-gray-400 flex-shrink-0" />
+              )}
+              <CalendarClock className="h-5 w-5 text-gray-400" />
+              <span className="text-white font-semibold">Calendar</span>
+            </button>
+
+            {expandedSections.has('calendar') && (
+              <div className="!ml-6 !mt-3">
+                <CalendarPanel calendar={calendar} />
+              </div>
+            )}
+          </div>
+
+          {/* Webhooks Section */}
+          <div className="border-t border-gray-700 !py-4">
+            <button
+              onClick={() => toggleSection('webhooks')}
+              className="flex items-center gap-2 w-full !p-2 rounded-lg hover:bg-gray-800/50 transition-colors text-left"
+            >
+              {expandedSections.has('webhooks') ? (
+                <ChevronDown className="h-4 w-4 text-gray-400 flex-shrink-0" />
+              ) : (
+                <ChevronRight className="h-4 w-4 text-gray-400 flex-shrink-0" />
+              )}
+              <Webhook className="h-5 w-5 text-gray-400" />
+              <span className="text-white font-semibold">Webhooks</span>
+            </button>
+
+            {expandedSections.has('webhooks') && (
+              <div className="!ml-6 !mt-3">
+                <WebhooksPanel webhooks={webhooks} />
+              </div>
+            )}
+          </div>
+
+          {/* Sequence Section */}
+          <div className="border-t border-gray-700 !py-4">
+            <button
+              onClick={() => toggleSection('sequence')}
+              className="flex items-center gap-2 w-full !p-2 rounded-lg hover:bg-gray-800/50 transition-colors text-left"
+            >
+              {expandedSections.has('sequence') ? (
+                <ChevronDown className="h-4 w-4 text-gray-400 flex-shrink-0" />
+              ) : (
+                <ChevronRight className="h-4 w-4 text-gray-400 flex-shrink-0" />
+              )}
+              <ListOrdered className="h-5 w-5 text-gray-400" />
+              <span className="text-white font-semibold">Phase Sequence</span>
+            </button>
+
+            {expandedSections.has('sequence') && (
+              <div className="!ml-6 !mt-3">
+                <SequencePanel phaseSequences={phaseSequences} />
+              </div>
+            )}
+          </div>
+
+          {/* Statistics Section */}
+          <div className="border-t border-gray-700 !py-4">
+            <button
+              onClick={() => toggleSection('stats')}
+              className="flex items-center gap-2 w-full !p-2 rounded-lg hover:bg-gray-800/50 transition-colors text-left"
+            >
+              {expandedSections.has('stats') ? (
+                <ChevronDown className="h-4 w-4 text-gray-400 flex-shrink-0" />
+              ) : (
+                <ChevronRight className="h-4 w-4 text-gray-400 flex-shrink-0" />
+              )}
+              <BarChart3 className="h-5 w-5 text-gray-400" />
+              <span className="text-white font-semibold">Statistics</span>
+            </button>
+
+            {expandedSections.has('stats') && (
+              <div className="!ml-6 !mt-3 !space-y-4">
+                <StatsPanel
+                  entries={sessionHistory.entries}
+                  loading={sessionHistory.loading}
+                  onClear={sessionHistory.clearHistory}
+                />
+                {!sessionHistory.loading && (
+                  <HistoryTransferPanel
+                    entries={sessionHistory.entries}
+                    onImport={sessionHistory.importEntries}
+                  />
+                )}
+              </div>
+            )}
+          </div>
+
           {/* Now Playing Section */}
           <div className="border-t border-gray-700 !py-4">
             <button
@@ -281,27 +498,51 @@ export function SideMenu({ pomodoroEnabled, onPomodoroToggle, pomodoro, onStatio
                   <div className="flex items-center justify-between">
                     <div className="flex items-center gap-2">
                       <span className="text-3xl">
-                        {getCountryFlag(pomodoro.audio.currentStation.countrycode)}
+                        {isSoundscape
+                          ? <CloudOff className="h-7 w-7 text-amber-400" />
+                          : getCountryFlag(pomodoro.audio.currentStation.countrycode)}
                       </span>
                       <div className="text-white font-medium">
                         {pomodoro.audio.currentStation.country}
                       </div>
                     </div>
                     
-                    {/* Favorite Heart */}
-                    <button
-                      onClick={(e) => toggleFavorite(pomodoro.audio.currentStation!, e)}
-                      className="p-2 rounded-lg hover:bg-gray-700/50 transition-colors"
-                      title={favorites.has(pomodoro.audio.currentStation!.stationuuid) ? "Remove from favorites" : "Add to favorites"}
-                    >
-                      <Heart 
-                        className={`h-5 w-5 transition-colors ${
-                          favorites.has(pomodoro.audio.currentStation!.stationuuid)
-                            ? 'text-red-500 fill-red-500' 
-                            : 'text-gray-400 hover:text-red-400'
-                        }`}
-                      />
-                    </button>
+                    {/* The soundscape is no station to rate or keep */}
+                    {!isSoundscape && (
+                      <div className="flex items-center">
+                        {/* Ratings, which weigh future break picks */}
+                        {([1, -1] as const).map(rating => {
+                          const station = pomodoro.audio.currentStation!;
+                          const isRated = stationSelection.ratings[station.stationuuid] === rating;
+                          const Icon = rating === 1 ? ThumbsUp : ThumbsDown;
+                          return (
+                            <button
+                              key={rating}
+                              onClick={() => stationSelection.rateStation(station, isRated ? null : rating)}
+                              className="p-2 rounded-lg hover:bg-gray-700/50 transition-colors"
+                              title={isRated ? 'Clear rating' : rating === 1 ? 'Play more like this' : 'Play this less often'}
+                            >
+                              <Icon className={`h-4 w-4 transition-colors ${isRated ? 'text-blue-400' : 'text-gray-400 hover:text-white'}`} />
+                            </button>
+                          );
+                        })}
+
+                        {/* Favorite Heart */}
+                        <button
+                          onClick={(e) => toggleFavorite(pomodoro.audio.currentStation!, e)}
+                          className="p-2 rounded-lg hover:bg-gray-700/50 transition-colors"
+                          title={favorites.has(pomodoro.audio.currentStation!.stationuuid) ? "Remove from favorites" : "Add to favorites"}
+                        >
+                          <Heart 
+                            className={`h-5 w-5 transition-colors ${
+                              favorites.has(pomodoro.audio.currentStation!.stationuuid)
+                                ? 'text-red-500 fill-red-500' 
+                                : 'text-gray-400 hover:text-red-400'
+                            }`}
+                          />
+                        </button>
+                      </div>
+                    )}
                   </div>
                   
                   {/* Station Info */}
@@ -314,7 +555,15 @@ export function SideMenu({ pomodoroEnabled, onPomodoroToggle, pomodoro, onStatio
                         {pomodoro.audio.currentStation.codec} • {pomodoro.audio.currentStation.bitrate}kbps
                       </div>
                     )}
+                    <StationLocalTime station={pomodoro.audio.currentStation} />
                   </div>
+
+                  {isSoundscape && (
+                    <div className="text-xs text-amber-300 bg-amber-500/10 border border-amber-500/30 rounded-md !px-3 !py-2">
+                      No radio station could be reached, so this break plays a soundscape generated on
+                      this device. The next break tries the radio again.
+                    </div>
+                  )}
                   
                   {/* Controls */}
                   <div className="!space-y-3">
@@ -376,6 +625,82 @@ export function SideMenu({ pomodoroEnabled, onPomodoroToggle, pomodoro, onStatio
             )}
           </div>
 
+          {/* Station Filters Section */}
+          <div className="border-t border-gray-700 !py-4">
+            <button
+              onClick={() => toggleSection('filters')}
+              className="flex items-center gap-2 w-full !p-2 rounded-lg hover:bg-gray-800/50 transition-colors text-left"
+            >
+              {expandedSections.has('filters') ? (
+                <ChevronDown className="h-4 w-4 text-gray-400 flex-shrink-0" />
+              ) : (
+                <ChevronRight className="h-4 w-4 text-gray-400 flex-shrink-0" />
+              )}
+              <Filter className="h-5 w-5 text-gray-400" />
+              <span className="text-white font-semibold">Station Filters</span>
+              {stationFilters.isActive && (
+                <span className="text-gray-400 text-xs ml-auto">On</span>
+              )}
+            </button>
+
+            {expandedSections.has('filters') && (
+              <div className="!ml-6 !mt-3">
+                <StationFiltersPanel stationFilters={stationFilters} stations={allStations} />
+              </div>
+            )}
+          </div>
+
+          {/* Station Picks Section */}
+          <div className="border-t border-gray-700 !py-4">
+            <button
+              onClick={() => toggleSection('picks')}
+              className="flex items-center gap-2 w-full !p-2 rounded-lg hover:bg-gray-800/50 transition-colors text-left"
+            >
+              {expandedSections.has('picks') ? (
+                <ChevronDown className="h-4 w-4 text-gray-400 flex-shrink-0" />
+              ) : (
+                <ChevronRight className="h-4 w-4 text-gray-400 flex-shrink-0" />
+              )}
+              <Shuffle className="h-5 w-5 text-gray-400" />
+              <span className="text-white font-semibold">Station Picks</span>
+            </button>
+
+            {expandedSections.has('picks') && (
+              <div className="!ml-6 !mt-3">
+                <StationSelectionPanel stationSelection={stationSelection} stations={matchingStations} />
+              </div>
+            )}
+          </div>
+
+          {/* World Tour Section */}
+          <div className="border-t border-gray-700 !py-4">
+            <button
+              onClick={() => toggleSection('tour')}
+              className="flex items-center gap-2 w-full !p-2 rounded-lg hover:bg-gray-800/50 transition-colors text-left"
+            >
+              {expandedSections.has('tour') ? (
+                <ChevronDown className="h-4 w-4 text-gray-400 flex-shrink-0" />
+              ) : (
+                <ChevronRight className="h-4 w-4 text-gray-400 flex-shrink-0" />
+              )}
+              <Plane className="h-5 w-5 text-gray-400" />
+              <span className="text-white font-semibold">World Tour</span>
+              {(worldTour.isActive || worldTour.isDrawing) && (
+                <span className="text-gray-400 text-xs ml-auto">{worldTour.isDrawing ? 'Drawing' : 'On'}</span>
+              )}
+            </button>
+
+            {expandedSections.has('tour') && (
+              <div className="!ml-6 !mt-3">
+                <TourPanel
+                  worldTour={worldTour}
+                  stations={matchingStations}
+                  currentStation={pomodoro.audio.currentStation}
+                />
+              </div>
+            )}
+          </div>
+
           {/* Favorites Section */}
           <div className="border-t border-gray-700 !py-4">
             <button
@@ -450,7 +775,7 @@ export function SideMenu({ pomodoroEnabled, onPomodoroToggle, pomodoro, onStatio
           </div>
 
           {/* Radio Stations Section */}
-          <div className="border-t border-gray-700 !py-6 flex-1 flex flex-col overflow-hidden">
+          <div className="border-t border-gray-700 !py-6 flex-1 flex flex-col overflow-hidden min-h-64">
             <button
               onClick={() => toggleSection('stations')}
               className="flex items-center gap-2 w-full !p-2 rounded-lg hover:bg-gray-800/50 transition-colors text-left"
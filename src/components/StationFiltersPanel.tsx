@@ -0,0 +1,110 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { RotateCcw } from 'lucide-react';
+import type { RadioStation, StationFilters } from '@/types/radio';
+import { useStationFilters } from '@/hooks/useStationFilters';
+import { STATION_FILTER_LIST_KEYS, applyStationFilters, parseFilterList } from '@/lib/stationFilters';
+import type { StationFilterListKey } from '@/lib/stationFilters';
+
+interface StationFiltersPanelProps {
+  stationFilters: ReturnType<typeof useStationFilters>;
+  stations: RadioStation[]; // every station, for the preview count
+}
+
+const FILTER_ROWS: { label: string; include: StationFilterListKey; exclude: StationFilterListKey; placeholder: string }[] = [
+  { label: 'Tags', include: 'includeTags', exclude: 'excludeTags', placeholder: 'jazz, ambient' },
+  { label: 'Languages', include: 'includeLanguages', exclude: 'excludeLanguages', placeholder: 'english, de' },
+  { label: 'Countries', include: 'includeCountries', exclude: 'excludeCountries', placeholder: 'japan, BR' },
+  { label: 'Codecs', include: 'includeCodecs', exclude: 'excludeCodecs', placeholder: 'mp3, aac' },
+];
+
+const MINIMUM_FIELDS: { key: 'minBitrate' | 'minVotes'; label: string }[] = [
+  { key: 'minBitrate', label: 'Minimum bitrate (kbps)' },
+  { key: 'minVotes', label: 'Minimum votes' },
+];
+
+export function StationFiltersPanel({ stationFilters, stations }: StationFiltersPanelProps) {
+  const { filters, isActive, updateFilters, resetFilters } = stationFilters;
+  // Keep raw list text so a trailing comma or space survives while typing
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  // Sync drafts when filters change from outside (load, reset)
+  useEffect(() => {
+    setDrafts(prev => {
+      const next: Record<string, string> = {};
+      STATION_FILTER_LIST_KEYS.forEach(key => {
+        const isSameValue = prev[key] !== undefined && parseFilterList(prev[key]).join(',') === filters[key].join(',');
+        next[key] = isSameValue ? prev[key] : filters[key].join(', ');
+      });
+      return next;
+    });
+  }, [filters]);
+
+  const handleListChange = (key: StationFilterListKey, value: string) => {
+    setDrafts(prev => ({ ...prev, [key]: value }));
+    updateFilters({ [key]: parseFilterList(value) } as Partial<StationFilters>);
+  };
+
+  const matchingCount = useMemo(() => applyStationFilters(stations, filters).length, [stations, filters]);
+
+  const inputClass = 'w-full bg-gray-800 rounded-md !px-2 !py-1 text-xs text-white border border-gray-700 focus:border-blue-500 outline-none';
+
+  return (
+    <div className="!space-y-3">
+      <div className="text-xs text-gray-400">
+        Narrow the stations picked for breaks, shown on the globe and listed below. Separate terms with commas.
+      </div>
+
+      {FILTER_ROWS.map(row => (
+        <div key={row.label} className="!space-y-1">
+          <div className="text-xs text-gray-300">{row.label}</div>
+          <div className="flex items-center gap-2">
+            <input
+              value={drafts[row.include] ?? ''}
+              onChange={(e) => handleListChange(row.include, e.target.value)}
+              placeholder={`Only ${row.placeholder}`}
+              className={inputClass}
+            />
+            <input
+              value={drafts[row.exclude] ?? ''}
+              onChange={(e) => handleListChange(row.exclude, e.target.value)}
+              placeholder="Never…"
+              className={inputClass}
+            />
+          </div>
+        </div>
+      ))}
+
+      {MINIMUM_FIELDS.map(field => (
+        <label key={field.key} className="flex items-center justify-between gap-3 text-xs text-gray-300">
+          <span>{field.label}</span>
+          <input
+            type="number"
+            min={0}
+            step={field.key === 'minBitrate' ? 32 : 10}
+            value={filters[field.key] || ''}
+            onChange={(e) => updateFilters({ [field.key]: Number(e.target.value) || 0 })}
+            placeholder="Any"
+            className="w-20 bg-gray-800 rounded-md !px-2 !py-1 text-right text-white border border-gray-700 focus:border-blue-500 outline-none"
+          />
+        </label>
+      ))}
+
+      <div className={`text-xs ${isActive && matchingCount === 0 ? 'text-yellow-400' : 'text-gray-400'}`}>
+        {matchingCount} of {stations.length} stations match
+        {isActive && matchingCount === 0 && ' — breaks will ignore these filters until some do'}
+      </div>
+
+      {isActive && (
+        <button
+          onClick={resetFilters}
+          className="flex items-center gap-2 !px-3 !py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-white text-xs transition-colors"
+        >
+          <RotateCcw size={12} />
+          Clear filters
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Clock } from 'lucide-react';
+import type { RadioStation } from '@/types/radio';
+import { formatStationTime } from '@/lib/timeZones';
+
+interface StationLocalTimeProps {
+  station: RadioStation;
+}
+
+// The station's clock, kept up to date while shown
+export function StationLocalTime({ station }: StationLocalTimeProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 15000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const time = formatStationTime(station, now);
+  if (!time) return null;
+
+  return (
+    <div className="flex items-center gap-1 text-xs text-gray-400" title="Local time where the station is">
+      <Clock className="h-3 w-3" />
+      {time} local time
+    </div>
+  );
+}
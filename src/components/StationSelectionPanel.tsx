@@ -0,0 +1,104 @@
+'use client';
+
+import { useState } from 'react';
+import { Activity } from 'lucide-react';
+import type { RadioStation } from '@/types/radio';
+import { useStationSelection } from '@/hooks/useStationSelection';
+import { MAX_NO_REPEAT_WITHIN } from '@/lib/stationSelection';
+import { isUnreliable } from '@/lib/stationReliability';
+import { MAX_PROBE_URLS, probeStreamsOnServer } from '@/lib/streamProbe';
+
+interface StationSelectionPanelProps {
+  stationSelection: ReturnType<typeof useStationSelection>;
+  stations: RadioStation[]; // stations breaks may pick from, for checking their streams
+}
+
+// Most stations checked per click, most voted first
+const MAX_STATIONS_PER_CHECK = 100;
+
+export function StationSelectionPanel({ stationSelection, stations }: StationSelectionPanelProps) {
+  const { settings, ratings, reliability, updateSettings, recordAttempt } = stationSelection;
+  const [checkProgress, setCheckProgress] = useState<{ done: number; total: number } | null>(null);
+  const ratedCount = Object.keys(ratings).length;
+  const checkedCount = Object.keys(reliability).length;
+  const unreliableCount = Object.values(reliability).filter(record => isUnreliable(record)).length;
+
+  // Check the streams of stations nothing is known about yet, from the server
+  const handleCheck = async () => {
+    const unchecked = stations
+      .filter(station => !reliability[station.stationuuid])
+      .sort((a, b) => b.votes - a.votes)
+      .slice(0, MAX_STATIONS_PER_CHECK);
+    setCheckProgress({ done: 0, total: unchecked.length });
+
+    for (let i = 0; i < unchecked.length; i += MAX_PROBE_URLS) {
+      const batch = unchecked.slice(i, i + MAX_PROBE_URLS);
+      const results = await probeStreamsOnServer(batch.map(station => station.url_resolved || station.url));
+      if (results.length === 0) break; // the route is unreachable
+
+      batch.forEach((station, index) => {
+        const result = results[index];
+        if (result) {
+          recordAttempt(station, result.ok, result.startMs);
+        }
+      });
+      setCheckProgress({ done: Math.min(unchecked.length, i + batch.length), total: unchecked.length });
+    }
+    setCheckProgress(null);
+  };
+
+  return (
+    <div className="!space-y-3">
+      <div className="text-xs text-gray-400">
+        Breaks lean towards favorites, stations you rated up and popular ones, and away from
+        stations you rated down or that fail, start slowly or keep buffering.
+      </div>
+
+      <label className="flex items-center justify-between gap-3 text-xs text-gray-300">
+        <span>Don&apos;t repeat a station within</span>
+        <span className="flex items-center gap-1">
+          <input
+            type="number"
+            min={0}
+            max={MAX_NO_REPEAT_WITHIN}
+            value={settings.noRepeatWithin}
+            onChange={(e) => updateSettings({ noRepeatWithin: Number(e.target.value) || 0 })}
+            className="w-14 bg-gray-800 rounded-md !px-2 !py-1 text-right text-white border border-gray-700 focus:border-blue-500 outline-none"
+          />
+          breaks
+        </span>
+      </label>
+
+      <div className="!space-y-1">
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={settings.novelty}
+          onChange={(e) => updateSettings({ novelty: Number(e.target.value) })}
+          className="w-full"
+        />
+        <div className="flex justify-between text-xs text-gray-400">
+          <span>Familiar</span>
+          <span>Something new</span>
+        </div>
+      </div>
+
+      {(ratedCount > 0 || checkedCount > 0) && (
+        <div className="text-xs text-gray-500">
+          {ratedCount} rated · {checkedCount} checked · {unreliableCount} left out as unreliable
+        </div>
+      )}
+
+      <button
+        onClick={handleCheck}
+        disabled={checkProgress !== null || stations.length === 0}
+        className="flex items-center gap-1.5 !px-3 !py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-white text-xs transition-colors disabled:opacity-40"
+      >
+        <Activity size={12} />
+        {checkProgress ? `Checking ${checkProgress.done} of ${checkProgress.total}...` : 'Check stations'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+'use client';
+
+import { useMemo } from 'react';
+import type { PhaseHistoryEntry } from '@/types/history';
+import { computeHistoryStats } from '@/lib/historyStats';
+
+interface StatsPanelProps {
+  entries: PhaseHistoryEntry[];
+  loading: boolean;
+  onClear: () => void;
+}
+
+const WEEKDAY_FORMAT = new Intl.DateTimeFormat(undefined, { weekday: 'short' });
+const WEEK_FORMAT = new Intl.DateTimeFormat(undefined, { month: 'short', day: 'numeric' });
+
+function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${Math.round(minutes)}m`;
+  return `${Math.floor(minutes / 60)}h ${Math.round(minutes % 60)}m`;
+}
+
+function formatHour(hour: number): string {
+  const date = new Date();
+  date.setHours(hour, 0, 0, 0);
+  return date.toLocaleTimeString(undefined, { hour: 'numeric' });
+}
+
+// Parse a YYYY-MM-DD key as a local date
+function parseDateKey(key: string): Date {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export function StatsPanel({ entries, loading, onClear }: StatsPanelProps) {
+  const stats = useMemo(() => computeHistoryStats(entries), [entries]);
+  const maxDaily = Math.max(1, ...stats.dailyFocusMinutes.map(day => day.minutes));
+
+  if (loading) {
+    return <div className="text-gray-400 text-sm">Loading history...</div>;
+  }
+
+  if (stats.totalSessions === 0) {
+    return (
+      <div className="bg-gray-800/30 rounded-lg !p-4 text-center">
+        <div className="text-gray-400 text-sm mb-1">No focus sessions yet</div>
+        <p className="text-xs text-gray-500">
+          Finished, skipped and reset phases will show up here
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="!space-y-4">
+      {/* Totals */}
+      <div className="grid grid-cols-2 gap-2">
+        <div className="bg-gray-800/50 rounded-lg !p-3">
+          <div className="text-xs text-gray-400">Today</div>
+          <div className="text-white font-semibold">{formatMinutes(stats.focusMinutesToday)}</div>
+        </div>
+        <div className="bg-gray-800/50 rounded-lg !p-3">
+          <div className="text-xs text-gray-400">This week</div>
+          <div className="text-white font-semibold">{formatMinutes(stats.focusMinutesThisWeek)}</div>
+        </div>
+      </div>
+
+      {/* Focus minutes per day */}
+      <div className="!space-y-2">
+        <div className="text-xs text-gray-400">Focus per day</div>
+        <div className="flex items-end gap-1 h-20">
+          {stats.dailyFocusMinutes.map(day => (
+            <div key={day.date} className="flex-1 flex flex-col items-center gap-1 h-full justify-end" title={`${formatMinutes(day.minutes)} on ${day.date}`}>
+              <div
+                className="w-full bg-blue-500/60 rounded-sm"
+                style={{ height: `${(day.minutes / maxDaily) * 100}%`, minHeight: day.minutes > 0 ? '2px' : 0 }}
+              />
+              <span className="text-[10px] text-gray-500">{WEEKDAY_FORMAT.format(parseDateKey(day.date))}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Focus minutes per week */}
+      <div className="!space-y-1">
+        <div className="text-xs text-gray-400">Focus per week</div>
+        {stats.weeklyFocusMinutes.map(week => (
+          <div key={week.weekStart} className="flex justify-between text-xs text-gray-300">
+            <span>Week of {WEEK_FORMAT.format(parseDateKey(week.weekStart))}</span>
+            <span>{formatMinutes(week.minutes)}</span>
+          </div>
+        ))}
+      </div>
+
+      {/* Rates */}
+      <div className="!space-y-1 text-xs text-gray-300">
+        <div className="flex justify-between">
+          <span>Completed</span>
+          <span>{Math.round(stats.completionRate * 100)}%</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Skipped</span>
+          <span>{Math.round(stats.skipRate * 100)}%</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Average session</span>
+          <span>{formatMinutes(stats.averageSessionMinutes)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Best time of day</span>
+          <span>{stats.bestHour !== null ? formatHour(stats.bestHour) : '—'}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Focus sessions</span>
+          <span>{stats.totalSessions}</span>
+        </div>
+      </div>
+
+      {/* Interruptions */}
+      <div className="!space-y-1 text-xs text-gray-300">
+        <div className="text-xs text-gray-400">Interruptions</div>
+        <div className="flex justify-between">
+          <span>Internal / external</span>
+          <span>{stats.internalInterruptions} / {stats.externalInterruptions}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Per session</span>
+          <span>{stats.interruptionsPerSession.toFixed(1)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Paused today</span>
+          <span>{formatMinutes(stats.pausedMinutesToday)}</span>
+        </div>
+        {stats.topInterruptionReasons.map(({ reason, count }) => (
+          <div key={reason} className="flex justify-between text-gray-400">
+            <span className="truncate">{reason}</span>
+            <span>×{count}</span>
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={() => {
+          if (window.confirm('Delete all session history?')) onClear();
+        }}
+        className="!px-3 !py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-white text-xs transition-colors"
+      >
+        Clear history
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, Plus, Trash2, Target } from 'lucide-react';
+import { useTasks } from '@/hooks/useTasks';
+
+interface TaskPanelProps {
+  tasks: ReturnType<typeof useTasks>;
+  isRunning: boolean;
+}
+
+export function TaskPanel({ tasks, isRunning }: TaskPanelProps) {
+  const [title, setTitle] = useState('');
+  const [estimate, setEstimate] = useState('1');
+
+  const openTasks = tasks.tasks.filter(task => !task.done);
+  const doneTasks = tasks.tasks.filter(task => task.done);
+
+  // Estimate vs. actual across finished tasks
+  const estimatedTotal = doneTasks.reduce((total, task) => total + task.estimatedPomodoros, 0);
+  const actualTotal = doneTasks.reduce((total, task) => total + task.actualPomodoros, 0);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const estimateValue = parseInt(estimate, 10);
+    if (!title.trim() || isNaN(estimateValue) || estimateValue < 1) return;
+
+    const task = tasks.addTask(title, estimateValue);
+    // Make the first task active so the next work phase counts towards it
+    if (!tasks.activeTask) {
+      tasks.setActiveTaskId(task.id);
+    }
+    setTitle('');
+    setEstimate('1');
+  };
+
+  return (
+    <div className="!space-y-4">
+      {/* New task */}
+      <form onSubmit={handleAdd} className="flex items-center gap-2">
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="What are you working on?"
+          className="flex-1 min-w-0 bg-gray-800 rounded-md !px-2 !py-1 text-sm text-white border border-gray-700 focus:border-blue-500 outline-none"
+        />
+        <input
+          type="number"
+          min={1}
+          max={20}
+          value={estimate}
+          onChange={(e) => setEstimate(e.target.value)}
+          title="Estimated pomodoros"
+          className="w-12 bg-gray-800 rounded-md !px-2 !py-1 text-sm text-right text-white border border-gray-700 focus:border-blue-500 outline-none"
+        />
+        <button
+          type="submit"
+          className="p-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-white transition-colors"
+          title="Add task"
+        >
+          <Plus size={14} />
+        </button>
+      </form>
+
+      {isRunning && (
+        <p className="text-xs text-gray-500">
+          Switching tasks now counts the current session towards the new task.
+        </p>
+      )}
+
+      {/* Open tasks */}
+      {openTasks.length > 0 ? (
+        <div className="!space-y-1">
+          {openTasks.map(task => {
+            const isActive = tasks.activeTask?.id === task.id;
+            const isOver = task.actualPomodoros > task.estimatedPomodoros;
+            return (
+              <div
+                key={task.id}
+                className={`flex items-center gap-2 w-full !p-2 rounded-lg transition-colors ${
+                  isActive ? 'bg-blue-500/20 border border-blue-500/50' : 'hover:bg-gray-800/50'
+                }`}
+              >
+                <button
+                  onClick={() => tasks.toggleDone(task.id)}
+                  className="w-4 h-4 rounded border border-gray-400 flex items-center justify-center flex-shrink-0 hover:border-white"
+                  title="Mark as done"
+                />
+                <button
+                  onClick={() => tasks.setActiveTaskId(isActive ? null : task.id)}
+                  className="flex-1 min-w-0 text-left"
+                  title={isActive ? 'Active task' : 'Focus on this task'}
+                >
+                  <div className="text-white text-sm truncate">{task.title}</div>
+                  <div className={`text-xs ${isOver ? 'text-orange-400' : 'text-gray-400'}`}>
+                    {task.actualPomodoros}/{task.estimatedPomodoros} pomodoros
+                  </div>
+                </button>
+                {isActive && <Target className="h-4 w-4 text-blue-400 flex-shrink-0" />}
+                <button
+                  onClick={() => tasks.removeTask(task.id)}
+                  className="p-1 rounded hover:bg-gray-700/50 text-gray-400 hover:text-red-400 transition-colors flex-shrink-0"
+                  title="Delete task"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="text-xs text-gray-500">No open tasks</div>
+      )}
+
+      {/* Finished tasks with estimate vs. actual */}
+      {doneTasks.length > 0 && (
+        <div className="!space-y-2">
+          <div className="flex justify-between text-xs text-gray-400">
+            <span>Done</span>
+            <span>
+              Estimated {estimatedTotal} • Actual {actualTotal}
+            </span>
+          </div>
+          {doneTasks.map(task => {
+            const difference = task.actualPomodoros - task.estimatedPomodoros;
+            return (
+              <div key={task.id} className="flex items-center gap-2 text-xs">
+                <button
+                  onClick={() => tasks.toggleDone(task.id)}
+                  className="w-4 h-4 rounded bg-blue-500 flex items-center justify-center flex-shrink-0"
+                  title="Mark as not done"
+                >
+                  <Check className="h-3 w-3 text-white" />
+                </button>
+                <span className="flex-1 min-w-0 truncate text-gray-400 line-through">{task.title}</span>
+                <span className={difference > 0 ? 'text-orange-400' : difference < 0 ? 'text-green-400' : 'text-gray-400'}>
+                  {task.actualPomodoros}/{task.estimatedPomodoros}
+                  {difference !== 0 && ` (${difference > 0 ? '+' : ''}${difference})`}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, Circle, MapPin, SkipForward, X } from 'lucide-react';
+import type { RadioStation } from '@/types/radio';
+import type { Continent, TourRoute } from '@/types/tour';
+import { useWorldTour } from '@/hooks/useWorldTour';
+import { CONTINENT_LABELS } from '@/lib/continents';
+import {
+  TOUR_ROUTE_LABELS,
+  MIN_TOUR_STOPS,
+  MAX_TOUR_STOPS,
+  DEFAULT_TOUR_STOPS,
+  planTour,
+  getNextTourStop,
+  getStationCoordinates,
+  isTourFinished,
+} from '@/lib/tour';
+import { getCountryFlag } from '@/utils/countryFlags';
+
+interface TourPanelProps {
+  worldTour: ReturnType<typeof useWorldTour>;
+  stations: RadioStation[]; // stations a tour may stop at
+  currentStation: RadioStation | null; // where east and west tours set off
+}
+
+const ROUTES = Object.keys(TOUR_ROUTE_LABELS) as TourRoute[];
+const CONTINENTS = Object.keys(CONTINENT_LABELS) as Continent[];
+
+export function TourPanel({ worldTour, stations, currentStation }: TourPanelProps) {
+  const { tour, draft, startTour, endTour, startDrawing, cancelDrawing, removeDraftStop } = worldTour;
+  const [route, setRoute] = useState<TourRoute>('east');
+  const [continent, setContinent] = useState<Continent>('europe');
+  const [stopCount, setStopCount] = useState(DEFAULT_TOUR_STOPS);
+  const [error, setError] = useState<string | null>(null);
+
+  const inputClass = 'bg-gray-800 rounded-md !px-2 !py-1 text-xs text-white border border-gray-700 focus:border-blue-500 outline-none';
+  const buttonClass = 'flex items-center gap-1.5 !px-3 !py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-white text-xs transition-colors disabled:opacity-40';
+
+  const handlePlan = () => {
+    if (route === 'custom') {
+      setError(null);
+      startDrawing();
+      return;
+    }
+
+    const start = currentStation ? getStationCoordinates(currentStation) : null;
+    const stops = planTour(stations, {
+      route,
+      continent: route === 'continent' ? continent : null,
+      stopCount,
+      startLng: start?.lng,
+    });
+    if (stops.length < MIN_TOUR_STOPS) {
+      setError('Not enough stations along this route. Try another route or loosen the station filters.');
+      return;
+    }
+    setError(null);
+    startTour(route, stops, route === 'continent' ? continent : null);
+  };
+
+  if (draft) {
+    return (
+      <div className="!space-y-3">
+        <div className="text-xs text-gray-400">
+          Click stations on the globe or in the station list to add them as stops, in the order you want to visit them.
+        </div>
+        {draft.length > 0 && (
+          <ol className="!space-y-1">
+            {draft.map((stop, index) => (
+              <li key={`${stop.station.stationuuid}-${index}`} className="flex items-center gap-2 text-xs text-gray-300">
+                <span className="w-4 text-right text-gray-500">{index + 1}</span>
+                <span>{getCountryFlag(stop.station.countrycode)}</span>
+                <span className="flex-1 truncate">{stop.station.name}</span>
+                <button
+                  onClick={() => removeDraftStop(index)}
+                  className="p-0.5 rounded text-gray-400 hover:text-red-400 transition-colors"
+                  title="Remove stop"
+                >
+                  <X size={12} />
+                </button>
+              </li>
+            ))}
+          </ol>
+        )}
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => startTour('custom', draft)}
+            disabled={draft.length < MIN_TOUR_STOPS}
+            className={buttonClass}
+          >
+            <MapPin size={12} />
+            Start tour
+          </button>
+          <button onClick={cancelDrawing} className={buttonClass}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (tour) {
+    const next = getNextTourStop(tour);
+    const visited = tour.stops.filter(stop => stop.status !== 'pending').length;
+    return (
+      <div className="!space-y-3">
+        <div className="text-xs text-gray-400">
+          {isTourFinished(tour)
+            ? 'Tour complete!'
+            : `${TOUR_ROUTE_LABELS[tour.route]}${tour.continent ? ` · ${CONTINENT_LABELS[tour.continent]}` : ''} · the next break is stop ${visited + 1} of ${tour.stops.length}`}
+        </div>
+        <ol className="!space-y-1 overflow-y-auto" style={{ maxHeight: 'min(30vh, 14rem)' }}>
+          {tour.stops.map((stop, index) => (
+            <li
+              key={`${stop.station.stationuuid}-${index}`}
+              className={`flex items-center gap-2 text-xs ${stop === next ? 'text-white' : 'text-gray-400'}`}
+            >
+              {stop.status === 'played' && <Check size={12} className="text-green-400 flex-shrink-0" />}
+              {stop.status === 'skipped' && <SkipForward size={12} className="text-yellow-400 flex-shrink-0" />}
+              {stop.status === 'pending' && <Circle size={12} className={`flex-shrink-0 ${stop === next ? 'text-blue-400' : 'text-gray-600'}`} />}
+              <span>{getCountryFlag(stop.station.countrycode)}</span>
+              <span className={`flex-1 truncate ${stop.status === 'skipped' ? 'line-through' : ''}`}>{stop.station.name}</span>
+            </li>
+          ))}
+        </ol>
+        <button onClick={endTour} className={buttonClass}>
+          {next ? 'End tour' : 'Plan another tour'}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="!space-y-3">
+      <div className="text-xs text-gray-400">
+        Travel the world one break at a time. Each break plays the next stop on the route.
+      </div>
+      <select
+        value={route}
+        onChange={(e) => setRoute(e.target.value as TourRoute)}
+        className={`w-full ${inputClass}`}
+      >
+        {ROUTES.map(option => (
+          <option key={option} value={option}>{TOUR_ROUTE_LABELS[option]}</option>
+        ))}
+      </select>
+      {route === 'continent' && (
+        <select
+          value={continent}
+          onChange={(e) => setContinent(e.target.value as Continent)}
+          className={`w-full ${inputClass}`}
+        >
+          {CONTINENTS.map(option => (
+            <option key={option} value={option}>{CONTINENT_LABELS[option]}</option>
+          ))}
+        </select>
+      )}
+      {route !== 'custom' && (
+        <label className="flex items-center justify-between gap-3 text-xs text-gray-300">
+          <span>Stops</span>
+          <input
+            type="number"
+            min={MIN_TOUR_STOPS}
+            max={MAX_TOUR_STOPS}
+            value={stopCount}
+            onChange={(e) => setStopCount(Math.max(MIN_TOUR_STOPS, Math.min(MAX_TOUR_STOPS, Number(e.target.value) || DEFAULT_TOUR_STOPS)))}
+            className={`w-16 text-right ${inputClass}`}
+          />
+        </label>
+      )}
+      {error && <div className="text-xs text-red-400">{error}</div>}
+      <button onClick={handlePlan} disabled={stations.length === 0} className={buttonClass}>
+        <MapPin size={12} />
+        {route === 'custom' ? 'Start drawing' : 'Plan tour'}
+      </button>
+    </div>
+  );
+}
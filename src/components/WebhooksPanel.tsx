@@ -0,0 +1,184 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, Trash2, Send, ChevronDown, ChevronRight } from 'lucide-react';
+import type { Webhook, WebhookDeliveryStatus } from '@/types/webhooks';
+import { useWebhooks } from '@/hooks/useWebhooks';
+import {
+  WEBHOOK_EVENTS,
+  WEBHOOK_EVENT_LABELS,
+  getTemplateVariables,
+  renderPayload,
+  createSampleActivity,
+} from '@/lib/webhooks';
+
+interface WebhooksPanelProps {
+  webhooks: ReturnType<typeof useWebhooks>;
+}
+
+// Deliveries shown in the log
+const LOG_PREVIEW_COUNT = 8;
+
+const STATUS_COLORS: Record<WebhookDeliveryStatus, string> = {
+  pending: 'text-yellow-400',
+  delivered: 'text-green-400',
+  failed: 'text-red-400',
+};
+
+// Error from rendering the template with sample values, if any
+function getTemplateError(template: string): string | null {
+  try {
+    renderPayload(template, getTemplateVariables(createSampleActivity()));
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid template';
+  }
+}
+
+function WebhookEditor({ webhook, onUpdate, onDelete, onTest }: {
+  webhook: Webhook;
+  onUpdate: (changes: Partial<Omit<Webhook, 'id'>>) => void;
+  onDelete: () => void;
+  onTest: () => void;
+}) {
+  const [showTemplate, setShowTemplate] = useState(false);
+  const templateError = getTemplateError(webhook.payloadTemplate);
+  const inputClass = 'w-full bg-gray-800 rounded-md !px-2 !py-1 text-xs text-white border border-gray-700 focus:border-blue-500 outline-none';
+
+  return (
+    <div className="bg-gray-800/50 rounded-lg !p-3 !space-y-2">
+      <div className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={webhook.enabled}
+          onChange={(e) => onUpdate({ enabled: e.target.checked })}
+          title="Enabled"
+        />
+        <input
+          value={webhook.name}
+          onChange={(e) => onUpdate({ name: e.target.value })}
+          className={inputClass}
+        />
+        <button
+          onClick={onTest}
+          disabled={!webhook.url || templateError !== null}
+          className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700/50 transition-colors disabled:opacity-40"
+          title="Send a test event"
+        >
+          <Send size={14} />
+        </button>
+        <button
+          onClick={onDelete}
+          className="p-1 rounded text-gray-400 hover:text-red-400 hover:bg-gray-700/50 transition-colors"
+          title="Delete webhook"
+        >
+          <Trash2 size={14} />
+        </button>
+      </div>
+
+      <input
+        type="url"
+        value={webhook.url}
+        onChange={(e) => onUpdate({ url: e.target.value })}
+        placeholder="https://example.com/hook"
+        className={inputClass}
+      />
+
+      <div className="flex flex-wrap gap-x-3 gap-y-1">
+        {WEBHOOK_EVENTS.map(event => (
+          <label key={event} className="flex items-center gap-1 text-xs text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={webhook.events.includes(event)}
+              onChange={(e) => onUpdate({
+                events: e.target.checked
+                  ? [...webhook.events, event]
+                  : webhook.events.filter(existing => existing !== event),
+              })}
+            />
+            {WEBHOOK_EVENT_LABELS[event]}
+          </label>
+        ))}
+      </div>
+
+      <button
+        onClick={() => setShowTemplate(prev => !prev)}
+        className="flex items-center gap-1 text-xs text-gray-400 hover:text-white transition-colors"
+      >
+        {showTemplate ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+        Payload template
+      </button>
+      {showTemplate && (
+        <div className="!space-y-1">
+          <textarea
+            value={webhook.payloadTemplate}
+            onChange={(e) => onUpdate({ payloadTemplate: e.target.value })}
+            rows={8}
+            spellCheck={false}
+            className={`${inputClass} font-mono resize-y`}
+          />
+          <div className="text-[10px] text-gray-500">
+            Placeholders: {Object.keys(getTemplateVariables(createSampleActivity())).map(name => `{{${name}}}`).join(' ')}
+          </div>
+        </div>
+      )}
+      {templateError && <div className="text-xs text-red-400">Template is not valid JSON: {templateError}</div>}
+    </div>
+  );
+}
+
+export function WebhooksPanel({ webhooks }: WebhooksPanelProps) {
+  const { webhooks: configured, deliveries, addWebhook, updateWebhook, deleteWebhook, clearDeliveries, sendTest } = webhooks;
+
+  return (
+    <div className="!space-y-3">
+      <div className="text-xs text-gray-400">
+        POST a JSON payload to your own URLs when phases and stations change, e.g. to update a chat status or dim the lights.
+      </div>
+
+      {configured.map(webhook => (
+        <WebhookEditor
+          key={webhook.id}
+          webhook={webhook}
+          onUpdate={(changes) => updateWebhook(webhook.id, changes)}
+          onDelete={() => deleteWebhook(webhook.id)}
+          onTest={() => sendTest(webhook, createSampleActivity(webhook.events[0]))}
+        />
+      ))}
+
+      <button
+        onClick={addWebhook}
+        className="flex items-center gap-1.5 !px-3 !py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-white text-xs transition-colors"
+      >
+        <Plus size={12} />
+        Add webhook
+      </button>
+
+      {deliveries.length > 0 && (
+        <div className="!space-y-1">
+          <div className="flex items-center justify-between">
+            <div className="text-xs text-gray-400">Deliveries</div>
+            <button onClick={clearDeliveries} className="text-xs text-gray-500 hover:text-white transition-colors">
+              Clear
+            </button>
+          </div>
+          {deliveries.slice(0, LOG_PREVIEW_COUNT).map(delivery => (
+            <div
+              key={delivery.id}
+              className="flex items-center justify-between gap-2 text-xs"
+              title={delivery.error ?? undefined}
+            >
+              <span className="text-gray-300 truncate">
+                {new Date(delivery.createdAt).toLocaleTimeString()} • {delivery.webhookName} • {WEBHOOK_EVENT_LABELS[delivery.event]}
+              </span>
+              <span className={`flex-shrink-0 ${STATUS_COLORS[delivery.status]}`}>
+                {delivery.status === 'pending' ? 'sending' : delivery.statusCode ?? delivery.status}
+                {delivery.attempts > 1 && ` (${delivery.attempts} tries)`}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
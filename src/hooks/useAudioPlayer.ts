@@ -3,6 +3,8 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
 import type { RadioStation } from '@/types/radio';
 import { radioAPI } from '@/lib/radioApi';
+import { isStreamStation } from '@/lib/radioProfiles';
+import { createSoundscape, isSoundscapeStation, type Soundscape } from '@/lib/soundscape';
 
 interface AudioPlayerState {
   isPlaying: boolean;
@@ -13,11 +15,93 @@ interface AudioPlayerState {
   isCrossfading: boolean;
 }
 
-export function useAudioPlayer() {
+interface AudioPlayerOptions {
+  fadeInDuration?: number; // default fade-in, in seconds
+  fadeOutDuration?: number; // default fade-out, in seconds
+  onStationStarted?: (station: RadioStation) => void; // a station became audible
+  onStationStopped?: (station: RadioStation) => void; // the station was stopped, not just paused
+  onStationStalled?: (station: RadioStation) => void; // an audible station stopped to wait for data
+}
+
+// Stalls closer together than this count once
+const STALL_DEBOUNCE_MS = 30000;
+
+// Resolve once the given epoch time has passed
+function waitUntil(time: number): Promise<void> {
+  const delay = time - Date.now();
+  return delay > 0 ? new Promise(resolve => setTimeout(resolve, delay)) : Promise.resolve();
+}
+
+/**
+ * Whether playStation gave up because the player was stopped or moved on to another
+ * station before it started, rather than because the station failed
+ */
+export function isPlaybackCancelled(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+// Load an element's source, resolving once it can play
+function loadUntilPlayable(audio: HTMLAudioElement, errorMessage: string): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const handleCanPlay = () => {
+      audio.removeEventListener('canplay', handleCanPlay);
+      audio.removeEventListener('error', handleError);
+      resolve();
+    };
+    
+    const handleError = () => {
+      audio.removeEventListener('canplay', handleCanPlay);
+      audio.removeEventListener('error', handleError);
+      reject(new Error(errorMessage));
+    };
+    
+    audio.addEventListener('canplay', handleCanPlay);
+    audio.addEventListener('error', handleError);
+    
+    audio.load();
+  });
+}
+
+// Detach an element from its stream or soundscape
+function clearSource(audio: HTMLAudioElement) {
+  audio.srcObject = null;
+  audio.removeAttribute('src');
+  audio.load();
+}
+
+// Listeners for the main element, by event. They move along when the elements swap.
+type AudioHandlers = Record<string, (event: Event) => void>;
+
+function attachHandlers(audio: HTMLAudioElement, handlers: AudioHandlers) {
+  Object.entries(handlers).forEach(([event, handler]) => audio.addEventListener(event, handler));
+}
+
+function detachHandlers(audio: HTMLAudioElement, handlers: AudioHandlers) {
+  Object.entries(handlers).forEach(([event, handler]) => audio.removeEventListener(event, handler));
+}
+
+export function useAudioPlayer(options: AudioPlayerOptions = {}) {
+  const { fadeInDuration = 3, fadeOutDuration = 3 } = options;
+  // Read the listeners through a ref so changing them doesn't rebuild the controls
+  const listenersRef = useRef(options);
+  listenersRef.current = options;
+  // The element playing now, and a spare the next station loads on. They trade places
+  // when one station crossfades into the next.
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const crossfadeAudioRef = useRef<HTMLAudioElement | null>(null);
+  const handlersRef = useRef<AudioHandlers | null>(null);
+  // A station already loaded on an element of its own, see prebuffer
+  const prebufferedRef = useRef<{ station: RadioStation; audio: HTMLAudioElement } | null>(null);
   const fadeIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const crossfadeIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const duckTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // The station the main element is playing, which lags behind currentStation while the next one loads
+  const audibleStationRef = useRef<RadioStation | null>(null);
+  const lastStallAtRef = useRef(0);
+  // Bumped by every play and stop. A play that finds it changed has been called off.
+  const playGenerationRef = useRef(0);
+  // The generated fallback soundscape, running while it's loaded or playing
+  const soundscapeRef = useRef<Soundscape | null>(null);
   const [state, setState] = useState<AudioPlayerState>({
     isPlaying: false,
     isLoading: false,
@@ -26,9 +110,14 @@ export function useAudioPlayer() {
     error: null,
     isCrossfading: false,
   });
+  // Fades read the volume through a ref, so a volume set right before playing a station
+  // applies to that station
+  const volumeRef = useRef(state.volume);
+  // Volume the next station fades in at, see setNextVolume
+  const nextVolumeRef = useRef<number | null>(null);
 
   // Create audio event handlers
-  const createAudioHandlers = useCallback(() => {
+  const createAudioHandlers = useCallback((): AudioHandlers => {
     const handleLoadStart = () => {
       setState(prev => ({ ...prev, isLoading: true, error: null }));
     };
@@ -55,7 +144,26 @@ export function useAudioPlayer() {
       setState(prev => ({ ...prev, isPlaying: false }));
     };
 
-    return { handleLoadStart, handleCanPlayThrough, handleError, handlePlay, handlePause };
+    // Buffering mid-stream, rather than while a station loads silently
+    const handleWaiting = () => {
+      const audio = audioRef.current;
+      const station = audibleStationRef.current;
+      if (!audio || !station || audio.volume === 0) return;
+
+      const now = Date.now();
+      if (now - lastStallAtRef.current < STALL_DEBOUNCE_MS) return;
+      lastStallAtRef.current = now;
+      listenersRef.current.onStationStalled?.(station);
+    };
+
+    return {
+      loadstart: handleLoadStart,
+      canplaythrough: handleCanPlayThrough,
+      error: handleError,
+      play: handlePlay,
+      pause: handlePause,
+      waiting: handleWaiting,
+    };
   }, []);
 
   // Initialize audio elements
@@ -72,20 +180,15 @@ export function useAudioPlayer() {
       crossfadeAudioRef.current.preload = 'none';
 
       const handlers = createAudioHandlers();
-      const audio = audioRef.current;
-
-      audio.addEventListener('loadstart', handlers.handleLoadStart);
-      audio.addEventListener('canplaythrough', handlers.handleCanPlayThrough);
-      audio.addEventListener('error', handlers.handleError);
-      audio.addEventListener('play', handlers.handlePlay);
-      audio.addEventListener('pause', handlers.handlePause);
+      handlersRef.current = handlers;
+      attachHandlers(audioRef.current, handlers);
 
       return () => {
-        audio.removeEventListener('loadstart', handlers.handleLoadStart);
-        audio.removeEventListener('canplaythrough', handlers.handleCanPlayThrough);
-        audio.removeEventListener('error', handlers.handleError);
-        audio.removeEventListener('play', handlers.handlePlay);
-        audio.removeEventListener('pause', handlers.handlePause);
+        // By now the elements may have swapped
+        if (audioRef.current) {
+          detachHandlers(audioRef.current, handlers);
+        }
+        handlersRef.current = null;
       };
     }
   }, [createAudioHandlers]);
@@ -99,9 +202,41 @@ export function useAudioPlayer() {
       if (crossfadeIntervalRef.current) {
         clearInterval(crossfadeIntervalRef.current);
       }
+      if (duckTimeoutRef.current) {
+        clearTimeout(duckTimeoutRef.current);
+      }
+      soundscapeRef.current?.stop();
+      if (prebufferedRef.current) {
+        clearSource(prebufferedRef.current.audio);
+      }
     };
   }, []);
 
+  // Point an element at a station: its stream URL, or the soundscape made on this device
+  const setSource = (audio: HTMLAudioElement, station: RadioStation) => {
+    if (isSoundscapeStation(station)) {
+      soundscapeRef.current ??= createSoundscape();
+      audio.srcObject = soundscapeRef.current.stream;
+    } else {
+      audio.srcObject = null;
+      audio.src = station.url_resolved || station.url;
+    }
+  };
+
+  // The station about to fade in takes the volume set for it
+  const applyNextVolume = () => {
+    if (nextVolumeRef.current === null) return;
+    const volume = nextVolumeRef.current;
+    nextVolumeRef.current = null;
+    volumeRef.current = volume;
+    setState(prev => ({ ...prev, volume }));
+  };
+
+  const stopSoundscape = () => {
+    soundscapeRef.current?.stop();
+    soundscapeRef.current = null;
+  };
+
   const clearFadeInterval = () => {
     if (fadeIntervalRef.current) {
       clearInterval(fadeIntervalRef.current);
@@ -109,13 +244,61 @@ export function useAudioPlayer() {
     }
   };
 
-  const fadeIn = useCallback((duration: number = 3) => {
+  // Make an element the main one, moving the listeners over to it. Returns the element it replaces.
+  const makeMain = (audio: HTMLAudioElement): HTMLAudioElement | null => {
+    const previous = audioRef.current;
+    if (handlersRef.current) {
+      if (previous) {
+        detachHandlers(previous, handlersRef.current);
+      }
+      attachHandlers(audio, handlersRef.current);
+    }
+    audioRef.current = audio;
+    return previous;
+  };
+
+  // The element pre-buffering `station`, unless it has failed since. Anything else
+  // pre-buffered is let go, as it's not what plays next after all.
+  const takePrebuffered = (station: RadioStation): HTMLAudioElement | null => {
+    const prebuffered = prebufferedRef.current;
+    prebufferedRef.current = null;
+    if (!prebuffered) return null;
+
+    if (prebuffered.station.stationuuid !== station.stationuuid || prebuffered.audio.error) {
+      clearSource(prebuffered.audio);
+      return null;
+    }
+    prebuffered.audio.volume = 0;
+    prebuffered.audio.muted = false;
+    return prebuffered.audio;
+  };
+
+  // Cut a crossfade short, silencing the station that was fading out on the spare element
+  const cancelCrossfade = () => {
+    if (crossfadeIntervalRef.current) {
+      clearInterval(crossfadeIntervalRef.current);
+      crossfadeIntervalRef.current = null;
+      setState(prev => ({ ...prev, isCrossfading: false }));
+    }
+    const spare = crossfadeAudioRef.current;
+    if (spare && !spare.paused) {
+      spare.pause();
+      spare.volume = 0;
+    }
+  };
+
+  const fadeIn = useCallback((duration: number = fadeInDuration) => {
     if (!audioRef.current) return;
 
     clearFadeInterval();
     
     const audio = audioRef.current;
-    const targetVolume = state.volume;
+    const targetVolume = volumeRef.current;
+    if (duration <= 0) {
+      audio.volume = targetVolume;
+      return;
+    }
+
     const steps = 50;
     const stepTime = (duration * 1000) / steps;
     const volumeStep = targetVolume / steps;
@@ -133,9 +316,9 @@ export function useAudioPlayer() {
       audio.volume = Math.min(volumeStep * currentStep, targetVolume);
       currentStep++;
     }, stepTime);
-  }, [state.volume]);
+  }, [fadeInDuration]);
 
-  const fadeOut = useCallback((duration: number = 3): Promise<void> => {
+  const fadeOut = useCallback((duration: number = fadeOutDuration): Promise<void> => {
     return new Promise((resolve) => {
       if (!audioRef.current) {
         resolve();
@@ -145,6 +328,13 @@ export function useAudioPlayer() {
       clearFadeInterval();
       
       const audio = audioRef.current;
+      if (duration <= 0) {
+        audio.volume = 0;
+        audio.pause();
+        resolve();
+        return;
+      }
+
       const startVolume = audio.volume;
       const steps = 50;
       const stepTime = (duration * 1000) / steps;
@@ -165,10 +355,10 @@ export function useAudioPlayer() {
         currentStep++;
       }, stepTime);
     });
-  }, []);
+  }, [fadeOutDuration]);
 
   // Crossfade between two audio elements
-  const crossfade = useCallback((fromAudio: HTMLAudioElement, toAudio: HTMLAudioElement, duration: number = 4): Promise<void> => {
+  const crossfade = useCallback((fromAudio: HTMLAudioElement, toAudio: HTMLAudioElement, duration: number = fadeInDuration): Promise<void> => {
     return new Promise((resolve) => {
       if (crossfadeIntervalRef.current) {
         clearInterval(crossfadeIntervalRef.current);
@@ -178,7 +368,7 @@ export function useAudioPlayer() {
       
       const steps = 50;
       const stepTime = (duration * 1000) / steps;
-      const targetVolume = state.volume;
+      const targetVolume = volumeRef.current;
       
       const fromStartVolume = fromAudio.volume;
       const fromVolumeStep = fromStartVolume / steps;
@@ -192,6 +382,7 @@ export function useAudioPlayer() {
         if (currentStep >= steps) {
           // Crossfade complete
           clearInterval(crossfadeIntervalRef.current!);
+          crossfadeIntervalRef.current = null;
           fromAudio.volume = 0;
           fromAudio.pause();
           toAudio.volume = targetVolume;
@@ -210,107 +401,144 @@ export function useAudioPlayer() {
         currentStep++;
       }, stepTime);
     });
-  }, [state.volume]);
-
-  const playStation = useCallback(async (station: RadioStation) => {
-    if (!audioRef.current || !crossfadeAudioRef.current) return;
+  }, [fadeInDuration]);
+
+  // Load a station and fade it in. With `startAt` (epoch ms) the stream is loaded and
+  // buffered right away, but only becomes audible once that time has passed.
+  // Resolves to how long the stream took to load, in ms.
+  const playStation = useCallback(async (station: RadioStation, startAt?: number): Promise<number | null> => {
+    if (!audioRef.current || !crossfadeAudioRef.current) return null;
+
+    // Give up once stopped or overtaken by another station, e.g. a break start called off
+    // while it waits, silencing the element it may have started already
+    const generation = ++playGenerationRef.current;
+    const ensureCurrent = (started?: HTMLAudioElement) => {
+      if (playGenerationRef.current === generation) return;
+      started?.pause();
+      throw new DOMException('Playback was cancelled', 'AbortError');
+    };
 
     try {
       const isCurrentlyPlaying = state.isPlaying && audioRef.current.volume > 0 && !audioRef.current.paused;
       
       if (isCurrentlyPlaying) {
-        // Sequential transition: fade out current → fade in new
-        
+        // Crossfade: load the new station on the spare element while the current one
+        // plays on, then fade one into the other and swap the elements
+        const current = audioRef.current;
+        const prebuffered = takePrebuffered(station);
+        const spare = prebuffered ?? crossfadeAudioRef.current;
+
         // Register click with radio-browser API
-        await radioAPI.registerClick(station.stationuuid);
+        if (!isStreamStation(station) && !isSoundscapeStation(station)) {
+          await radioAPI.registerClick(station.stationuuid);
+          ensureCurrent();
+        }
 
-        // Load new station in crossfade audio element while current continues
-        crossfadeAudioRef.current.src = station.url_resolved || station.url;
-        crossfadeAudioRef.current.volume = 0;
+        // A crossfade still going loses the station it was fading out
+        cancelCrossfade();
+        if (prebuffered) {
+          // The pre-buffered element stands in for the spare one
+          clearSource(crossfadeAudioRef.current);
+          crossfadeAudioRef.current = prebuffered;
+        } else {
+          setSource(spare, station);
+        }
+        spare.volume = 0;
         
-        setState(prev => ({ ...prev, currentStation: station, error: null, isLoading: true, isCrossfading: true }));
+        setState(prev => ({ ...prev, currentStation: station, error: null, isLoading: true }));
 
         // Load new station in background
-        await new Promise<void>((resolve, reject) => {
-          const handleCanPlay = () => {
-            crossfadeAudioRef.current!.removeEventListener('canplay', handleCanPlay);
-            crossfadeAudioRef.current!.removeEventListener('error', handleError);
-            resolve();
-          };
-          
-          const handleError = () => {
-            crossfadeAudioRef.current!.removeEventListener('canplay', handleCanPlay);
-            crossfadeAudioRef.current!.removeEventListener('error', handleError);
-            reject(new Error('Failed to load new station'));
-          };
-          
-          crossfadeAudioRef.current!.addEventListener('canplay', handleCanPlay);
-          crossfadeAudioRef.current!.addEventListener('error', handleError);
-          
-          crossfadeAudioRef.current!.load();
-        });
+        const loadStartedAt = Date.now();
+        // The soundscape is generated on the spot, and a pre-buffered station has loaded already
+        if (!isSoundscapeStation(station) && !prebuffered) {
+          await loadUntilPlayable(spare, 'Failed to load new station');
+          ensureCurrent();
+        }
+        const loadMs = Date.now() - loadStartedAt;
 
         setState(prev => ({ ...prev, isLoading: false }));
-        
-        // Step 1: Fade out current station completely
-        await fadeOut(2); // 2 second fade out
-        
-        // Step 2: Switch to new station and fade in
-        audioRef.current.src = crossfadeAudioRef.current.src;
-        audioRef.current.volume = 0;
-        
-        await audioRef.current.play();
-        fadeIn(2); // 2 second fade in
-        
-        // Clean up the crossfade element
-        crossfadeAudioRef.current.pause();
-        crossfadeAudioRef.current.volume = 0;
-        crossfadeAudioRef.current.removeAttribute('src');
-        crossfadeAudioRef.current.load();
-        
-        setState(prev => ({ ...prev, isCrossfading: false }));
+        if (startAt !== undefined) {
+          await waitUntil(startAt);
+          ensureCurrent();
+        }
+
+        await spare.play();
+        ensureCurrent(spare);
+
+        // The new station's element becomes the main one, taking the listeners along
+        clearFadeInterval();
+        makeMain(spare);
+        crossfadeAudioRef.current = current;
+        audibleStationRef.current = station;
+        applyNextVolume();
+        listenersRef.current.onStationStarted?.(station);
+
+        // Fade across over the fade-out time, which the engine leaves before a phase ends
+        crossfade(current, spare, fadeOutDuration).then(() => {
+          clearSource(current);
+          if (!isSoundscapeStation(audibleStationRef.current)) {
+            stopSoundscape();
+          }
+        });
+        return loadMs;
         
       } else {
         // No current station playing, just start the new one normally
         
         // Stop any existing playback
         clearFadeInterval();
+        cancelCrossfade();
         audioRef.current.pause();
         audioRef.current.volume = 0;
+        if (!isSoundscapeStation(station)) {
+          stopSoundscape();
+        }
 
         // Register click with radio-browser API
-        await radioAPI.registerClick(station.stationuuid);
+        if (!isStreamStation(station) && !isSoundscapeStation(station)) {
+          await radioAPI.registerClick(station.stationuuid);
+          ensureCurrent();
+        }
 
-        // Load new station with proper error handling
-        audioRef.current.src = station.url_resolved || station.url;
+        // Load new station with proper error handling, unless it's been pre-buffered
+        const prebuffered = takePrebuffered(station);
+        if (prebuffered) {
+          const previous = makeMain(prebuffered);
+          if (previous) {
+            clearSource(previous);
+          }
+        } else {
+          setSource(audioRef.current, station);
+        }
         audioRef.current.volume = 0;
         setState(prev => ({ ...prev, currentStation: station, error: null }));
 
         // Wait for station to load successfully before proceeding
-        await new Promise<void>((resolve, reject) => {
-          const handleCanPlay = () => {
-            audioRef.current!.removeEventListener('canplay', handleCanPlay);
-            audioRef.current!.removeEventListener('error', handleError);
-            resolve();
-          };
-          
-          const handleError = () => {
-            audioRef.current!.removeEventListener('canplay', handleCanPlay);
-            audioRef.current!.removeEventListener('error', handleError);
-            reject(new Error('Failed to load station'));
-          };
-          
-          audioRef.current!.addEventListener('canplay', handleCanPlay);
-          audioRef.current!.addEventListener('error', handleError);
-          
-          audioRef.current!.load();
-        });
+        const loadStartedAt = Date.now();
+        if (!isSoundscapeStation(station) && !prebuffered) {
+          await loadUntilPlayable(audioRef.current, 'Failed to load station');
+          ensureCurrent();
+        }
+        const loadMs = Date.now() - loadStartedAt;
+
+        if (startAt !== undefined) {
+          await waitUntil(startAt);
+          ensureCurrent();
+        }
 
         // Play and fade in
-        await audioRef.current.play();
+        applyNextVolume();
+        const audio = audioRef.current;
+        await audio.play();
+        ensureCurrent(audio);
+        audibleStationRef.current = station;
         fadeIn();
+        listenersRef.current.onStationStarted?.(station);
+        return loadMs;
       }
     } catch (error) {
+      // Whatever called it off has set the state already
+      if (isPlaybackCancelled(error)) throw error;
       console.error('Failed to play station:', error);
       setState(prev => ({ 
         ...prev, 
@@ -321,15 +549,35 @@ export function useAudioPlayer() {
       }));
       throw error; // Re-throw to allow retry logic in usePomodoro
     }
-  }, [fadeIn, crossfade, state.isPlaying, state.currentStation]);
+  }, [fadeIn, crossfade, fadeOutDuration, state.isPlaying]);
+
+  // Let go of the pre-buffered station, closing its connection
+  const releasePrebuffer = useCallback(() => {
+    if (!prebufferedRef.current) return;
+    clearSource(prebufferedRef.current.audio);
+    prebufferedRef.current = null;
+  }, []);
 
-  const stopWithFade = useCallback(async (fadeDuration: number = 3) => {
+  // Hold on to an element that has loaded a station likely to play next, e.g. the break
+  // station probed ahead of a break. Playing that station then starts from the buffered
+  // stream rather than connecting again. One station is kept at a time.
+  const prebuffer = useCallback((station: RadioStation, audio: HTMLAudioElement) => {
+    releasePrebuffer();
+    prebufferedRef.current = { station, audio };
+  }, [releasePrebuffer]);
+
+  const stopWithFade = useCallback(async (fadeDuration: number = fadeOutDuration) => {
+    const stoppedStation = state.currentStation;
+    // Call off any station still loading or waiting to start
+    playGenerationRef.current++;
     if (!audioRef.current) {
       setState(prev => ({ ...prev, currentStation: null, isPlaying: false }));
       return;
     }
 
     try {
+      cancelCrossfade();
+      releasePrebuffer();
       await fadeOut(fadeDuration);
       
       // Ensure the audio is completely stopped and state is cleared
@@ -338,13 +586,19 @@ export function useAudioPlayer() {
         audioRef.current.pause();
         audioRef.current.volume = 0;
       }
+      audibleStationRef.current = null;
+      stopSoundscape();
       
       setState(prev => ({ 
         ...prev, 
         currentStation: null, 
         isPlaying: false,
+        isLoading: false,
         error: null 
       }));
+      if (stoppedStation) {
+        listenersRef.current.onStationStopped?.(stoppedStation);
+      }
     } catch (error) {
       console.error('Error stopping audio:', error);
       setState(prev => ({ 
@@ -354,12 +608,13 @@ export function useAudioPlayer() {
         error: 'Failed to stop audio'
       }));
     }
-  }, [fadeOut, state.currentStation, state.isPlaying]);
+  }, [fadeOut, fadeOutDuration, releasePrebuffer, state.currentStation, state.isPlaying]);
 
   const pause = useCallback(() => {
     if (!audioRef.current) return;
     
     clearFadeInterval();
+    cancelCrossfade();
     audioRef.current.pause();
     setState(prev => ({ ...prev, isPlaying: false }));
   }, []);
@@ -375,16 +630,27 @@ export function useAudioPlayer() {
   }, [state.currentStation, state.volume]);
 
   const stop = useCallback(() => {
+    // Call off any station still loading or waiting to start
+    playGenerationRef.current++;
     if (!audioRef.current) return;
     
     clearFadeInterval();
+    cancelCrossfade();
+    releasePrebuffer();
     audioRef.current.pause();
     audioRef.current.volume = 0;
-    setState(prev => ({ ...prev, isPlaying: false, currentStation: null }));
-  }, []);
+    audibleStationRef.current = null;
+    stopSoundscape();
+    setState(prev => ({ ...prev, isPlaying: false, isLoading: false, currentStation: null }));
+    if (state.currentStation) {
+      listenersRef.current.onStationStopped?.(state.currentStation);
+    }
+  }, [releasePrebuffer, state.currentStation]);
 
   const setVolume = useCallback((volume: number) => {
     const clampedVolume = Math.max(0, Math.min(1, volume));
+    volumeRef.current = clampedVolume;
+    nextVolumeRef.current = null;
     setState(prev => ({ ...prev, volume: clampedVolume }));
     
     // Update volume for the currently active audio element
@@ -393,6 +659,31 @@ export function useAudioPlayer() {
     }
   }, [state.isPlaying, state.isCrossfading]);
 
+  // Set the volume for the next station to play, e.g. a phase's radio profile volume,
+  // leaving the one playing now as it is while it fades out
+  const setNextVolume = useCallback((volume: number) => {
+    nextVolumeRef.current = Math.max(0, Math.min(1, volume));
+  }, []);
+
+  // Briefly lower the playing station, e.g. so a chime can be heard over it.
+  // Fades and crossfades already control the volume, so a fading station is left alone.
+  const duck = useCallback((seconds: number, level: number = 0.2) => {
+    const audio = audioRef.current;
+    if (!audio || audio.paused || fadeIntervalRef.current || crossfadeIntervalRef.current) return;
+
+    if (duckTimeoutRef.current) {
+      clearTimeout(duckTimeoutRef.current);
+    }
+    audio.volume = volumeRef.current * level;
+
+    duckTimeoutRef.current = setTimeout(() => {
+      duckTimeoutRef.current = null;
+      if (!audio.paused && !fadeIntervalRef.current) {
+        audio.volume = volumeRef.current;
+      }
+    }, seconds * 1000);
+  }, []);
+
   return {
     ...state,
     playStation,
@@ -401,6 +692,10 @@ export function useAudioPlayer() {
     stop,
     stopWithFade,
     setVolume,
+    setNextVolume,
+    prebuffer,
+    releasePrebuffer,
+    duck,
     fadeIn,
     fadeOut,
     crossfade,
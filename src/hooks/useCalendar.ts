@@ -0,0 +1,109 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { ImportedCalendar, MeetingConflictMode } from '@/types/calendar';
+import { parseIcs, expandBusyBlocks } from '@/lib/icsCalendar';
+
+const CALENDAR_STORAGE_KEY = 'pomodoro-calendar';
+
+// Busy blocks are expanded for this window around now, and re-expanded as it moves on
+const LOOK_BEHIND_MS = 24 * 60 * 60 * 1000;
+const LOOK_AHEAD_MS = 7 * 24 * 60 * 60 * 1000;
+const REFRESH_INTERVAL_MS = 60 * 60 * 1000;
+
+interface StoredCalendar {
+  calendar: ImportedCalendar | null;
+  conflictMode: MeetingConflictMode;
+}
+
+export function useCalendar() {
+  const [stored, setStored] = useState<StoredCalendar>({ calendar: null, conflictMode: 'shorten' });
+  const storedRef = useRef(stored);
+  storedRef.current = stored;
+  const [windowStart, setWindowStart] = useState(() => Date.now());
+  // Why the calendar couldn't be saved, e.g. a file too big for localStorage
+  const [storageError, setStorageError] = useState<string | null>(null);
+
+  // Load the saved calendar from localStorage
+  useEffect(() => {
+    const saved = localStorage.getItem(CALENDAR_STORAGE_KEY);
+    if (saved) {
+      try {
+        setStored(prev => ({ ...prev, ...JSON.parse(saved) }));
+      } catch (error) {
+        console.error('Failed to load calendar:', error);
+      }
+    }
+  }, []);
+
+  // Apply changes, then save them. A calendar that can't be saved still applies until the
+  // page is reloaded.
+  const update = useCallback((changes: Partial<StoredCalendar>) => {
+    const next = { ...storedRef.current, ...changes };
+    storedRef.current = next;
+    setStored(next);
+
+    try {
+      localStorage.setItem(CALENDAR_STORAGE_KEY, JSON.stringify(next));
+      setStorageError(null);
+    } catch (error) {
+      console.error('Failed to save calendar:', error);
+      setStorageError(error instanceof DOMException && error.name === 'QuotaExceededError'
+        ? 'This calendar is too big to save in the browser. It applies until the page is reloaded.'
+        : 'The calendar could not be saved in the browser. It applies until the page is reloaded.');
+    }
+  }, []);
+
+  // Recurring events keep producing occurrences, so move the window along
+  useEffect(() => {
+    const timer = setInterval(() => setWindowStart(Date.now()), REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const events = useMemo(() => (stored.calendar ? parseIcs(stored.calendar.ics) : []), [stored.calendar]);
+
+  const busyBlocks = useMemo(
+    () => expandBusyBlocks(events, windowStart - LOOK_BEHIND_MS, windowStart + LOOK_AHEAD_MS),
+    [events, windowStart]
+  );
+
+  /**
+   * Replace the calendar with an iCalendar file's contents. Throws if the text isn't
+   * iCalendar; returns how many events it has.
+   */
+  const importCalendar = useCallback((ics: string, name: string): number => {
+    if (!/BEGIN:VCALENDAR/i.test(ics)) {
+      throw new Error('Not an iCalendar file');
+    }
+    const count = parseIcs(ics).length;
+    update({ calendar: { name, ics, importedAt: Date.now() } });
+    setWindowStart(Date.now());
+    return count;
+  }, [update]);
+
+  const clearCalendar = useCallback(() => {
+    update({ calendar: null });
+  }, [update]);
+
+  const setConflictMode = useCallback((conflictMode: MeetingConflictMode) => {
+    update({ conflictMode });
+  }, [update]);
+
+  // What the timer works around, or null without a calendar
+  const timerCalendar = useMemo(
+    () => (stored.calendar ? { busyBlocks, conflictMode: stored.conflictMode } : null),
+    [stored.calendar, stored.conflictMode, busyBlocks]
+  );
+
+  return {
+    calendar: stored.calendar,
+    eventCount: events.length,
+    conflictMode: stored.conflictMode,
+    storageError,
+    busyBlocks,
+    timerCalendar,
+    importCalendar,
+    clearCalendar,
+    setConflictMode,
+  };
+}
@@ -0,0 +1,49 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { RadioStation } from '@/types/radio';
+
+const FAVORITES_STORAGE_KEY = 'radio-favorites';
+
+export function useFavorites() {
+  const [favorites, setFavorites] = useState<Set<string>>(new Set());
+
+  // Load favorites from localStorage
+  useEffect(() => {
+    const savedFavorites = localStorage.getItem(FAVORITES_STORAGE_KEY);
+    if (savedFavorites) {
+      try {
+        const favoriteIds = JSON.parse(savedFavorites) as string[];
+        setFavorites(new Set(favoriteIds));
+      } catch (error) {
+        console.error('Failed to load favorites:', error);
+      }
+    }
+  }, []);
+
+  const isFavorite = useCallback((station: RadioStation) => {
+    return favorites.has(station.stationuuid);
+  }, [favorites]);
+
+  const toggleFavorite = useCallback((station: RadioStation) => {
+    setFavorites(prev => {
+      const newFavorites = new Set(prev);
+      if (newFavorites.has(station.stationuuid)) {
+        newFavorites.delete(station.stationuuid);
+      } else {
+        newFavorites.add(station.stationuuid);
+      }
+
+      // Save to localStorage
+      localStorage.setItem(FAVORITES_STORAGE_KEY, JSON.stringify(Array.from(newFavorites)));
+
+      return newFavorites;
+    });
+  }, []);
+
+  return {
+    favorites,
+    isFavorite,
+    toggleFavorite,
+  };
+}
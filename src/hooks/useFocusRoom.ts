@@ -0,0 +1,257 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { PomodoroSequence } from '@/types/pomodoro';
+import type {
+  RoomClientMessage,
+  RoomServerMessage,
+  RoomCommand,
+  RoomConnectionState,
+  RoomMember,
+  RoomMemberStatus,
+  RoomSnapshot,
+  SavedRoom,
+} from '@/types/rooms';
+import { ROOM_STORAGE_KEY, getRoomServerUrl, createRoomId, isValidRoomId, shiftStateClock } from '@/lib/rooms';
+
+// Reconnect after 1s, 2s, 4s... up to this long between attempts
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+interface FocusRoomOptions {
+  enabled?: boolean; // false in tabs that mirror another tab, which holds the connection
+}
+
+/**
+ * Membership of a shared focus room. Holds the connection to the room server, who's in
+ * the room, and the host's latest timer converted to this browser's clock. useRoomSync
+ * ties it to the timer.
+ */
+export function useFocusRoom({ enabled = true }: FocusRoomOptions = {}) {
+  const [room, setRoom] = useState<SavedRoom | null>(null);
+  const [connection, setConnection] = useState<RoomConnectionState>('disconnected');
+  // Handed out by the room server on joining
+  const [memberId, setMemberId] = useState<string | null>(null);
+  const [hostId, setHostId] = useState<string | null>(null);
+  const [members, setMembers] = useState<RoomMember[]>([]);
+  const [snapshot, setSnapshot] = useState<RoomSnapshot | null>(null);
+  // The host's sequence, kept separately so it only changes when its steps do
+  const [sequence, setSequence] = useState<PomodoroSequence | null>(null);
+  const [sharedStation, setSharedStationState] = useState(false);
+
+  const socketRef = useRef<WebSocket | null>(null);
+  // The id and token to rejoin as the same member after the connection drops
+  const credentialsRef = useRef<{ memberId: string; memberToken: string } | null>(null);
+  // Room server clock minus this browser's clock, in ms
+  const clockOffsetRef = useRef(0);
+  const nameRef = useRef(room?.name ?? '');
+  nameRef.current = room?.name ?? '';
+  const statusRef = useRef<RoomMemberStatus>('idle');
+  const commandHandlerRef = useRef<((command: RoomCommand, from: string) => void) | null>(null);
+
+  // Rejoin the last room, or join the one in a shared link
+  useEffect(() => {
+    try {
+      const saved = localStorage.getItem(ROOM_STORAGE_KEY);
+      const savedRoom = saved ? (JSON.parse(saved) as SavedRoom) : null;
+      const linkedRoomId = new URLSearchParams(window.location.search).get('room');
+
+      if (linkedRoomId && isValidRoomId(linkedRoomId)) {
+        const linked = { roomId: linkedRoomId.toLowerCase(), name: savedRoom?.name || 'Guest' };
+        setRoom(linked);
+        localStorage.setItem(ROOM_STORAGE_KEY, JSON.stringify(linked));
+        // Keep the link out of reloads and bookmarks once it has been used
+        const url = new URL(window.location.href);
+        url.searchParams.delete('room');
+        window.history.replaceState(null, '', url);
+      } else if (savedRoom?.roomId) {
+        setRoom(savedRoom);
+      }
+    } catch (error) {
+      console.error('Failed to load focus room:', error);
+    }
+  }, []);
+
+  const send = useCallback((message: RoomClientMessage) => {
+    const socket = socketRef.current;
+    if (socket?.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  }, []);
+
+  const receiveSnapshot = useCallback((next: RoomSnapshot | null) => {
+    if (!next) {
+      setSnapshot(null);
+      return;
+    }
+    setSnapshot({ ...next, state: shiftStateClock(next.state, -clockOffsetRef.current) });
+    setSequence(prev => (prev && JSON.stringify(prev) === JSON.stringify(next.sequence) ? prev : next.sequence));
+  }, []);
+
+  // Stay connected while in a room, reconnecting after drops
+  const roomId = room?.roomId ?? null;
+  useEffect(() => {
+    if (!enabled || !roomId || typeof WebSocket === 'undefined') return;
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let reconnectDelay = 1000;
+    let stopped = false;
+
+    const connect = () => {
+      setConnection('connecting');
+      const current = new WebSocket(getRoomServerUrl());
+      socket = current;
+      socketRef.current = current;
+      let joinSentAt = 0;
+
+      current.addEventListener('open', () => {
+        joinSentAt = Date.now();
+        current.send(JSON.stringify({ type: 'join', roomId, name: nameRef.current, ...credentialsRef.current } satisfies RoomClientMessage));
+      });
+
+      current.addEventListener('message', event => {
+        let message: RoomServerMessage;
+        try {
+          message = JSON.parse(event.data);
+        } catch {
+          return;
+        }
+
+        switch (message.type) {
+          case 'welcome':
+            // Assume the server answered halfway through the round trip
+            clockOffsetRef.current = message.serverTime - (joinSentAt + Date.now()) / 2;
+            reconnectDelay = 1000;
+            credentialsRef.current = { memberId: message.memberId, memberToken: message.memberToken };
+            setMemberId(message.memberId);
+            setConnection('connected');
+            setHostId(message.hostId);
+            setSharedStationState(message.sharedStation);
+            receiveSnapshot(message.snapshot);
+            send({ type: 'presence', name: nameRef.current, status: statusRef.current });
+            break;
+          case 'members':
+            setHostId(message.hostId);
+            setMembers(message.members);
+            break;
+          case 'snapshot':
+            receiveSnapshot(message.snapshot);
+            break;
+          case 'command':
+            commandHandlerRef.current?.(message.command, message.from);
+            break;
+          case 'settings':
+            setSharedStationState(message.sharedStation);
+            break;
+          case 'error':
+            console.error('Focus room error:', message.message);
+            break;
+        }
+      });
+
+      current.addEventListener('close', () => {
+        // Leaving the room already cleaned up
+        if (stopped) return;
+
+        socketRef.current = null;
+        setConnection('disconnected');
+        setHostId(null);
+        setMembers([]);
+        reconnectTimer = setTimeout(connect, reconnectDelay);
+        reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+      });
+    };
+
+    connect();
+    return () => {
+      stopped = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+      socketRef.current = null;
+      credentialsRef.current = null;
+      setMemberId(null);
+      setConnection('disconnected');
+      setHostId(null);
+      setMembers([]);
+      setSnapshot(null);
+      setSequence(null);
+      setSharedStationState(false);
+    };
+  }, [enabled, roomId, send, receiveSnapshot]);
+
+  const saveRoom = useCallback((next: SavedRoom | null) => {
+    setRoom(next);
+    if (next) {
+      localStorage.setItem(ROOM_STORAGE_KEY, JSON.stringify(next));
+    } else {
+      localStorage.removeItem(ROOM_STORAGE_KEY);
+    }
+  }, []);
+
+  const joinRoom = useCallback((id: string, name: string) => {
+    if (!isValidRoomId(id)) return;
+    saveRoom({ roomId: id.toLowerCase(), name: name.trim() || 'Guest' });
+  }, [saveRoom]);
+
+  // A new room has no members yet, so whoever creates it becomes its host
+  const createRoom = useCallback((name: string) => {
+    joinRoom(createRoomId(), name);
+  }, [joinRoom]);
+
+  const leaveRoom = useCallback(() => {
+    saveRoom(null);
+  }, [saveRoom]);
+
+  const rename = useCallback((name: string) => {
+    if (!room) return;
+    saveRoom({ ...room, name });
+    send({ type: 'presence', name: name.trim() || 'Guest', status: statusRef.current });
+  }, [room, saveRoom, send]);
+
+  const sendStatus = useCallback((status: RoomMemberStatus) => {
+    statusRef.current = status;
+    send({ type: 'presence', name: nameRef.current.trim() || 'Guest', status });
+  }, [send]);
+
+  // Publish the host's timer, given on this browser's clock
+  const sendSnapshot = useCallback((next: RoomSnapshot) => {
+    send({ type: 'snapshot', snapshot: { ...next, state: shiftStateClock(next.state, clockOffsetRef.current) } });
+  }, [send]);
+
+  const sendCommand = useCallback((command: RoomCommand) => {
+    send({ type: 'command', command });
+  }, [send]);
+
+  const setSharedStation = useCallback((shared: boolean) => {
+    send({ type: 'settings', sharedStation: shared });
+  }, [send]);
+
+  // Where the host carries out controls forwarded by members
+  const setCommandHandler = useCallback((handler: ((command: RoomCommand, from: string) => void) | null) => {
+    commandHandlerRef.current = handler;
+  }, []);
+
+  const isConnected = connection === 'connected' && hostId !== null;
+
+  return {
+    room,
+    connection,
+    memberId,
+    hostId,
+    members,
+    isHost: isConnected && hostId === memberId,
+    isMember: isConnected && hostId !== memberId, // following someone else's timer
+    snapshot,
+    sequence,
+    sharedStation,
+    createRoom,
+    joinRoom,
+    leaveRoom,
+    rename,
+    sendStatus,
+    sendSnapshot,
+    sendCommand,
+    setSharedStation,
+    setCommandHandler,
+  };
+}
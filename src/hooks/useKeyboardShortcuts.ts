@@ -0,0 +1,71 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { ShortcutAction, ShortcutBindings } from '@/types/shortcuts';
+import {
+  DEFAULT_SHORTCUTS,
+  SHORTCUT_ACTIONS,
+  eventToCombo,
+  isEditableTarget,
+  loadShortcuts,
+  saveShortcuts,
+} from '@/lib/shortcuts';
+
+export function useKeyboardShortcuts(handlers: Record<ShortcutAction, () => void>) {
+  const [bindings, setBindings] = useState<ShortcutBindings>(DEFAULT_SHORTCUTS);
+
+  // Read handlers through a ref so the listener doesn't need re-attaching every render
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  // Load saved bindings from localStorage
+  useEffect(() => {
+    setBindings(loadShortcuts());
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.repeat && !event.key.startsWith('Arrow')) return;
+
+      const combo = eventToCombo(event);
+      if (!combo) return;
+
+      const action = SHORTCUT_ACTIONS.find(a => bindings[a] === combo);
+      if (!action) return;
+
+      // While typing only the palette shortcut, which includes a modifier, still works
+      if (isEditableTarget(event.target) && action !== 'openPalette') return;
+
+      event.preventDefault();
+      handlersRef.current[action]();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [bindings]);
+
+  // Bind a combo to an action. An action already using the combo takes over the old one's
+  // combo, so no two actions ever share a key.
+  const updateBinding = useCallback((action: ShortcutAction, combo: string) => {
+    setBindings(prev => {
+      const next = { ...prev, [action]: combo };
+      const conflict = SHORTCUT_ACTIONS.find(a => a !== action && prev[a] === combo);
+      if (conflict) {
+        next[conflict] = prev[action];
+      }
+      saveShortcuts(next);
+      return next;
+    });
+  }, []);
+
+  const resetBindings = useCallback(() => {
+    setBindings(DEFAULT_SHORTCUTS);
+    saveShortcuts(DEFAULT_SHORTCUTS);
+  }, []);
+
+  return {
+    bindings,
+    updateBinding,
+    resetBindings,
+  };
+}
@@ -0,0 +1,119 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+
+// Document Picture-in-Picture isn't in the DOM typings yet
+interface DocumentPictureInPicture {
+  requestWindow(options?: { width?: number; height?: number }): Promise<Window>;
+}
+
+declare global {
+  interface Window {
+    documentPictureInPicture?: DocumentPictureInPicture;
+  }
+}
+
+const MINI_WINDOW_WIDTH = 320;
+const MINI_WINDOW_HEIGHT = 220;
+const MINI_WINDOW_NAME = 'pomoradio-mini';
+
+// How often to check whether the fallback popup was closed
+const POPUP_POLL_INTERVAL_MS = 1000;
+
+/**
+ * Copy the page's styles into another document, so components render the same there
+ */
+function copyStyles(source: Document, target: Document): void {
+  Array.from(source.styleSheets).forEach(styleSheet => {
+    try {
+      const style = target.createElement('style');
+      style.textContent = Array.from(styleSheet.cssRules).map(rule => rule.cssText).join('\n');
+      target.head.append(style);
+    } catch {
+      // Cross-origin sheets can't be read, link them instead
+      if (styleSheet.href) {
+        const link = target.createElement('link');
+        link.rel = 'stylesheet';
+        link.href = styleSheet.href;
+        target.head.append(link);
+      }
+    }
+  });
+  target.body.className = source.body.className;
+}
+
+/**
+ * A small always-on-top window for the timer. Uses Document Picture-in-Picture where
+ * available, rendering into `pipContainer` from this page; otherwise opens the /mini
+ * route in a popup, which mirrors this tab like any other follower tab.
+ */
+export function useMiniWindow() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [pipContainer, setPipContainer] = useState<HTMLElement | null>(null);
+  const windowRef = useRef<Window | null>(null);
+
+  const handleClosed = useCallback(() => {
+    windowRef.current = null;
+    setPipContainer(null);
+    setIsOpen(false);
+  }, []);
+
+  const open = useCallback(async () => {
+    if (windowRef.current && !windowRef.current.closed) {
+      windowRef.current.focus();
+      return;
+    }
+
+    if (window.documentPictureInPicture) {
+      try {
+        const pipWindow = await window.documentPictureInPicture.requestWindow({
+          width: MINI_WINDOW_WIDTH,
+          height: MINI_WINDOW_HEIGHT,
+        });
+        copyStyles(document, pipWindow.document);
+        const container = pipWindow.document.createElement('div');
+        pipWindow.document.body.append(container);
+        pipWindow.addEventListener('pagehide', handleClosed);
+
+        windowRef.current = pipWindow;
+        setPipContainer(container);
+        setIsOpen(true);
+        return;
+      } catch (error) {
+        console.warn('Picture-in-Picture window unavailable, opening a popup instead:', error);
+      }
+    }
+
+    const popup = window.open('/mini', MINI_WINDOW_NAME, `popup,width=${MINI_WINDOW_WIDTH},height=${MINI_WINDOW_HEIGHT}`);
+    if (!popup) {
+      console.warn('The mini timer popup was blocked');
+      return;
+    }
+    windowRef.current = popup;
+    setIsOpen(true);
+  }, [handleClosed]);
+
+  const close = useCallback(() => {
+    windowRef.current?.close();
+    handleClosed();
+  }, [handleClosed]);
+
+  // Popups don't tell the opener when they close
+  useEffect(() => {
+    if (!isOpen || pipContainer) return;
+
+    const timer = setInterval(() => {
+      if (windowRef.current?.closed) handleClosed();
+    }, POPUP_POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isOpen, pipContainer, handleClosed]);
+
+  // The mini window goes away with the page that opened it
+  useEffect(() => {
+    const handlePageHide = () => windowRef.current?.close();
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, []);
+
+  return { isOpen, pipContainer, open, close };
+}
@@ -0,0 +1,115 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { AlertPreferences } from '@/types/alerts';
+import type { PhaseRadioProfile, PhaseStep, RadioProfileKind } from '@/types/pomodoro';
+import { getRadioProfile } from '@/lib/radioProfiles';
+import { playChime, getChimeDuration } from '@/lib/chimes';
+
+const ALERTS_STORAGE_KEY = 'pomodoro-alerts';
+
+const DEFAULT_ALERT_PREFERENCES: AlertPreferences = {
+  notifications: false,
+  chimes: false,
+  focusChime: 'bowl',
+  breakChime: 'bell',
+  chimeVolume: 0.6,
+};
+
+type NotificationPermissionState = NotificationPermission | 'unsupported';
+
+function getNotificationPermission(): NotificationPermissionState {
+  return typeof window !== 'undefined' && 'Notification' in window
+    ? Notification.permission
+    : 'unsupported';
+}
+
+// What the notification says will play during a phase, following its radio profile
+function describePhaseAudio(profile: PhaseRadioProfile): string | null {
+  if (profile.behavior === 'silent') return null;
+  // Stations can't be reached offline, so the soundscape made on this device plays instead
+  if (!navigator.onLine) return 'with the offline soundscape';
+  if (profile.behavior === 'stream' && profile.streamUrl) return 'playing your stream';
+  if (profile.behavior === 'favorite') return 'tuning in to one of your favorite stations';
+  if (profile.behavior === 'focus') return 'tuning in to a calm station';
+  return 'tuning in to a radio station somewhere in the world';
+}
+
+export function usePhaseAlerts() {
+  const [preferences, setPreferences] = useState<AlertPreferences>(DEFAULT_ALERT_PREFERENCES);
+  const [permission, setPermission] = useState<NotificationPermissionState>('default');
+
+  // Load saved preferences from localStorage
+  useEffect(() => {
+    const saved = localStorage.getItem(ALERTS_STORAGE_KEY);
+    if (saved) {
+      try {
+        setPreferences({ ...DEFAULT_ALERT_PREFERENCES, ...JSON.parse(saved) });
+      } catch (error) {
+        console.error('Failed to load alert preferences:', error);
+      }
+    }
+    setPermission(getNotificationPermission());
+  }, []);
+
+  const updatePreferences = useCallback((changes: Partial<AlertPreferences>) => {
+    setPreferences(prev => {
+      const next = { ...prev, ...changes };
+      localStorage.setItem(ALERTS_STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  // Turning notifications on asks for permission; they stay off if it's refused
+  const setNotificationsEnabled = useCallback(async (enabled: boolean) => {
+    if (!enabled) {
+      updatePreferences({ notifications: false });
+      return;
+    }
+    if (getNotificationPermission() === 'unsupported') return;
+
+    const result = await Notification.requestPermission();
+    setPermission(result);
+    updatePreferences({ notifications: result === 'granted' });
+  }, [updatePreferences]);
+
+  const previewChime = useCallback((sound: AlertPreferences['focusChime']) => {
+    playChime(sound, preferences.chimeVolume).catch(console.error);
+  }, [preferences.chimeVolume]);
+
+  // Alert that a new phase has started. `duck` lowers any playing station while the chime sounds.
+  const announcePhase = useCallback((
+    step: PhaseStep,
+    radioProfiles: Record<RadioProfileKind, PhaseRadioProfile>,
+    duck?: (seconds: number) => void
+  ) => {
+    if (preferences.chimes) {
+      const sound = step.isFocus ? preferences.focusChime : preferences.breakChime;
+      duck?.(getChimeDuration(sound));
+      playChime(sound, preferences.chimeVolume).catch(console.error);
+    }
+
+    if (preferences.notifications && getNotificationPermission() === 'granted') {
+      try {
+        const audio = describePhaseAudio(getRadioProfile(step, radioProfiles));
+        const lead = step.isFocus ? 'Time to focus' : 'Break time';
+        new Notification(`${step.label} • ${step.duration} min`, {
+          body: audio ? `${lead}, ${audio}.` : `${lead}.`,
+          tag: 'pomoradio-phase', // replace the previous phase's notification
+          silent: preferences.chimes, // the chime already made a sound
+        });
+      } catch (error) {
+        console.error('Failed to show notification:', error);
+      }
+    }
+  }, [preferences]);
+
+  return {
+    preferences,
+    permission,
+    updatePreferences,
+    setNotificationsEnabled,
+    previewChime,
+    announcePhase,
+  };
+}
@@ -0,0 +1,76 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { PomodoroSettings, PomodoroSequence } from '@/types/pomodoro';
+import { CLASSIC_SEQUENCE_ID, getBuiltInSequences, isValidSequence } from '@/lib/sequences';
+
+const SEQUENCES_STORAGE_KEY = 'pomodoro-sequences';
+const SELECTED_SEQUENCE_STORAGE_KEY = 'pomodoro-sequence';
+
+export function usePhaseSequences(settings: PomodoroSettings) {
+  const [customSequences, setCustomSequences] = useState<PomodoroSequence[]>([]);
+  const [selectedId, setSelectedId] = useState<string>(CLASSIC_SEQUENCE_ID);
+
+  // Load custom sequences and the selected one from localStorage
+  useEffect(() => {
+    const saved = localStorage.getItem(SEQUENCES_STORAGE_KEY);
+    if (saved) {
+      try {
+        const sequences = (JSON.parse(saved) as PomodoroSequence[]).filter(isValidSequence);
+        setCustomSequences(sequences);
+      } catch (error) {
+        console.error('Failed to load phase sequences:', error);
+      }
+    }
+    setSelectedId(localStorage.getItem(SELECTED_SEQUENCE_STORAGE_KEY) ?? CLASSIC_SEQUENCE_ID);
+  }, []);
+
+  const builtInSequences = useMemo(() => getBuiltInSequences(settings), [settings]);
+  const sequences = useMemo(() => [...builtInSequences, ...customSequences], [builtInSequences, customSequences]);
+
+  // Fall back to the classic cycle if the selected sequence was deleted
+  const sequence = sequences.find(s => s.id === selectedId) ?? builtInSequences[0];
+
+  const selectSequence = useCallback((sequenceId: string) => {
+    setSelectedId(sequenceId);
+    localStorage.setItem(SELECTED_SEQUENCE_STORAGE_KEY, sequenceId);
+  }, []);
+
+  const saveCustomSequences = useCallback((update: (prev: PomodoroSequence[]) => PomodoroSequence[]) => {
+    setCustomSequences(prev => {
+      const next = update(prev);
+      localStorage.setItem(SEQUENCES_STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  // Create or update a custom sequence
+  const saveSequence = useCallback((sequence: PomodoroSequence) => {
+    if (!isValidSequence(sequence)) {
+      console.warn('Refusing to save invalid phase sequence:', sequence);
+      return false;
+    }
+
+    const custom = { ...sequence, builtIn: false };
+    saveCustomSequences(prev => prev.some(s => s.id === custom.id)
+      ? prev.map(s => s.id === custom.id ? custom : s)
+      : [...prev, custom]
+    );
+    return true;
+  }, [saveCustomSequences]);
+
+  const removeSequence = useCallback((sequenceId: string) => {
+    saveCustomSequences(prev => prev.filter(s => s.id !== sequenceId));
+    if (sequenceId === selectedId) {
+      selectSequence(CLASSIC_SEQUENCE_ID);
+    }
+  }, [saveCustomSequences, selectedId, selectSequence]);
+
+  return {
+    sequences,
+    sequence,
+    selectSequence,
+    saveSequence,
+    removeSequence,
+  };
+}
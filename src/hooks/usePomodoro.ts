@@ -1,38 +1,118 @@
 'use client';
 
-import { useState, useEffect, useCallback, useRef } from 'react';
-import type { PomodoroSettings, PomodoroState, PomodoroPhase } from '@/types/pomodoro';
-import type { RadioStation } from '@/types/radio';
-import { useAudioPlayer } from './useAudioPlayer';
-
-const DEFAULT_SETTINGS: PomodoroSettings = {
-  workDuration: 25,
-  shortBreakDuration: 5,
-  longBreakDuration: 15,
-  sessionsUntilLongBreak: 4,
-  fadeInDuration: 3,
-  fadeOutDuration: 3,
-};
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import type { PomodoroSettings, PomodoroState, PomodoroSequence, PhaseStep, PomodoroEvent, PomodoroCommand, PersistedPomodoroSession, PomodoroActivity, PomodoroActivityType, PhaseRadioProfile } from '@/types/pomodoro';
+import type { RadioStation, StationFilters, StationSelectionContext } from '@/types/radio';
+import type { PhaseHistoryEntry, InterruptionKind } from '@/types/history';
+import type { Task } from '@/types/task';
+import type { BusyBlock, MeetingConflictMode } from '@/types/calendar';
+import { isPlaybackCancelled, useAudioPlayer } from './useAudioPlayer';
+import { DEFAULT_SETTINGS } from '@/lib/pomodoroSettings';
+import { saveSession, loadSession, clearSession } from '@/lib/pomodoroSession';
+import { buildClassicSequence, getPhaseTitle } from '@/lib/sequences';
+import { createInitialState, resolveStep, getNextStep, reducePomodoro } from '@/lib/pomodoroEngine';
+import { getRadioProfile, filterStationsForProfile, createStreamStation, isTimeOfDayBehavior, isSameRadioProfile, isFocusStation, RADIO_BEHAVIOR_LABELS } from '@/lib/radioProfiles';
+import { matchesTimeOfDay } from '@/lib/timeZones';
+import { applyStationFilters } from '@/lib/stationFilters';
+import { pickWeightedStation, EMPTY_SELECTION_CONTEXT } from '@/lib/stationSelection';
+import { probeStream, releaseStream } from '@/lib/streamProbe';
+import { createSoundscapeStation } from '@/lib/soundscape';
+
+// How often the wall clock is re-read while running
+const TICK_INTERVAL_MS = 250;
+// Failing tour stops skipped in one go before the break falls back to its profile
+const MAX_TOUR_SKIPS = 3;
+// Break stations are probed this long before a focus phase ends
+const PREFLIGHT_LEAD_MS = 60000;
+// Too close to the break for probing to finish in time
+const MIN_PREFLIGHT_MS = 8000;
+const PREFLIGHT_PROBES = 3;
 
 interface PomodoroOptions {
   settings?: Partial<PomodoroSettings>;
+  sequence?: PomodoroSequence; // defaults to the classic cycle built from settings
   onStationSelected?: (station: RadioStation) => void;
+  onPhaseEnded?: (entry: PhaseHistoryEntry) => void;
+  onPhaseStarted?: (step: PhaseStep) => void; // a phase change, not the first start or a resume
+  activeTask?: Task | null; // task that work phases count towards
+  stationSelection?: StationSelectionContext; // favorites, ratings and history that weigh break picks
+  onStationAttempt?: (station: RadioStation, ok: boolean, startMs: number | null) => void; // each play or probe of a break station, with its time to first audio
+  onStationStalled?: (station: RadioStation) => void; // the playing station stopped to buffer
+  tour?: { getNextStop: () => RadioStation | null; completeStop: (station: RadioStation, played: boolean) => void }; // picks break stations while it lasts
+  stationFilters?: StationFilters; // preferences every break station must meet
+  calendar?: { busyBlocks: BusyBlock[]; conflictMode: MeetingConflictMode } | null; // meetings to work around
+  onMeetingAhead?: (block: BusyBlock, shortened: boolean) => void; // a focus phase runs into a meeting
+  onActivity?: (activity: PomodoroActivity) => void; // timer and radio activity, e.g. for webhooks
+  autoRadio?: boolean; // false while the radio follows someone else's, e.g. a focus room's shared station
+  passive?: boolean; // another tab owns the session: no clock, no persistence, state comes from syncState
 }
 
 export function usePomodoro(options: PomodoroOptions = {}) {
-  const { settings = {}, onStationSelected } = options;
-  const fullSettings = { ...DEFAULT_SETTINGS, ...settings };
-  const audio = useAudioPlayer();
-  const timerRef = useRef<NodeJS.Timeout | null>(null);
+  const { settings, sequence: sequenceOption, onStationSelected, onPhaseEnded, onPhaseStarted, activeTask = null, stationSelection, onStationAttempt, onStationStalled, tour, stationFilters, calendar = null, onMeetingAhead, onActivity, autoRadio = true, passive = false } = options;
+  const fullSettings = useMemo(() => ({ ...DEFAULT_SETTINGS, ...settings }), [settings]);
+  const classicSequence = useMemo(() => buildClassicSequence(fullSettings), [fullSettings]);
+  const sequence = sequenceOption ?? classicSequence;
+  const audio = useAudioPlayer({
+    fadeInDuration: fullSettings.fadeInDuration,
+    fadeOutDuration: fullSettings.fadeOutDuration,
+    onStationStarted: station => reportActivityRef.current('stationStarted', { station }),
+    onStationStopped: station => reportActivityRef.current('stationStopped', { station }),
+    onStationStalled,
+  });
   const stationsRef = useRef<RadioStation[]>([]);
 
-  const [state, setState] = useState<PomodoroState>({
-    phase: 'work',
-    timeRemaining: fullSettings.workDuration * 60,
-    isRunning: false,
-    completedSessions: 0,
-    currentCycle: 1,
-  });
+  const [state, setState] = useState<PomodoroState>(() => createInitialState(sequence));
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  // Read the active task through a ref so changing it doesn't rebuild the timer callbacks
+  const activeTaskRef = useRef(activeTask);
+  activeTaskRef.current = activeTask;
+  const stationSelectionRef = useRef(stationSelection ?? EMPTY_SELECTION_CONTEXT);
+  stationSelectionRef.current = stationSelection ?? EMPTY_SELECTION_CONTEXT;
+  const stationFiltersRef = useRef(stationFilters);
+  stationFiltersRef.current = stationFilters;
+  const tourRef = useRef(tour);
+  tourRef.current = tour;
+
+  // Report activity as of the current state. Only the tab that owns the session reports,
+  // so integrations hear about everything once.
+  const reportActivity = (type: PomodoroActivityType, details: Partial<PomodoroActivity> = {}) => {
+    if (passive || !onActivity) return;
+
+    const current = stateRef.current;
+    const step = resolveStep(current, sequence);
+    onActivity({
+      type,
+      at: Date.now(),
+      phase: current.phase,
+      label: step.label,
+      isFocus: step.isFocus,
+      timeRemaining: current.timeRemaining,
+      station: audio.currentStation,
+      ...details,
+    });
+  };
+  const reportActivityRef = useRef(reportActivity);
+  reportActivityRef.current = reportActivity;
+
+  // Last station heard during the current break, for the break's history entry
+  const breakStationRef = useRef<RadioStation | null>(null);
+  useEffect(() => {
+    if (audio.currentStation) {
+      breakStationRef.current = audio.currentStation;
+    }
+  }, [audio.currentStation]);
+
+  // A session saved before the last reload, waiting for the user to resume or discard it
+  const [savedSession, setSavedSession] = useState<PersistedPomodoroSession | null>(null);
+  // Whether the current session has been started since the last reset and should be persisted
+  const sessionActiveRef = useRef(false);
+
+  // Look for a session to resume
+  useEffect(() => {
+    setSavedSession(loadSession());
+  }, []);
 
   // Load random stations for breaks
   useEffect(() => {
@@ -60,43 +140,47 @@ export function usePomodoro(options: PomodoroOptions = {}) {
     loadStations();
   }, []);
 
-  const getNextPhase = useCallback((currentPhase: PomodoroPhase, completedSessions: number): PomodoroPhase => {
-    if (currentPhase === 'work') {
-      const isLongBreak = (completedSessions + 1) % fullSettings.sessionsUntilLongBreak === 0;
-      return isLongBreak ? 'longBreak' : 'shortBreak';
-    }
-    return 'work';
-  }, [fullSettings.sessionsUntilLongBreak]);
-
-  const getDurationForPhase = useCallback((phase: PomodoroPhase): number => {
-    switch (phase) {
-      case 'work':
-        return fullSettings.workDuration * 60;
-      case 'shortBreak':
-        return fullSettings.shortBreakDuration * 60;
-      case 'longBreak':
-        return fullSettings.longBreakDuration * 60;
-      default:
-        return fullSettings.workDuration * 60;
+  // Fill the break with the soundscape made on this device when no station can be played,
+  // e.g. while offline
+  const playSoundscape = useCallback(async (startAt?: number) => {
+    console.log('🌧️ Playing the offline soundscape instead');
+    try {
+      await audio.playStation(createSoundscapeStation(), startAt);
+    } catch (error) {
+      if (!isPlaybackCancelled(error)) {
+        console.error('Failed to play the offline soundscape:', error);
+      }
     }
-  }, [fullSettings]);
+  }, [audio]);
 
-  const playRandomStation = useCallback(async () => {
-    if (stationsRef.current.length === 0) {
+  // Play a station out of `candidates`, weighted by the listener's taste and history,
+  // holding playback until `startAt` (epoch ms) if given. `preferred` stations, e.g. ones
+  // that just passed a probe, are tried first in order.
+  const playRandomStation = useCallback(async (candidates: RadioStation[], startAt?: number, preferred: RadioStation[] = []) => {
+    if (candidates.length === 0 && preferred.length === 0) {
       console.warn('No radio stations available for pomodoro breaks');
+      await playSoundscape(startAt);
+      return;
+    }
+    // Trying stations while offline only wastes the start of the break, and blames them for it
+    if (!navigator.onLine) {
+      console.warn('📴 Offline, not trying any stations');
+      await playSoundscape(startAt);
       return;
     }
     
     const maxRetries = 5; // Try up to 5 different stations
     let attempts = 0;
-    const availableStations = [...stationsRef.current]; // Create a copy to avoid modifying original
+    const availableStations = [...candidates]; // Create a copy to avoid modifying original
+    const preferredStations = [...preferred];
     
-    while (attempts < maxRetries && availableStations.length > 0) {
-      const randomIndex = Math.floor(Math.random() * availableStations.length);
-      const station = availableStations[randomIndex];
+    while (attempts < maxRetries && (preferredStations.length > 0 || availableStations.length > 0)) {
+      const station = preferredStations.shift() ?? pickWeightedStation(availableStations, stationSelectionRef.current);
+      if (!station) break;
       
       try {
-        await audio.playStation(station);
+        const startMs = await audio.playStation(station, startAt);
+        onStationAttempt?.(station, true, startMs);
         
         // Only trigger flight AFTER successful playback
         if (onStationSelected) {
@@ -106,14 +190,20 @@ export function usePomodoro(options: PomodoroOptions = {}) {
         return; // Success! Exit the retry loop
         
       } catch (error) {
+        // Called off, e.g. the timer was paused before the break began: nothing else plays
+        if (isPlaybackCancelled(error)) return;
         console.warn(`❌ Failed to play ${station.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        onStationAttempt?.(station, false, null);
         
         // Remove the failed station from this attempt's available list
-        availableStations.splice(randomIndex, 1);
+        const index = availableStations.indexOf(station);
+        if (index !== -1) {
+          availableStations.splice(index, 1);
+        }
         attempts++;
         
-        // If this wasn't the last attempt, wait a moment before trying the next station
-        if (attempts < maxRetries && availableStations.length > 0) {
+        // If this wasn't the last attempt, wait a moment before trying the next unprobed station
+        if (attempts < maxRetries && preferredStations.length === 0 && availableStations.length > 0) {
           console.log(`⏳ Trying another station in 1 second... (${availableStations.length} remaining)`);
           await new Promise(resolve => setTimeout(resolve, 1000));
         }
@@ -122,148 +212,415 @@ export function usePomodoro(options: PomodoroOptions = {}) {
     
     // If we get here, all retry attempts failed
     console.error(`❌ Failed to play any radio station after ${maxRetries} attempts`);
-  }, [audio, onStationSelected]);
+    await playSoundscape(startAt);
+  }, [audio, onStationSelected, onStationAttempt, playSoundscape]);
 
+  // Play the next stop of the world tour, skipping stops whose stream fails.
+  // Resolves to false when there was nothing left to play. A stop called off before it
+  // started stays next on the tour.
+  const playTourStop = useCallback(async (startAt?: number) => {
+    const currentTour = tourRef.current;
+    if (!currentTour) return false;
 
-  const tick = useCallback(() => {
-    setState(prev => {
-      const newTimeRemaining = prev.timeRemaining - 1;
-      
-      // Handle actions 3 seconds before phase ends
-      if (newTimeRemaining === 3) {
-        if (prev.phase === 'work') {
-          // Start searching for radio station 3 seconds before work ends
-          playRandomStation().catch(console.error);
-        } else {
-          // Start fadeout and stop music 3 seconds before break ends
-          audio.stopWithFade(3).catch(console.error);
+    for (let skips = 0; skips < MAX_TOUR_SKIPS; skips++) {
+      const stop = currentTour.getNextStop();
+      if (!stop) return false;
+
+      try {
+        const startMs = await audio.playStation(stop, startAt);
+        currentTour.completeStop(stop, true);
+        onStationAttempt?.(stop, true, startMs);
+        console.log(`🧭 Tour stop: ${stop.name}, ${stop.country}`);
+        onStationSelected?.(stop);
+        return true;
+      } catch (error) {
+        if (isPlaybackCancelled(error)) return true;
+        console.warn(`🧭 Skipping tour stop ${stop.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        currentTour.completeStop(stop, false);
+        onStationAttempt?.(stop, false, null);
+      }
+    }
+    return false;
+  }, [audio, onStationSelected, onStationAttempt]);
+
+  // The stations a radio profile may pick from, for a station heard at `heardAt` (epoch ms)
+  const getProfileCandidates = useCallback((profile: PhaseRadioProfile, heardAt: number): RadioStation[] => {
+    // Preferences come first; a break with no station to play would be worse than one outside them
+    let pool = stationsRef.current;
+    if (stationFiltersRef.current) {
+      const preferred = applyStationFilters(pool, stationFiltersRef.current);
+      if (preferred.length > 0) {
+        pool = preferred;
+      } else {
+        console.warn('No stations match the station filters, ignoring them for this break');
+      }
+    }
+
+    let candidates = filterStationsForProfile(pool, profile);
+    if (candidates.length === 0) {
+      console.warn(`No stations match the ${profile.genre || 'any'} / ${profile.countrycode || 'any'} filter, picking from all matching stations`);
+      candidates = pool;
+    }
+
+    if (profile.behavior === 'favorite') {
+      const favorites = candidates.filter(station => stationSelectionRef.current.favoriteIds.has(station.stationuuid));
+      if (favorites.length > 0) {
+        candidates = favorites;
+      } else {
+        console.log('No favorites fit this break, picking any station');
+      }
+    } else if (profile.behavior === 'randomCountry') {
+      const countries = [...new Set(candidates.map(station => station.countrycode))];
+      const country = countries[Math.floor(Math.random() * countries.length)];
+      candidates = candidates.filter(station => station.countrycode === country);
+      console.log(`🌍 Exploring ${candidates[0]?.country ?? country} this break`);
+    } else if (profile.behavior === 'focus') {
+      const focusStations = candidates.filter(isFocusStation);
+      if (focusStations.length > 0) {
+        candidates = focusStations;
+      } else {
+        console.log('No focus stations fit this phase, picking any station');
+      }
+    } else if (isTimeOfDayBehavior(profile.behavior)) {
+      // Judge the time of day as of when the station will be heard
+      const mode = profile.behavior;
+      const matching = candidates.filter(station => matchesTimeOfDay(station, mode, heardAt));
+      if (matching.length > 0) {
+        console.log(`🕰️ ${RADIO_BEHAVIOR_LABELS[mode]}: ${matching.length} stations`);
+        candidates = matching;
+      } else {
+        console.log(`🕰️ No stations fit "${RADIO_BEHAVIOR_LABELS[mode]}" right now, picking any station`);
+      }
+    }
+
+    return candidates;
+  }, []);
+
+  // Stations probed ahead of the break that follows a focus phase, fastest first
+  const preflightRef = useRef<{ phaseEndsAt: number; stations: RadioStation[] } | null>(null);
+
+  // Play what a phase's radio profile asks for, at its volume. A world tour picks the
+  // station for breaks while it lasts, one stop per break: resuming a break doesn't move it on.
+  const playPhaseRadio = useCallback(async (profile: PhaseRadioProfile, isFocus: boolean, startAt?: number, resume: boolean = false) => {
+    audio.setNextVolume(profile.volume);
+
+    if (!isFocus && !resume && await playTourStop(startAt)) return;
+
+    if (profile.behavior === 'stream') {
+      if (profile.streamUrl) {
+        try {
+          await audio.playStation(createStreamStation(profile.streamUrl), startAt);
+          return;
+        } catch (error) {
+          if (isPlaybackCancelled(error)) return;
+          console.warn(`❌ Failed to play stream ${profile.streamUrl}:`, error);
         }
       }
-      
-      // Handle phase transitions when timer reaches 0
-      if (newTimeRemaining <= 0) {
-        const nextPhase = getNextPhase(prev.phase, prev.completedSessions);
-        const nextDuration = getDurationForPhase(nextPhase);
-        
-        if (prev.phase === 'work') {
-          // Work completed → Break starts
-          return {
-            ...prev,
-            phase: nextPhase,
-            timeRemaining: nextDuration,
-            completedSessions: prev.completedSessions + 1,
-          };
-        } else {
-          // Break completed → Work starts
-          // Failsafe: Force stop any audio that might still be playing
-          if (audio.isPlaying || audio.currentStation) {
-            audio.stop(); // Immediate stop without fade
-          }
-          
-          return {
-            ...prev,
-            phase: nextPhase,
-            timeRemaining: nextDuration,
-            currentCycle: nextPhase === 'work' ? prev.currentCycle + 1 : prev.currentCycle,
-          };
+      // Fall back to a station that fits the profile's filters
+    }
+
+    // Stations probed for this very break go first
+    const heardAt = startAt ?? Date.now();
+    const preflight = preflightRef.current;
+    preflightRef.current = null;
+    const probed = preflight && Math.abs(preflight.phaseEndsAt - heardAt) <= PREFLIGHT_LEAD_MS ? preflight.stations : [];
+
+    await playRandomStation(getProfileCandidates(profile, heardAt), startAt, probed);
+  }, [audio, playRandomStation, playTourStop, getProfileCandidates]);
+
+
+  // Carry out the side effects requested by the engine
+  const runCommand = useCallback((command: PomodoroCommand) => {
+    const isRadioCommand = command.type === 'PLAY_PHASE_RADIO' || command.type === 'PLAY_STATION'
+      || command.type === 'FADE_OUT_RADIO' || command.type === 'STOP_RADIO';
+    if (isRadioCommand && !autoRadio) return;
+
+    switch (command.type) {
+      case 'PLAY_PHASE_RADIO':
+        playPhaseRadio(command.profile, command.isFocus, command.startAt, command.resume).catch(console.error);
+        break;
+      case 'PLAY_STATION':
+        audio.setNextVolume(command.profile.volume);
+        audio.playStation(command.station)
+          .then(() => onStationSelected?.(command.station))
+          .catch(error => {
+            if (isPlaybackCancelled(error)) return;
+            playPhaseRadio(command.profile, command.isFocus, undefined, true).catch(console.error);
+          });
+        break;
+      case 'FADE_OUT_RADIO':
+        if (audio.isPlaying || audio.currentStation) {
+          audio.stopWithFade(command.duration).catch(console.error);
         }
+        break;
+      case 'STOP_RADIO':
+        // Immediate stop without fade, which also calls off a station waiting to start
+        audio.stop();
+        break;
+      case 'RECORD_PHASE': {
+        // Breaks remember the station they played. It may have started during the lead
+        // time before the break, or already faded out, so use the last one heard.
+        const isBreak = command.entry.isFocus === false && command.entry.phase !== 'paused';
+        const station = isBreak ? breakStationRef.current : null;
+        if (isBreak) {
+          breakStationRef.current = null;
+        }
+        onPhaseEnded?.(station
+          ? { ...command.entry, stationId: station.stationuuid, stationName: station.name, stationCountry: station.country }
+          : command.entry);
+
+        if (command.entry.phase !== 'paused') {
+          reportActivityRef.current('phaseEnded', {
+            phase: command.entry.phase,
+            label: command.entry.label ?? getPhaseTitle(command.entry.phase),
+            isFocus: command.entry.isFocus ?? command.entry.phase === 'work',
+            timeRemaining: Math.max(0, command.entry.plannedDuration - command.entry.actualDuration),
+          });
+        }
+        break;
       }
-      
-      return { ...prev, timeRemaining: newTimeRemaining };
+      case 'ANNOUNCE_PHASE':
+        onPhaseStarted?.(command.step);
+        reportActivityRef.current('phaseStarted');
+        break;
+      case 'MEETING_AHEAD':
+        onMeetingAhead?.(command.block, command.shortened);
+        break;
+    }
+  }, [audio, autoRadio, playPhaseRadio, onStationSelected, onPhaseEnded, onPhaseStarted, onMeetingAhead]);
+
+  // Feed an event through the engine, then apply the resulting state and side effects
+  const dispatch = useCallback((event: PomodoroEvent): PomodoroCommand[] => {
+    const prev = stateRef.current;
+    const { state: next, commands } = reducePomodoro(prev, event, {
+      sequence,
+      settings: fullSettings,
+      activeTask: activeTaskRef.current,
+      calendar,
     });
-  }, [audio, playRandomStation, getNextPhase, getDurationForPhase]);
 
-  const start = useCallback(() => {
-    if (state.isRunning) return;
-    
-    // If starting a work session and radio is playing, fade it out
-    if (state.phase === 'work' && (audio.isPlaying || audio.currentStation)) {
-      console.log('🔇 Starting work session - fading out radio...');
-      audio.stopWithFade(2); // 2-second fade out
+    // Only re-render when the engine actually changed something
+    if (next !== prev) {
+      stateRef.current = next;
+      setState(next);
     }
-    
-    setState(prev => ({ ...prev, isRunning: true }));
-    
-    // Start timer
-    timerRef.current = setInterval(tick, 1000);
-  }, [state.isRunning, state.phase, audio, tick]);
+    commands.forEach(runCommand);
+    return commands;
+  }, [sequence, fullSettings, calendar, runCommand]);
 
-  const pause = useCallback(() => {
-    if (!state.isRunning) return;
-    
-    setState(prev => ({ ...prev, isRunning: false }));
-    
-    // Clear timer
-    if (timerRef.current) {
-      clearInterval(timerRef.current);
-      timerRef.current = null;
+  // Settings or sequence changes mid-phase may rescale the running phase. Only actual
+  // changes count: a phase cut short for a meeting differs from its configured duration.
+  const currentStep = resolveStep(state, sequence);
+  const configuredDuration = currentStep.duration * 60;
+  const configuredDurationRef = useRef(configuredDuration);
+
+  useEffect(() => {
+    if (configuredDuration === configuredDurationRef.current) return;
+    configuredDurationRef.current = configuredDuration;
+    if (passive) return;
+    dispatch({ type: 'DURATION_CHANGED', now: Date.now() });
+  }, [configuredDuration, passive]); // the engine compares against the phase's own duration
+
+  const tick = useCallback(() => {
+    dispatch({ type: 'TICK', now: Date.now() });
+  }, [dispatch]);
+
+  const start = useCallback(() => {
+    if (stateRef.current.isRunning) return;
+
+    // Starting fresh replaces any session still waiting to be resumed
+    sessionActiveRef.current = true;
+    setSavedSession(null);
+    const isResume = stateRef.current.phaseStartedAt !== null;
+    // Resuming plays the station the phase was paused on, which has faded out by now
+    dispatch({ type: 'START', now: Date.now(), station: breakStationRef.current });
+    reportActivityRef.current(isResume ? 'resumed' : 'phaseStarted');
+  }, [dispatch]);
+
+  // Pause, optionally saying why. While paused, this updates the reason.
+  const pause = useCallback((reason?: string) => {
+    const wasRunning = stateRef.current.isRunning;
+    dispatch({ type: 'PAUSE', now: Date.now(), reason });
+    if (wasRunning) {
+      reportActivityRef.current('paused');
     }
-  }, [state.isRunning]);
+  }, [dispatch]);
+
+  // Count an interruption against the current focus phase. Returns when it was logged,
+  // which identifies it for noteInterruption.
+  const logInterruption = useCallback((kind: InterruptionKind, at: number = Date.now()): number => {
+    dispatch({ type: 'INTERRUPT', now: at, kind });
+    return at;
+  }, [dispatch]);
+
+  const noteInterruption = useCallback((at: number, reason: string) => {
+    dispatch({ type: 'NOTE_INTERRUPTION', now: Date.now(), at, reason });
+  }, [dispatch]);
 
   const reset = useCallback(async () => {
-    // Stop timer
-    if (timerRef.current) {
-      clearInterval(timerRef.current);
-      timerRef.current = null;
-    }
-    
-    // Stop audio completely
-    if (audio.isPlaying || audio.currentStation) {
-      audio.stop();
-    }
-    
-    // Reset state
-    setState({
-      phase: 'work',
-      timeRemaining: fullSettings.workDuration * 60,
-      isRunning: false,
-      completedSessions: 0,
-      currentCycle: 1,
-    });
-  }, [audio, fullSettings.workDuration]);
+    sessionActiveRef.current = false;
+    clearSession();
+    dispatch({ type: 'RESET', now: Date.now() });
+  }, [dispatch]);
 
   const skip = useCallback(() => {
-    setState(prev => {
-      const nextPhase = getNextPhase(prev.phase, prev.completedSessions);
-      const nextDuration = getDurationForPhase(nextPhase);
-      
-      // Trigger radio search or fadeout immediately when skipping
-      if (nextPhase !== 'work') {
-        // Skipping to break - start radio immediately
-        playRandomStation().catch(console.error);
-      } else {
-        // Skipping to work - stop radio immediately with quick fade
-        audio.stopWithFade(1).catch(console.error);
-      }
-      
-      if (prev.phase === 'work') {
-        // Work skipped → Break starts
-        return {
-          ...prev,
-          phase: nextPhase,
-          timeRemaining: nextDuration,
-          completedSessions: prev.completedSessions + 1,
-        };
-      } else {
-        // Break skipped → Work starts
-        return {
-          ...prev,
-          phase: nextPhase,
-          timeRemaining: nextDuration,
-          currentCycle: nextPhase === 'work' ? prev.currentCycle + 1 : prev.currentCycle,
-        };
-      }
+    sessionActiveRef.current = true;
+    reportActivityRef.current('skipped');
+    dispatch({ type: 'SKIP', now: Date.now() });
+  }, [dispatch]);
+
+  // Restore the saved session, catching up on phases that ended while the page was closed.
+  // The resume click counts as a user gesture for autoplay of the break radio.
+  const resumeSession = useCallback(() => {
+    if (!savedSession) return;
+
+    sessionActiveRef.current = true;
+    setSavedSession(null);
+    const commands = dispatch({
+      type: 'RESTORE',
+      now: Date.now(),
+      state: savedSession.state,
+      breakStation: savedSession.breakStation,
     });
-  }, [getNextPhase, getDurationForPhase, playRandomStation, audio]);
 
-  // Cleanup timer on unmount
+    const phasesEnded = commands.filter(command => command.type === 'RECORD_PHASE').length;
+    if (phasesEnded > 0) {
+      console.log(`⏭️ ${phasesEnded} phase(s) ended while the page was closed`);
+    }
+  }, [savedSession, dispatch]);
+
+  // Mirror a state owned elsewhere. Following it, e.g. a focus room's host, also plays out
+  // its phase changes here: history, announcements and radio. Another tab's state is just mirrored.
+  const syncState = useCallback((next: PomodoroState, follow: boolean = false) => {
+    // Taking over a started session keeps persisting it from this tab
+    sessionActiveRef.current = next.phaseStartedAt !== null;
+    dispatch({ type: 'SYNC', now: Date.now(), state: next, follow });
+  }, [dispatch]);
+
+  const discardSession = useCallback(() => {
+    clearSession();
+    setSavedSession(null);
+  }, []);
+
+  // Persist the session on every meaningful change. The remaining time only needs
+  // saving while paused; a running phase is fully described by its end time.
+  const breakStation = getRadioProfile(currentStep, fullSettings.radioProfiles).behavior !== 'silent' ? audio.currentStation : null;
+  const persistKey = JSON.stringify([
+    state.phase,
+    state.stepIndex,
+    state.phaseDuration,
+    state.phaseEndsAt,
+    state.isRunning,
+    state.completedSessions,
+    state.currentCycle,
+    state.isRunning ? null : state.timeRemaining,
+    state.meetingUntil,
+    state.interruptions,
+    state.pausedAt,
+    state.pauseReason,
+    breakStation?.stationuuid,
+  ]);
+
+  useEffect(() => {
+    if (passive || !sessionActiveRef.current) return;
+    saveSession(stateRef.current, breakStation);
+  }, [persistKey, passive]); // persistKey already covers state and breakStation
+
+  // Drive the clock while running, or while waiting out a meeting. The interval only
+  // triggers a re-read of the wall clock, so throttled or delayed callbacks can't make
+  // the timer drift.
+  const waitingForMeeting = !state.isRunning && state.meetingUntil !== null;
+
+  useEffect(() => {
+    if (passive || (!state.isRunning && !waitingForMeeting)) return;
+
+    const timer = setInterval(tick, TICK_INTERVAL_MS);
+
+    // Complete the phase right on time rather than on the next interval
+    const phaseEndsAt = stateRef.current.phaseEndsAt;
+    const phaseTimer = phaseEndsAt !== null
+      ? setTimeout(() => dispatch({ type: 'PHASE_ELAPSED', now: Date.now() }), Math.max(0, phaseEndsAt - Date.now()))
+      : undefined;
+
+    // Catch up immediately when a background tab becomes visible again
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        tick();
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      clearInterval(timer);
+      clearTimeout(phaseTimer);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [passive, state.isRunning, waitingForMeeting, state.phaseEndsAt, tick, dispatch]);
+
+  // In the last minute of a focus phase, probe a few stations for the coming break, so it
+  // starts with one that is known to play rather than finding dead streams by trying them.
+  // The fastest one's stream stays loaded, so the break starts from audio already buffered.
+  const preflightDue = !passive && autoRadio && state.isRunning && state.phaseEndsAt !== null && currentStep.isFocus;
+  const { prebuffer, releasePrebuffer } = audio;
+
   useEffect(() => {
+    const phaseEndsAt = stateRef.current.phaseEndsAt;
+    if (!preflightDue || phaseEndsAt === null) return;
+
+    let cancelled = false;
+    const runPreflight = async () => {
+      if (phaseEndsAt - Date.now() < MIN_PREFLIGHT_MS || !navigator.onLine || tourRef.current?.getNextStop()) return;
+
+      const profile = getRadioProfile(getNextStep(stateRef.current, sequence), fullSettings.radioProfiles);
+      if (profile.behavior === 'silent' || (profile.behavior === 'stream' && profile.streamUrl)) return;
+      // Focus audio with the same profile simply carries on into the break
+      if (isSameRadioProfile(getRadioProfile(resolveStep(stateRef.current, sequence), fullSettings.radioProfiles), profile)) return;
+
+      const candidates = [...getProfileCandidates(profile, phaseEndsAt)];
+      const picks: RadioStation[] = [];
+      while (picks.length < PREFLIGHT_PROBES && candidates.length > 0) {
+        const station = pickWeightedStation(candidates, stationSelectionRef.current);
+        if (!station) break;
+        picks.push(station);
+        candidates.splice(candidates.indexOf(station), 1);
+      }
+
+      const probes = await Promise.all(picks.map(station => probeStream(station.url_resolved || station.url)));
+      probes.forEach(({ result }, i) => onStationAttempt?.(picks[i], result.ok, result.startMs));
+
+      const passed = picks
+        .map((station, i) => ({ station, ...probes[i] }))
+        .filter(({ result }) => result.ok)
+        .sort((a, b) => (a.result.startMs ?? Infinity) - (b.result.startMs ?? Infinity));
+      // The fastest station stays loaded for the break, the others let go of their streams
+      const [fastest, ...others] = passed;
+      others.forEach(({ audio }) => audio && releaseStream(audio));
+      if (cancelled) {
+        if (fastest?.audio) releaseStream(fastest.audio);
+        return;
+      }
+
+      if (fastest?.audio) {
+        prebuffer(fastest.station, fastest.audio);
+      }
+      preflightRef.current = { phaseEndsAt, stations: passed.map(({ station }) => station) };
+      console.log(`📡 ${passed.length} of ${picks.length} break stations answered ahead of the break${fastest ? `, buffering ${fastest.station.name}` : ''}`);
+    };
+
+    const timer = setTimeout(() => {
+      runPreflight().catch(console.error);
+    }, Math.max(0, phaseEndsAt - PREFLIGHT_LEAD_MS - Date.now()));
+
     return () => {
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
+      cancelled = true;
+      clearTimeout(timer);
+      // A preflight the break never used, e.g. after a pause, lets go of the buffered stream
+      if (preflightRef.current?.phaseEndsAt === phaseEndsAt) {
+        preflightRef.current = null;
+        releasePrebuffer();
       }
     };
-  }, []);
+  }, [preflightDue, state.phaseEndsAt, sequence, fullSettings.radioProfiles, getProfileCandidates, onStationAttempt, prebuffer, releasePrebuffer]);
 
   // Format time for display
   const formatTime = useCallback((seconds: number): string => {
@@ -275,12 +632,21 @@ export function usePomodoro(options: PomodoroOptions = {}) {
   return {
     ...state,
     settings: fullSettings,
+    sequence,
+    currentStep,
+    nextStep: getNextStep(state, sequence),
     audio,
     start,
     pause,
     reset,
     skip,
+    logInterruption,
+    noteInterruption,
     formatTime,
     timeDisplay: formatTime(state.timeRemaining),
+    savedSession,
+    resumeSession,
+    discardSession,
+    syncState,
   };
 }
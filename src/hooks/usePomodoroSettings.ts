@@ -0,0 +1,55 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { PomodoroSettings } from '@/types/pomodoro';
+import { DEFAULT_SETTINGS, loadSettings, saveSettings, validateSettings } from '@/lib/pomodoroSettings';
+import type { SettingsErrors } from '@/lib/pomodoroSettings';
+
+export function usePomodoroSettings() {
+  const [settings, setSettings] = useState<PomodoroSettings>(DEFAULT_SETTINGS);
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const [errors, setErrors] = useState<SettingsErrors>({});
+
+  // Load saved settings from localStorage
+  useEffect(() => {
+    const loaded = { ...DEFAULT_SETTINGS, ...loadSettings() };
+    settingsRef.current = loaded;
+    setSettings(loaded);
+  }, []);
+
+  // Validate and apply a change, saving only the fields that pass
+  const updateSettings = useCallback((changes: Partial<Record<keyof PomodoroSettings, unknown>>) => {
+    const { settings: valid, errors: invalid } = validateSettings(changes);
+
+    setErrors(prev => {
+      const next = { ...prev };
+      Object.keys(changes).forEach(key => {
+        delete next[key as keyof PomodoroSettings];
+      });
+      return { ...next, ...invalid };
+    });
+
+    if (Object.keys(valid).length === 0) return;
+
+    // Build on the latest settings, so changes made before a re-render aren't lost
+    const next = { ...settingsRef.current, ...valid };
+    settingsRef.current = next;
+    setSettings(next);
+    saveSettings(next);
+  }, []);
+
+  const resetSettings = useCallback(() => {
+    setErrors({});
+    settingsRef.current = DEFAULT_SETTINGS;
+    setSettings(DEFAULT_SETTINGS);
+    saveSettings(DEFAULT_SETTINGS);
+  }, []);
+
+  return {
+    settings,
+    errors,
+    updateSettings,
+    resetSettings,
+  };
+}
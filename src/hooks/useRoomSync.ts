@@ -0,0 +1,152 @@
+'use client';
+
+import { useEffect, useCallback, useRef } from 'react';
+import type { RoomCommand, RoomSnapshot } from '@/types/rooms';
+import type { RadioStation } from '@/types/radio';
+import { getMemberStatus } from '@/lib/rooms';
+import { usePomodoro } from './usePomodoro';
+import { useFocusRoom } from './useFocusRoom';
+
+type Pomodoro = ReturnType<typeof usePomodoro>;
+
+/**
+ * Put the timer on the room's clock. The host publishes its timer and carries out controls
+ * forwarded by members. Members mirror the host's timer but keep running their own clock
+ * on it, so their phases end, get recorded and play break radio locally, and get back a
+ * pomodoro whose controls are forwarded to the host.
+ */
+export function useRoomSync(
+  pomodoro: Pomodoro,
+  room: ReturnType<typeof useFocusRoom>,
+  onStationSelected?: (station: RadioStation) => void,
+): Pomodoro {
+  const { isHost, isMember, snapshot, sharedStation, sendSnapshot, sendStatus, sendCommand, setCommandHandler } = room;
+
+  const pomodoroRef = useRef(pomodoro);
+  pomodoroRef.current = pomodoro;
+
+  const createSnapshot = useCallback((): RoomSnapshot => {
+    const { audio, ...current } = pomodoroRef.current;
+    return {
+      state: {
+        phase: current.phase,
+        stepIndex: current.stepIndex,
+        phaseDuration: current.phaseDuration,
+        timeRemaining: current.timeRemaining,
+        phaseStartedAt: current.phaseStartedAt,
+        phaseEndsAt: current.phaseEndsAt,
+        isRunning: current.isRunning,
+        completedSessions: current.completedSessions,
+        currentCycle: current.currentCycle,
+        preRollFiredFor: current.preRollFiredFor,
+        meetingUntil: current.meetingUntil,
+        interruptions: current.interruptions,
+        pausedAt: current.pausedAt,
+        pauseReason: current.pauseReason,
+      },
+      sequence: current.sequence,
+      station: audio.currentStation,
+      isPlaying: audio.isPlaying,
+    };
+  }, []);
+
+  // Publish every change members can see. A running phase is fully described by its
+  // end time, so the countdown itself isn't sent.
+  const { audio } = pomodoro;
+  const snapshotKey = JSON.stringify([
+    pomodoro.phase,
+    pomodoro.stepIndex,
+    pomodoro.phaseDuration,
+    pomodoro.isRunning ? null : pomodoro.timeRemaining,
+    pomodoro.phaseEndsAt,
+    pomodoro.isRunning,
+    pomodoro.completedSessions,
+    pomodoro.currentCycle,
+    pomodoro.pauseReason,
+    pomodoro.sequence,
+    audio.currentStation?.stationuuid,
+    audio.isPlaying,
+  ]);
+
+  useEffect(() => {
+    if (!isHost) return;
+    sendSnapshot(createSnapshot());
+  }, [isHost, snapshotKey, sendSnapshot, createSnapshot]); // snapshotKey covers the snapshot contents
+
+  // Carry out controls forwarded by members
+  useEffect(() => {
+    if (!isHost) return;
+
+    setCommandHandler((command: RoomCommand, from: string) => {
+      console.log(`👥 ${from} asked the room to ${command.type}`);
+      const current = pomodoroRef.current;
+      switch (command.type) {
+        case 'start':
+          current.start();
+          break;
+        case 'pause':
+          current.pause(command.reason);
+          break;
+        case 'reset':
+          current.reset();
+          break;
+        case 'skip':
+          current.skip();
+          break;
+      }
+    });
+    return () => setCommandHandler(null);
+  }, [isHost, setCommandHandler]);
+
+  // Follow the host's timer, recording and announcing its skips, resets, pauses and resumes
+  // here too. Interruptions and the break radio's lead time stay personal.
+  useEffect(() => {
+    if (!isMember || !snapshot) return;
+
+    const local = pomodoroRef.current;
+    const host = snapshot.state;
+    const samePhase = local.stepIndex === host.stepIndex && local.currentCycle === host.currentCycle;
+    local.syncState({
+      ...host,
+      preRollFiredFor: samePhase ? local.preRollFiredFor : null,
+      meetingUntil: null,
+      interruptions: samePhase ? local.interruptions : [],
+    }, true);
+  }, [isMember, snapshot]);
+
+  // Play whatever the host is playing when the room shares its station
+  const hostStation = isMember && sharedStation ? snapshot?.station ?? null : null;
+  const hostIsPlaying = isMember && sharedStation && (snapshot?.isPlaying ?? false);
+
+  useEffect(() => {
+    if (!isMember || !sharedStation) return;
+
+    const { audio: localAudio } = pomodoroRef.current;
+    if (hostIsPlaying && hostStation) {
+      if (hostStation.stationuuid === localAudio.currentStation?.stationuuid && localAudio.isPlaying) return;
+      localAudio.playStation(hostStation)
+        .then(() => onStationSelected?.(hostStation))
+        .catch(error => console.warn('Could not play the room station:', error));
+    } else if (localAudio.isPlaying || localAudio.currentStation) {
+      localAudio.stopWithFade().catch(console.error);
+    }
+  }, [isMember, sharedStation, hostStation?.stationuuid, hostIsPlaying]); // the station is only compared by id
+
+  // Let the room know whether this member is focusing or on break
+  const status = getMemberStatus(pomodoro, pomodoro.currentStep.isFocus);
+  useEffect(() => {
+    sendStatus(status);
+  }, [status, sendStatus]);
+
+  if (!isMember) return pomodoro;
+
+  return {
+    ...pomodoro,
+    start: () => sendCommand({ type: 'start' }),
+    pause: (reason?: string) => sendCommand({ type: 'pause', reason }),
+    reset: async () => sendCommand({ type: 'reset' }),
+    skip: () => sendCommand({ type: 'skip' }),
+    // The host's session is the one that matters while in a room
+    savedSession: null,
+  };
+}
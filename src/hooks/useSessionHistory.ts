@@ -0,0 +1,59 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { PhaseHistoryEntry } from '@/types/history';
+import { addHistoryEntry, addHistoryEntries, getHistoryEntries, clearHistory as clearHistoryStore } from '@/lib/historyStore';
+
+export function useSessionHistory() {
+  const [entries, setEntries] = useState<PhaseHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Load history from IndexedDB
+  useEffect(() => {
+    getHistoryEntries()
+      .then(setEntries)
+      .catch(error => console.error('Failed to load session history:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const recordEntry = useCallback((entry: PhaseHistoryEntry) => {
+    addHistoryEntry(entry)
+      .then(saved => setEntries(prev => [...prev, saved]))
+      .catch(error => console.error('Failed to save session history entry:', error));
+  }, []);
+
+  // Add imported entries, skipping phases that are already in the history.
+  // Resolves to the number of entries added.
+  const importEntries = useCallback(async (imported: PhaseHistoryEntry[]): Promise<number> => {
+    const getKey = (entry: PhaseHistoryEntry) => `${entry.phase}|${entry.startedAt}|${entry.endedAt}`;
+    const existing = new Set(entries.map(getKey));
+    const added = imported.filter(entry => {
+      const key = getKey(entry);
+      if (existing.has(key)) return false;
+      existing.add(key);
+      return true;
+    });
+    if (added.length === 0) return 0;
+
+    const saved = await addHistoryEntries(added);
+    setEntries(prev => [...prev, ...saved].sort((a, b) => a.endedAt - b.endedAt));
+    return saved.length;
+  }, [entries]);
+
+  const clearHistory = useCallback(async () => {
+    try {
+      await clearHistoryStore();
+      setEntries([]);
+    } catch (error) {
+      console.error('Failed to clear session history:', error);
+    }
+  }, []);
+
+  return {
+    entries,
+    loading,
+    recordEntry,
+    importEntries,
+    clearHistory,
+  };
+}
@@ -0,0 +1,41 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { StationFilters } from '@/types/radio';
+import { STATION_FILTERS_STORAGE_KEY, DEFAULT_STATION_FILTERS, sanitizeStationFilters, hasStationFilters } from '@/lib/stationFilters';
+
+export function useStationFilters() {
+  const [filters, setFilters] = useState<StationFilters>(DEFAULT_STATION_FILTERS);
+
+  // Load filters from localStorage
+  useEffect(() => {
+    const saved = localStorage.getItem(STATION_FILTERS_STORAGE_KEY);
+    if (saved) {
+      try {
+        setFilters(sanitizeStationFilters(JSON.parse(saved)));
+      } catch (error) {
+        console.error('Failed to load station filters:', error);
+      }
+    }
+  }, []);
+
+  const saveFilters = (next: StationFilters) => {
+    localStorage.setItem(STATION_FILTERS_STORAGE_KEY, JSON.stringify(next));
+    return next;
+  };
+
+  const updateFilters = useCallback((changes: Partial<StationFilters>) => {
+    setFilters(prev => saveFilters(sanitizeStationFilters({ ...prev, ...changes })));
+  }, []);
+
+  const resetFilters = useCallback(() => {
+    setFilters(saveFilters(DEFAULT_STATION_FILTERS));
+  }, []);
+
+  return {
+    filters,
+    isActive: hasStationFilters(filters),
+    updateFilters,
+    resetFilters,
+  };
+}
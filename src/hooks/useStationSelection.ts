@@ -0,0 +1,90 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { RadioStation, StationRating, StationReliability, StationSelectionSettings } from '@/types/radio';
+import {
+  STATION_RATINGS_STORAGE_KEY,
+  STATION_SELECTION_STORAGE_KEY,
+  DEFAULT_SELECTION_SETTINGS,
+  sanitizeSelectionSettings,
+} from '@/lib/stationSelection';
+import {
+  STATION_RELIABILITY_STORAGE_KEY,
+  recordReliabilityAttempt,
+  recordReliabilityStall,
+  sanitizeReliability,
+} from '@/lib/stationReliability';
+
+/**
+ * What the break station picker learns from the listener and the streams: ratings,
+ * how reliably each station plays, and how adventurous the picks should be
+ */
+export function useStationSelection() {
+  const [ratings, setRatings] = useState<Record<string, StationRating>>({});
+  const [reliability, setReliability] = useState<Record<string, StationReliability>>({});
+  const [settings, setSettings] = useState<StationSelectionSettings>(DEFAULT_SELECTION_SETTINGS);
+
+  // Load from localStorage
+  useEffect(() => {
+    try {
+      const savedRatings = localStorage.getItem(STATION_RATINGS_STORAGE_KEY);
+      if (savedRatings) setRatings(JSON.parse(savedRatings));
+      const savedReliability = localStorage.getItem(STATION_RELIABILITY_STORAGE_KEY);
+      if (savedReliability) setReliability(sanitizeReliability(JSON.parse(savedReliability)));
+      const savedSettings = localStorage.getItem(STATION_SELECTION_STORAGE_KEY);
+      if (savedSettings) setSettings(sanitizeSelectionSettings(JSON.parse(savedSettings)));
+    } catch (error) {
+      console.error('Failed to load station preferences:', error);
+    }
+  }, []);
+
+  // Rate a station, or pass null to clear its rating
+  const rateStation = useCallback((station: RadioStation, rating: StationRating | null) => {
+    setRatings(prev => {
+      const next = { ...prev };
+      if (rating === null) {
+        delete next[station.stationuuid];
+      } else {
+        next[station.stationuuid] = rating;
+      }
+      localStorage.setItem(STATION_RATINGS_STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  // A play or probe of a station, with how long the first audio took when it worked
+  const recordAttempt = useCallback((station: RadioStation, ok: boolean, startMs: number | null = null) => {
+    setReliability(prev => {
+      const next = { ...prev, [station.stationuuid]: recordReliabilityAttempt(prev[station.stationuuid], ok, startMs) };
+      localStorage.setItem(STATION_RELIABILITY_STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  // The station stopped to buffer while playing
+  const recordStall = useCallback((station: RadioStation) => {
+    setReliability(prev => {
+      const next = { ...prev, [station.stationuuid]: recordReliabilityStall(prev[station.stationuuid]) };
+      localStorage.setItem(STATION_RELIABILITY_STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  const updateSettings = useCallback((changes: Partial<StationSelectionSettings>) => {
+    setSettings(prev => {
+      const next = sanitizeSelectionSettings({ ...prev, ...changes });
+      localStorage.setItem(STATION_SELECTION_STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  return {
+    ratings,
+    reliability,
+    settings,
+    rateStation,
+    recordAttempt,
+    recordStall,
+    updateSettings,
+  };
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+const LEADER_LOCK_NAME = 'pomoradio-leader';
+
+interface TabLeadershipOptions {
+  canLead?: boolean; // false for windows that only ever mirror, like the mini timer
+}
+
+/**
+ * Elect one tab to own the timer and audio. The leader holds a Web Lock until it closes,
+ * at which point the browser grants it to the next waiting tab. Browsers without Web
+ * Locks or BroadcastChannel treat every tab as a leader, as before multi-tab sync.
+ */
+export function useTabLeadership({ canLead = true }: TabLeadershipOptions = {}) {
+  const [isLeader, setIsLeader] = useState(false);
+  const [tabId] = useState(() =>
+    typeof crypto !== 'undefined' && 'randomUUID' in crypto
+      ? crypto.randomUUID()
+      : `${Date.now()}-${Math.random().toString(36).slice(2)}`
+  );
+
+  useEffect(() => {
+    if (!canLead) return;
+    if (!('locks' in navigator) || !('BroadcastChannel' in window)) {
+      setIsLeader(true);
+      return;
+    }
+
+    const controller = new AbortController();
+    let release: (() => void) | null = null;
+
+    navigator.locks.request(LEADER_LOCK_NAME, { signal: controller.signal }, () => {
+      setIsLeader(true);
+      // Hold the lock until this tab goes away
+      return new Promise<void>(resolve => {
+        release = resolve;
+      });
+    }).catch(error => {
+      if (error?.name !== 'AbortError') {
+        console.error('Tab leader election failed:', error);
+      }
+    });
+
+    return () => {
+      controller.abort();
+      release?.();
+      setIsLeader(false);
+    };
+  }, [canLead]);
+
+  return { tabId, isLeader };
+}
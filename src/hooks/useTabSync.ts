@@ -0,0 +1,225 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { TabCommand, TabSnapshot, TabSyncMessage } from '@/types/tabSync';
+import type { RadioStation } from '@/types/radio';
+import type { InterruptionKind } from '@/types/history';
+import { usePomodoro } from './usePomodoro';
+import { useTabLeadership } from './useTabLeadership';
+
+const SYNC_CHANNEL_NAME = 'pomoradio-sync';
+
+type Pomodoro = ReturnType<typeof usePomodoro>;
+
+/**
+ * Keep tabs in step. The leader broadcasts its timer state and playback, and carries out
+ * controls forwarded by followers. Followers mirror the leader and get back a pomodoro
+ * whose controls are forwarded, so components don't need to know which tab they're in.
+ */
+export function useTabSync(pomodoro: Pomodoro, leadership: ReturnType<typeof useTabLeadership>): Pomodoro {
+  const { tabId, isLeader } = leadership;
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  // Latest snapshot from the leader, while following
+  const [remote, setRemote] = useState<TabSnapshot | null>(null);
+  const remoteRef = useRef(remote);
+  remoteRef.current = remote;
+
+  const pomodoroRef = useRef(pomodoro);
+  pomodoroRef.current = pomodoro;
+
+  useEffect(() => {
+    if (!('BroadcastChannel' in window)) return;
+
+    const channel = new BroadcastChannel(SYNC_CHANNEL_NAME);
+    channelRef.current = channel;
+    return () => {
+      channelRef.current = null;
+      channel.close();
+    };
+  }, []);
+
+  const post = useCallback((message: TabSyncMessage) => {
+    channelRef.current?.postMessage(message);
+  }, []);
+
+  const createSnapshot = useCallback((): TabSnapshot => {
+    const { audio, ...current } = pomodoroRef.current;
+    return {
+      state: {
+        phase: current.phase,
+        stepIndex: current.stepIndex,
+        phaseDuration: current.phaseDuration,
+        timeRemaining: current.timeRemaining,
+        phaseStartedAt: current.phaseStartedAt,
+        phaseEndsAt: current.phaseEndsAt,
+        isRunning: current.isRunning,
+        completedSessions: current.completedSessions,
+        currentCycle: current.currentCycle,
+        preRollFiredFor: current.preRollFiredFor,
+        meetingUntil: current.meetingUntil,
+        interruptions: current.interruptions,
+        pausedAt: current.pausedAt,
+        pauseReason: current.pauseReason,
+      },
+      station: audio.currentStation,
+      isPlaying: audio.isPlaying,
+      volume: audio.volume,
+    };
+  }, []);
+
+  // Carry out a control forwarded by a follower
+  const runCommand = useCallback((command: TabCommand) => {
+    const { audio, ...current } = pomodoroRef.current;
+    switch (command.type) {
+      case 'start':
+        current.start();
+        break;
+      case 'pause':
+        current.pause(command.reason);
+        break;
+      case 'interrupt':
+        current.logInterruption(command.kind, command.at);
+        break;
+      case 'noteInterruption':
+        current.noteInterruption(command.at, command.reason);
+        break;
+      case 'reset':
+        current.reset();
+        break;
+      case 'skip':
+        current.skip();
+        break;
+      case 'playStation':
+        audio.playStation(command.station).catch(console.error);
+        break;
+      case 'pauseRadio':
+        audio.pause();
+        break;
+      case 'resumeRadio':
+        audio.resume();
+        break;
+      case 'stopRadio':
+        audio.stopWithFade().catch(console.error);
+        break;
+      case 'setVolume':
+        audio.setVolume(command.volume);
+        break;
+    }
+  }, []);
+
+  useEffect(() => {
+    const channel = channelRef.current;
+    if (!channel) return;
+
+    const handleMessage = (event: MessageEvent<TabSyncMessage>) => {
+      const message = event.data;
+      if (isLeader) {
+        if (message.type === 'hello') {
+          post({ type: 'snapshot', tabId, snapshot: createSnapshot() });
+        } else if (message.type === 'command') {
+          runCommand(message.command);
+        }
+      } else if (message.type === 'snapshot' || message.type === 'handover') {
+        setRemote(message.snapshot);
+        pomodoroRef.current.syncState(message.snapshot.state);
+      }
+    };
+
+    channel.addEventListener('message', handleMessage);
+    return () => channel.removeEventListener('message', handleMessage);
+  }, [isLeader, tabId, post, createSnapshot, runCommand]);
+
+  // Followers ask for the current snapshot. A tab taking over leadership picks up
+  // the radio where the old leader left it.
+  useEffect(() => {
+    if (!isLeader) {
+      post({ type: 'hello', tabId });
+      return;
+    }
+
+    const inherited = remoteRef.current;
+    if (!inherited) return;
+    setRemote(null);
+
+    console.log('👑 This tab now owns the timer and audio');
+    const { audio } = pomodoroRef.current;
+    audio.setVolume(inherited.volume);
+    if (inherited.isPlaying && inherited.station) {
+      audio.playStation(inherited.station).catch(error => {
+        // Autoplay may be blocked until the user interacts with this tab
+        console.warn('Could not resume the radio after taking over:', error);
+      });
+    }
+  }, [isLeader, tabId, post]);
+
+  // Broadcast every change the followers can see
+  const { audio } = pomodoro;
+  const snapshotKey = JSON.stringify([
+    pomodoro.phase,
+    pomodoro.stepIndex,
+    pomodoro.phaseDuration,
+    pomodoro.timeRemaining,
+    pomodoro.phaseEndsAt,
+    pomodoro.isRunning,
+    pomodoro.completedSessions,
+    pomodoro.currentCycle,
+    pomodoro.meetingUntil,
+    pomodoro.interruptions,
+    pomodoro.pauseReason,
+    audio.currentStation?.stationuuid,
+    audio.isPlaying,
+    audio.volume,
+  ]);
+
+  useEffect(() => {
+    if (!isLeader) return;
+    post({ type: 'snapshot', tabId, snapshot: createSnapshot() });
+  }, [isLeader, snapshotKey, tabId, post, createSnapshot]); // snapshotKey covers the snapshot contents
+
+  // Hand the final snapshot over when the leader closes
+  useEffect(() => {
+    if (!isLeader) return;
+
+    const handlePageHide = () => {
+      post({ type: 'handover', tabId, snapshot: createSnapshot() });
+    };
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, [isLeader, tabId, post, createSnapshot]);
+
+  if (isLeader || !channelRef.current) return pomodoro;
+
+  const forward = (command: TabCommand) => post({ type: 'command', tabId, command });
+
+  return {
+    ...pomodoro,
+    start: () => forward({ type: 'start' }),
+    pause: (reason?: string) => forward({ type: 'pause', reason }),
+    // Logged at this tab's time, so a reason given here finds it on the leader
+    logInterruption: (kind: InterruptionKind, at: number = Date.now()) => {
+      forward({ type: 'interrupt', kind, at });
+      return at;
+    },
+    noteInterruption: (at: number, reason: string) => forward({ type: 'noteInterruption', at, reason }),
+    reset: async () => forward({ type: 'reset' }),
+    skip: () => forward({ type: 'skip' }),
+    // The leader offers to resume saved sessions
+    savedSession: null,
+    audio: {
+      ...audio,
+      currentStation: remote?.station ?? null,
+      isPlaying: remote?.isPlaying ?? false,
+      volume: remote?.volume ?? audio.volume,
+      // The leader loads the station, so its load time isn't known here
+      playStation: async (station: RadioStation) => {
+        forward({ type: 'playStation', station });
+        return null;
+      },
+      pause: () => forward({ type: 'pauseRadio' }),
+      resume: () => forward({ type: 'resumeRadio' }),
+      stop: () => forward({ type: 'stopRadio' }),
+      stopWithFade: async () => forward({ type: 'stopRadio' }),
+      setVolume: (volume: number) => forward({ type: 'setVolume', volume }),
+    },
+  };
+}
@@ -0,0 +1,106 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { Task } from '@/types/task';
+
+const TASKS_STORAGE_KEY = 'pomodoro-tasks';
+const ACTIVE_TASK_STORAGE_KEY = 'pomodoro-active-task';
+
+function createTaskId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+export function useTasks() {
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [activeTaskId, setActiveTaskIdState] = useState<string | null>(null);
+
+  // Load tasks from localStorage
+  useEffect(() => {
+    const savedTasks = localStorage.getItem(TASKS_STORAGE_KEY);
+    if (savedTasks) {
+      try {
+        setTasks(JSON.parse(savedTasks) as Task[]);
+      } catch (error) {
+        console.error('Failed to load tasks:', error);
+      }
+    }
+    setActiveTaskIdState(localStorage.getItem(ACTIVE_TASK_STORAGE_KEY));
+  }, []);
+
+  // Apply a change to the task list and save it
+  const saveTasks = useCallback((update: (prev: Task[]) => Task[]) => {
+    setTasks(prev => {
+      const next = update(prev);
+      localStorage.setItem(TASKS_STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  const setActiveTaskId = useCallback((taskId: string | null) => {
+    setActiveTaskIdState(taskId);
+    if (taskId) {
+      localStorage.setItem(ACTIVE_TASK_STORAGE_KEY, taskId);
+    } else {
+      localStorage.removeItem(ACTIVE_TASK_STORAGE_KEY);
+    }
+  }, []);
+
+  const addTask = useCallback((title: string, estimatedPomodoros: number) => {
+    const task: Task = {
+      id: createTaskId(),
+      title: title.trim(),
+      estimatedPomodoros: Math.max(1, Math.round(estimatedPomodoros)),
+      actualPomodoros: 0,
+      done: false,
+      createdAt: Date.now(),
+      completedAt: null,
+    };
+    saveTasks(prev => [...prev, task]);
+    return task;
+  }, [saveTasks]);
+
+  const updateTask = useCallback((taskId: string, changes: Partial<Omit<Task, 'id'>>) => {
+    saveTasks(prev => prev.map(task => task.id === taskId ? { ...task, ...changes } : task));
+  }, [saveTasks]);
+
+  const toggleDone = useCallback((taskId: string) => {
+    saveTasks(prev => prev.map(task => task.id === taskId
+      ? { ...task, done: !task.done, completedAt: task.done ? null : Date.now() }
+      : task
+    ));
+    // A finished task can't stay the active one
+    if (taskId === activeTaskId) {
+      setActiveTaskId(null);
+    }
+  }, [saveTasks, activeTaskId, setActiveTaskId]);
+
+  const removeTask = useCallback((taskId: string) => {
+    saveTasks(prev => prev.filter(task => task.id !== taskId));
+    if (taskId === activeTaskId) {
+      setActiveTaskId(null);
+    }
+  }, [saveTasks, activeTaskId, setActiveTaskId]);
+
+  // Count a finished work phase towards a task
+  const recordPomodoro = useCallback((taskId: string) => {
+    saveTasks(prev => prev.map(task => task.id === taskId
+      ? { ...task, actualPomodoros: task.actualPomodoros + 1 }
+      : task
+    ));
+  }, [saveTasks]);
+
+  const activeTask = tasks.find(task => task.id === activeTaskId && !task.done) ?? null;
+
+  return {
+    tasks,
+    activeTask,
+    setActiveTaskId,
+    addTask,
+    updateTask,
+    toggleDone,
+    removeTask,
+    recordPomodoro,
+  };
+}
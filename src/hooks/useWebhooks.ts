@@ -0,0 +1,142 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { PomodoroActivity } from '@/types/pomodoro';
+import type { Webhook, WebhookDelivery } from '@/types/webhooks';
+import {
+  WEBHOOKS_STORAGE_KEY,
+  DEFAULT_PAYLOAD_TEMPLATE,
+  getTemplateVariables,
+  renderPayload,
+  deliverWebhook,
+} from '@/lib/webhooks';
+
+const DELIVERY_LOG_STORAGE_KEY = 'pomodoro-webhook-log';
+
+// Deliveries kept in the log, newest first
+const DELIVERY_LOG_LIMIT = 50;
+
+function createId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+export function useWebhooks() {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const webhooksRef = useRef(webhooks);
+  webhooksRef.current = webhooks;
+
+  // Load webhooks and the delivery log from localStorage
+  useEffect(() => {
+    try {
+      const savedWebhooks = localStorage.getItem(WEBHOOKS_STORAGE_KEY);
+      if (savedWebhooks) setWebhooks(JSON.parse(savedWebhooks) as Webhook[]);
+      const savedLog = localStorage.getItem(DELIVERY_LOG_STORAGE_KEY);
+      if (savedLog) setDeliveries(JSON.parse(savedLog) as WebhookDelivery[]);
+    } catch (error) {
+      console.error('Failed to load webhooks:', error);
+    }
+  }, []);
+
+  const saveWebhooks = useCallback((update: (prev: Webhook[]) => Webhook[]) => {
+    setWebhooks(prev => {
+      const next = update(prev);
+      localStorage.setItem(WEBHOOKS_STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  // Add or update a delivery in the log
+  const logDelivery = useCallback((delivery: WebhookDelivery) => {
+    setDeliveries(prev => {
+      const next = [delivery, ...prev.filter(entry => entry.id !== delivery.id)].slice(0, DELIVERY_LOG_LIMIT);
+      localStorage.setItem(DELIVERY_LOG_STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  const addWebhook = useCallback(() => {
+    saveWebhooks(prev => [...prev, {
+      id: createId(),
+      name: `Webhook ${prev.length + 1}`,
+      url: '',
+      events: ['phaseStarted', 'phaseEnded'],
+      payloadTemplate: DEFAULT_PAYLOAD_TEMPLATE,
+      enabled: true,
+    }]);
+  }, [saveWebhooks]);
+
+  const updateWebhook = useCallback((id: string, changes: Partial<Omit<Webhook, 'id'>>) => {
+    saveWebhooks(prev => prev.map(webhook => (webhook.id === id ? { ...webhook, ...changes } : webhook)));
+  }, [saveWebhooks]);
+
+  const deleteWebhook = useCallback((id: string) => {
+    saveWebhooks(prev => prev.filter(webhook => webhook.id !== id));
+  }, [saveWebhooks]);
+
+  const clearDeliveries = useCallback(() => {
+    setDeliveries([]);
+    localStorage.removeItem(DELIVERY_LOG_STORAGE_KEY);
+  }, []);
+
+  // Send one activity to one webhook, logging every attempt
+  const send = useCallback(async (webhook: Webhook, activity: PomodoroActivity) => {
+    const delivery: WebhookDelivery = {
+      id: createId(),
+      webhookId: webhook.id,
+      webhookName: webhook.name,
+      event: activity.type,
+      status: 'pending',
+      attempts: 0,
+      createdAt: Date.now(),
+    };
+
+    let payload: unknown;
+    try {
+      payload = renderPayload(webhook.payloadTemplate, getTemplateVariables(activity));
+    } catch {
+      logDelivery({ ...delivery, status: 'failed', error: 'Payload template is not valid JSON' });
+      return;
+    }
+
+    logDelivery(delivery);
+    let attempts = 0;
+    const result = await deliverWebhook(webhook, payload, (attempt, response) => {
+      attempts = attempt;
+      logDelivery({ ...delivery, attempts, statusCode: response.status, error: response.error });
+    });
+    logDelivery({
+      ...delivery,
+      status: result.ok ? 'delivered' : 'failed',
+      attempts,
+      statusCode: result.status,
+      error: result.error,
+    });
+  }, [logDelivery]);
+
+  // Fire every enabled webhook subscribed to the activity
+  const handleActivity = useCallback((activity: PomodoroActivity) => {
+    webhooksRef.current
+      .filter(webhook => webhook.enabled && webhook.url && webhook.events.includes(activity.type))
+      .forEach(webhook => {
+        send(webhook, activity).catch(console.error);
+      });
+  }, [send]);
+
+  const sendTest = useCallback((webhook: Webhook, activity: PomodoroActivity) => {
+    send(webhook, activity).catch(console.error);
+  }, [send]);
+
+  return {
+    webhooks,
+    deliveries,
+    addWebhook,
+    updateWebhook,
+    deleteWebhook,
+    clearDeliveries,
+    handleActivity,
+    sendTest,
+  };
+}
@@ -0,0 +1,123 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { RadioStation } from '@/types/radio';
+import type { Continent, TourRoute, TourStop, WorldTour } from '@/types/tour';
+import { TOUR_STORAGE_KEY, MAX_TOUR_STOPS, createTourStop, getNextTourStop, sanitizeTour } from '@/lib/tour';
+
+function createId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * A world tour: an itinerary of stations that breaks play one after another, plus the
+ * route the user is drawing on the globe before a custom tour starts
+ */
+export function useWorldTour() {
+  const [tour, setTour] = useState<WorldTour | null>(null);
+  // Stops picked on the globe for a custom route, null when not drawing
+  const [draft, setDraft] = useState<TourStop[] | null>(null);
+  // The timer reads and advances the tour while playing, ahead of the next render
+  const tourRef = useRef<WorldTour | null>(null);
+
+  const saveTour = useCallback((next: WorldTour | null) => {
+    tourRef.current = next;
+    setTour(next);
+    if (next) {
+      localStorage.setItem(TOUR_STORAGE_KEY, JSON.stringify(next));
+    } else {
+      localStorage.removeItem(TOUR_STORAGE_KEY);
+    }
+  }, []);
+
+  // Load the tour in progress, and follow it as the tab playing the radio advances it
+  useEffect(() => {
+    const load = () => {
+      try {
+        const saved = localStorage.getItem(TOUR_STORAGE_KEY);
+        const loaded = saved ? sanitizeTour(JSON.parse(saved)) : null;
+        tourRef.current = loaded;
+        setTour(loaded);
+      } catch (error) {
+        console.error('Failed to load world tour:', error);
+      }
+    };
+    load();
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === TOUR_STORAGE_KEY) load();
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  const startTour = useCallback((route: TourRoute, stops: TourStop[], continent: Continent | null = null) => {
+    if (stops.length === 0) return;
+    setDraft(null);
+    saveTour({ id: createId(), route, continent, stops, startedAt: Date.now() });
+  }, [saveTour]);
+
+  const endTour = useCallback(() => {
+    saveTour(null);
+  }, [saveTour]);
+
+  // The station the next break should play, or null when the tour is over
+  const getNextStop = useCallback((): RadioStation | null => {
+    return getNextTourStop(tourRef.current)?.station ?? null;
+  }, []);
+
+  // Mark the next stop as heard, or skip it when its stream failed
+  const completeStop = useCallback((station: RadioStation, played: boolean) => {
+    const current = tourRef.current;
+    const next = getNextTourStop(current);
+    if (!current || next?.station.stationuuid !== station.stationuuid) return;
+
+    saveTour({
+      ...current,
+      stops: current.stops.map(stop => (stop === next ? { ...stop, status: played ? 'played' : 'skipped' } : stop)),
+    });
+  }, [saveTour]);
+
+  const startDrawing = useCallback(() => {
+    setDraft([]);
+  }, []);
+
+  const cancelDrawing = useCallback(() => {
+    setDraft(null);
+  }, []);
+
+  const addDraftStop = useCallback((station: RadioStation) => {
+    const stop = createTourStop(station);
+    if (!stop) {
+      console.warn(`${station.name} has no location and can't be a tour stop`);
+      return;
+    }
+    setDraft(prev => {
+      if (!prev || prev.length >= MAX_TOUR_STOPS) return prev;
+      // Clicking the last stop again doesn't add it twice
+      if (prev[prev.length - 1]?.station.stationuuid === station.stationuuid) return prev;
+      return [...prev, stop];
+    });
+  }, []);
+
+  const removeDraftStop = useCallback((index: number) => {
+    setDraft(prev => prev && prev.filter((_, i) => i !== index));
+  }, []);
+
+  return {
+    tour,
+    draft,
+    isDrawing: draft !== null,
+    isActive: getNextTourStop(tour) !== null,
+    startTour,
+    endTour,
+    getNextStop,
+    completeStop,
+    startDrawing,
+    cancelDrawing,
+    addDraftStop,
+    removeDraftStop,
+  };
+}
@@ -0,0 +1,97 @@
+import type { ChimeSound } from '@/types/alerts';
+
+interface ChimeNote {
+  frequency: number; // Hz
+  start: number; // seconds after the chime starts
+  duration: number; // decay time in seconds
+  type: OscillatorType;
+  partials?: number[]; // extra overtones as multiples of the frequency
+}
+
+export const CHIME_SOUNDS: Record<ChimeSound, { label: string; notes: ChimeNote[] }> = {
+  bell: {
+    label: 'Bell',
+    notes: [
+      { frequency: 880, start: 0, duration: 2.2, type: 'sine', partials: [2.76, 5.4] },
+      { frequency: 1318.5, start: 0.25, duration: 2, type: 'sine', partials: [2.76] },
+    ],
+  },
+  bowl: {
+    label: 'Singing bowl',
+    notes: [
+      { frequency: 262, start: 0, duration: 3.5, type: 'sine', partials: [2.71, 4.95] },
+    ],
+  },
+  marimba: {
+    label: 'Marimba',
+    notes: [
+      { frequency: 523.3, start: 0, duration: 0.6, type: 'sine', partials: [4] },
+      { frequency: 659.3, start: 0.15, duration: 0.6, type: 'sine', partials: [4] },
+      { frequency: 784, start: 0.3, duration: 0.9, type: 'sine', partials: [4] },
+    ],
+  },
+  digital: {
+    label: 'Digital',
+    notes: [
+      { frequency: 1046.5, start: 0, duration: 0.15, type: 'square' },
+      { frequency: 1046.5, start: 0.25, duration: 0.15, type: 'square' },
+    ],
+  },
+};
+
+let audioContext: AudioContext | null = null;
+
+function getAudioContext(): AudioContext | null {
+  if (typeof window === 'undefined' || !('AudioContext' in window)) return null;
+  if (!audioContext) {
+    audioContext = new AudioContext();
+  }
+  return audioContext;
+}
+
+/**
+ * Total length of a chime in seconds, used to duck other audio while it plays
+ */
+export function getChimeDuration(sound: ChimeSound): number {
+  return Math.max(...CHIME_SOUNDS[sound].notes.map(note => note.start + note.duration));
+}
+
+/**
+ * Synthesize a chime with Web Audio, so no sound files need to be shipped
+ */
+export async function playChime(sound: ChimeSound, volume: number): Promise<void> {
+  const context = getAudioContext();
+  if (!context) return;
+
+  // Browsers suspend contexts created before a user gesture
+  if (context.state === 'suspended') {
+    await context.resume();
+  }
+
+  const output = context.createGain();
+  output.gain.value = Math.max(0, Math.min(1, volume));
+  output.connect(context.destination);
+
+  CHIME_SOUNDS[sound].notes.forEach(note => {
+    const startTime = context.currentTime + note.start;
+    const endTime = startTime + note.duration;
+
+    [1, ...(note.partials ?? [])].forEach((multiple, index) => {
+      const oscillator = context.createOscillator();
+      const envelope = context.createGain();
+      // Overtones are quieter and die away faster than the fundamental
+      const peak = (note.type === 'square' ? 0.15 : 0.4) / (index + 1);
+
+      oscillator.type = note.type;
+      oscillator.frequency.value = note.frequency * multiple;
+      envelope.gain.setValueAtTime(0.0001, startTime);
+      envelope.gain.exponentialRampToValueAtTime(peak, startTime + 0.01);
+      envelope.gain.exponentialRampToValueAtTime(0.0001, startTime + note.duration / (index + 1));
+
+      oscillator.connect(envelope);
+      envelope.connect(output);
+      oscillator.start(startTime);
+      oscillator.stop(endTime);
+    });
+  });
+}
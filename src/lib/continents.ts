@@ -0,0 +1,31 @@
+import type { Continent } from '@/types/tour';
+
+export const CONTINENT_LABELS: Record<Continent, string> = {
+  africa: 'Africa',
+  asia: 'Asia',
+  europe: 'Europe',
+  northAmerica: 'North America',
+  southAmerica: 'South America',
+  oceania: 'Oceania',
+};
+
+// ISO 3166-1 alpha-2 codes by continent. Transcontinental countries go where most of
+// their people live, e.g. Russia in Europe and Turkey in Asia.
+const CONTINENT_COUNTRIES: Record<Continent, string> = {
+  africa: 'DZ AO BJ BW BF BI CV CM CF TD KM CD CG CI DJ EG GQ ER SZ ET GA GM GH GN GW KE LS LR LY MG MW ML MR MU YT MA MZ NA NE NG RE RW SH ST SN SC SL SO ZA SS SD TZ TG TN UG EH ZM ZW',
+  asia: 'AF AM AZ BH BD BT BN KH CN CY GE HK IN ID IR IQ IL JO JP KZ KW KG LA LB MO MY MV MN MM NP KP OM PK PS PH QA SA SG KR LK SY TW TJ TH TL TR TM AE UZ VN YE',
+  europe: 'AX AL AD AT BY BE BA BG HR CZ DK EE FO FI FR DE GI GR GG HU IS IE IM IT JE XK LV LI LT LU MT MD MC ME NL MK NO PL PT RO RU SM RS SK SI ES SJ SE CH UA GB VA',
+  northAmerica: 'AI AG AW BS BB BZ BM BQ VG CA KY CR CU CW DM DO SV GL GD GP GT HT HN JM MQ MX MS NI PA PR BL KN LC MF PM VC SX TT TC US VI',
+  southAmerica: 'AR BO BR CL CO EC FK GF GY PY PE SR UY VE',
+  oceania: 'AS AU CK FJ PF GU KI MH FM NR NC NZ NU NF MP PW PG PN WS SB TK TO TV UM VU WF',
+};
+
+const CONTINENT_BY_COUNTRY = new Map<string, Continent>(
+  (Object.entries(CONTINENT_COUNTRIES) as [Continent, string][]).flatMap(([continent, codes]) =>
+    codes.split(' ').map(code => [code, continent] as const)
+  )
+);
+
+export function getContinent(countrycode: string | undefined): Continent | null {
+  return CONTINENT_BY_COUNTRY.get(countrycode?.toUpperCase() ?? '') ?? null;
+}
@@ -0,0 +1,48 @@
+/**
+ * Score how well a query matches some text, or null if it doesn't. Substring matches
+ * rank first; otherwise every query character must appear in order, with bonuses for
+ * consecutive characters and word starts.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const q = query.trim().toLowerCase();
+  const t = text.toLowerCase();
+  if (!q) return 0;
+
+  const index = t.indexOf(q);
+  if (index !== -1) {
+    // Earlier and word-start matches rank higher
+    const atWordStart = index === 0 || /\W/.test(t[index - 1]);
+    return 1000 - index + (atWordStart ? 100 : 0);
+  }
+
+  let score = 0;
+  let textIndex = 0;
+  let previousMatch = -2;
+
+  for (const char of q) {
+    if (char === ' ') continue;
+    const match = t.indexOf(char, textIndex);
+    if (match === -1) return null;
+
+    score += 1;
+    if (match === previousMatch + 1) score += 5;
+    if (match === 0 || /\W/.test(t[match - 1])) score += 3;
+
+    previousMatch = match;
+    textIndex = match + 1;
+  }
+
+  return score;
+}
+
+/**
+ * The best matching items for a query, best first
+ */
+export function fuzzySearch<T>(items: T[], query: string, getText: (item: T) => string, limit: number): T[] {
+  return items
+    .map(item => ({ item, score: fuzzyScore(query, getText(item)) }))
+    .filter((result): result is { item: T; score: number } => result.score !== null)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(result => result.item);
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import type { PhaseHistoryEntry } from '@/types/history';
+import { parseHistoryJson, toIcs } from '@/lib/historyExport';
+import { computeHistoryStats } from '@/lib/historyStats';
+
+const entry: PhaseHistoryEntry = {
+  phase: 'work',
+  label: 'Focus Time',
+  isFocus: true,
+  outcome: 'completed',
+  startedAt: Date.UTC(2026, 0, 5, 9),
+  endedAt: Date.UTC(2026, 0, 5, 9, 25),
+  plannedDuration: 1500,
+  actualDuration: 1500,
+  taskTitle: 'Überarbeitung der Präsentation für das Quartalstreffen 🎯 mit Grüßen an das ganze Team',
+};
+
+describe('toIcs', () => {
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const lines = toIcs([entry]).split('\r\n');
+    const encoder = new TextEncoder();
+
+    lines.forEach(line => {
+      expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+      expect(line).not.toContain('�');
+    });
+
+    const unfolded = lines.join('\r\n').replace(/\r\n /g, '');
+    expect(unfolded).toContain(`SUMMARY:Focus Time: ${entry.taskTitle}`);
+  });
+});
+
+describe('parseHistoryJson', () => {
+  it('drops optional fields of the wrong type', () => {
+    const file = JSON.stringify({
+      app: 'pomoradio',
+      version: 1,
+      exportedAt: new Date(entry.endedAt).toISOString(),
+      entries: [
+        { ...entry, id: 7, taskTitle: 42, interruptions: 'many' },
+        { ...entry, phase: 'paused', isFocus: 'no', reason: 5, stationId: null },
+        { ...entry, interruptions: [{ kind: 'internal', at: entry.startedAt, reason: 'Email' }, { kind: 'internal', at: 'later', reason: 3 }, null] },
+      ],
+    });
+
+    const imported = parseHistoryJson(file);
+    expect(imported).toHaveLength(3);
+    expect(imported[0]).not.toHaveProperty('id');
+    expect(imported[0]).not.toHaveProperty('taskTitle');
+    expect(imported[0]).not.toHaveProperty('interruptions');
+    expect(imported[1]).not.toHaveProperty('isFocus');
+    expect(imported[1]).not.toHaveProperty('reason');
+    expect(imported[1]).not.toHaveProperty('stationId');
+    expect(imported[2].interruptions).toEqual([{ kind: 'internal', at: entry.startedAt, reason: 'Email' }]);
+
+    expect(computeHistoryStats(imported, entry.endedAt).topInterruptionReasons).toEqual([{ reason: 'Email', count: 1 }]);
+  });
+});
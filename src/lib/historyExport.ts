@@ -0,0 +1,244 @@
+import type { Interruption, InterruptionKind, PhaseHistoryEntry, PhaseOutcome } from '@/types/history';
+import { getPhaseTitle } from '@/lib/sequences';
+
+export type HistoryExportFormat = 'csv' | 'json' | 'ics';
+
+// Wrapper written by the JSON export and expected by the import
+interface HistoryExportFile {
+  app: 'pomoradio';
+  version: 1;
+  exportedAt: string;
+  entries: PhaseHistoryEntry[];
+}
+
+const OUTCOMES: PhaseOutcome[] = ['completed', 'skipped', 'reset'];
+const INTERRUPTION_KINDS: InterruptionKind[] = ['internal', 'external'];
+// Optional text fields of an entry, dropped on import unless they hold text
+const OPTIONAL_TEXT_FIELDS = ['label', 'taskId', 'taskTitle', 'stationId', 'stationName', 'stationCountry', 'reason'] as const;
+
+const CSV_COLUMNS = [
+  'phase',
+  'label',
+  'focus',
+  'outcome',
+  'start',
+  'end',
+  'planned_minutes',
+  'actual_minutes',
+  'task',
+  'station',
+  'station_country',
+  'internal_interruptions',
+  'external_interruptions',
+  'reason',
+] as const;
+
+/**
+ * Entries that ended within a range of epoch ms, either end open
+ */
+export function filterEntriesByRange(entries: PhaseHistoryEntry[], from?: number, to?: number): PhaseHistoryEntry[] {
+  return entries.filter(entry =>
+    (from === undefined || entry.endedAt >= from) &&
+    (to === undefined || entry.endedAt <= to)
+  );
+}
+
+function getEntryLabel(entry: PhaseHistoryEntry): string {
+  return entry.label ?? getPhaseTitle(entry.phase);
+}
+
+function isFocusEntry(entry: PhaseHistoryEntry): boolean {
+  return entry.isFocus ?? entry.phase === 'work';
+}
+
+// Quote a CSV field when it contains a delimiter, quote or line break
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function toCsv(entries: PhaseHistoryEntry[]): string {
+  const rows = entries.map(entry => [
+    entry.phase,
+    getEntryLabel(entry),
+    isFocusEntry(entry) ? 'yes' : 'no',
+    entry.outcome,
+    new Date(entry.startedAt).toISOString(),
+    new Date(entry.endedAt).toISOString(),
+    (entry.plannedDuration / 60).toFixed(1),
+    (entry.actualDuration / 60).toFixed(1),
+    entry.taskTitle ?? '',
+    entry.stationName ?? '',
+    entry.stationCountry ?? '',
+    String(entry.interruptions?.filter(interruption => interruption.kind === 'internal').length ?? 0),
+    String(entry.interruptions?.filter(interruption => interruption.kind === 'external').length ?? 0),
+    entry.reason ?? '',
+  ].map(escapeCsv).join(','));
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+export function toJson(entries: PhaseHistoryEntry[]): string {
+  const file: HistoryExportFile = {
+    app: 'pomoradio',
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    // IDs are local to this browser's database
+    entries: entries.map(({ id: _unused, ...entry }) => entry),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+// UTC date-time in iCalendar form, e.g. 20250104T093000Z
+function formatIcsDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Octets a code point takes up in UTF-8
+function getUtf8Length(char: string): number {
+  const codePoint = char.codePointAt(0) ?? 0;
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  if (codePoint < 0x10000) return 3;
+  return 4;
+}
+
+// Lines longer than 75 octets continue on the next line after a space (RFC 5545). Lines
+// fold between characters, never inside one.
+function foldIcsLine(line: string): string {
+  const parts: string[] = [];
+  let part = '';
+  let octets = 0;
+  for (const char of line) {
+    const length = getUtf8Length(char);
+    // Continuation lines lose an octet to their leading space
+    if (octets + length > (parts.length === 0 ? 75 : 74)) {
+      parts.push(part);
+      part = '';
+      octets = 0;
+    }
+    part += char;
+    octets += length;
+  }
+  parts.push(part);
+  return parts.join('\r\n ');
+}
+
+export function toIcs(entries: PhaseHistoryEntry[]): string {
+  const now = formatIcsDate(Date.now());
+  const events = entries.flatMap(entry => {
+    const label = getEntryLabel(entry);
+    const summary = entry.taskTitle ? `${label}: ${entry.taskTitle}` : label;
+    const description = [
+      `Outcome: ${entry.outcome}`,
+      `Planned: ${Math.round(entry.plannedDuration / 60)} min`,
+      entry.stationName && `Station: ${entry.stationName}${entry.stationCountry ? ` (${entry.stationCountry})` : ''}`,
+      entry.interruptions?.length && `Interruptions: ${entry.interruptions.length}`,
+      entry.reason && `Reason: ${entry.reason}`,
+    ].filter(Boolean).join('\n');
+
+    return [
+      'BEGIN:VEVENT',
+      `UID:${entry.startedAt}-${entry.phase}@pomoradio`,
+      `DTSTAMP:${now}`,
+      `DTSTART:${formatIcsDate(entry.startedAt)}`,
+      `DTEND:${formatIcsDate(entry.endedAt)}`,
+      `SUMMARY:${escapeIcsText(summary)}`,
+      `DESCRIPTION:${escapeIcsText(description)}`,
+      `CATEGORIES:${isFocusEntry(entry) ? 'Focus' : entry.phase === 'paused' ? 'Pause' : 'Break'}`,
+      'END:VEVENT',
+    ];
+  });
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//pomoradio//Session history//EN',
+    'CALSCALE:GREGORIAN',
+    ...events,
+    'END:VCALENDAR',
+  ].map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+export const EXPORT_FORMATS: Record<HistoryExportFormat, { label: string; extension: string; mimeType: string; serialize: (entries: PhaseHistoryEntry[]) => string }> = {
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv', serialize: toCsv },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json', serialize: toJson },
+  ics: { label: 'iCalendar', extension: 'ics', mimeType: 'text/calendar', serialize: toIcs },
+};
+
+function isValidEntry(value: unknown): value is PhaseHistoryEntry {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.phase === 'string' &&
+    OUTCOMES.includes(entry.outcome as PhaseOutcome) &&
+    typeof entry.startedAt === 'number' &&
+    typeof entry.endedAt === 'number' &&
+    entry.endedAt >= entry.startedAt &&
+    typeof entry.plannedDuration === 'number' &&
+    typeof entry.actualDuration === 'number'
+  );
+}
+
+function isValidInterruption(value: unknown): value is Interruption {
+  if (typeof value !== 'object' || value === null) return false;
+  const interruption = value as Record<string, unknown>;
+  return (
+    INTERRUPTION_KINDS.includes(interruption.kind as InterruptionKind) &&
+    typeof interruption.at === 'number' &&
+    (interruption.reason === undefined || typeof interruption.reason === 'string')
+  );
+}
+
+// Keep the optional fields only where they have the right type, so stats can rely on them
+function sanitizeEntry({ id: _unused, ...entry }: PhaseHistoryEntry): PhaseHistoryEntry {
+  const clean: PhaseHistoryEntry = { ...entry };
+  OPTIONAL_TEXT_FIELDS.forEach(field => {
+    if (typeof clean[field] !== 'string') delete clean[field];
+  });
+  if (typeof clean.isFocus !== 'boolean') delete clean.isFocus;
+  if (Array.isArray(clean.interruptions)) {
+    clean.interruptions = clean.interruptions.filter(isValidInterruption);
+  } else {
+    delete clean.interruptions;
+  }
+  return clean;
+}
+
+/**
+ * Read entries from a JSON export. Throws if the file isn't one; invalid entries are skipped,
+ * and optional fields of the wrong type are dropped.
+ */
+export function parseHistoryJson(text: string): PhaseHistoryEntry[] {
+  const data = JSON.parse(text) as Partial<HistoryExportFile>;
+  if (data.app !== 'pomoradio' || !Array.isArray(data.entries)) {
+    throw new Error('Not a pomoradio history export');
+  }
+
+  return data.entries
+    .filter(isValidEntry)
+    .map(sanitizeEntry);
+}
+
+// How long a download's object URL is kept before it's released
+const DOWNLOAD_URL_LIFETIME_MS = 60000;
+
+/**
+ * Offer text as a file download
+ */
+export function downloadFile(filename: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Some browsers start the download after click() returns, so keep the URL around a while
+  setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_LIFETIME_MS);
+}
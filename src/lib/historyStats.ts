@@ -0,0 +1,123 @@
+import type { PhaseHistoryEntry, HistoryStats } from '@/types/history';
+
+// How many interruption reasons the stats list
+const TOP_REASON_COUNT = 3;
+
+/**
+ * Local midnight for the given timestamp
+ */
+function startOfDay(timestamp: number): number {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+/**
+ * Local midnight on the Monday of the week containing the timestamp
+ */
+function startOfWeek(timestamp: number): number {
+  const date = new Date(startOfDay(timestamp));
+  const daysSinceMonday = (date.getDay() + 6) % 7;
+  date.setDate(date.getDate() - daysSinceMonday);
+  return date.getTime();
+}
+
+/**
+ * Move a local midnight timestamp by whole days (DST-safe)
+ */
+function addDays(timestamp: number, days: number): number {
+  const date = new Date(timestamp);
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+}
+
+function toDateKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')}`;
+}
+
+/**
+ * Sum minutes for entries that ended within [from, to)
+ */
+function sumFocusMinutes(entries: PhaseHistoryEntry[], from: number, to: number): number {
+  const seconds = entries
+    .filter(entry => entry.endedAt >= from && entry.endedAt < to)
+    .reduce((total, entry) => total + entry.actualDuration, 0);
+  return Math.round(seconds / 60);
+}
+
+/**
+ * Compute productivity statistics from the phase history
+ */
+export function computeHistoryStats(entries: PhaseHistoryEntry[], now: number = Date.now()): HistoryStats {
+  const focusEntries = entries.filter(entry => entry.isFocus ?? entry.phase === 'work');
+
+  const today = startOfDay(now);
+  const thisWeek = startOfWeek(now);
+
+  // Last 7 days, oldest first
+  const dailyFocusMinutes = Array.from({ length: 7 }, (_, i) => {
+    const dayStart = addDays(today, i - 6);
+    const dayEnd = addDays(dayStart, 1);
+    return { date: toDateKey(dayStart), minutes: sumFocusMinutes(focusEntries, dayStart, dayEnd) };
+  });
+
+  // Last 4 weeks, oldest first
+  const weeklyFocusMinutes = Array.from({ length: 4 }, (_, i) => {
+    const weekStart = addDays(thisWeek, (i - 3) * 7);
+    const weekEnd = addDays(weekStart, 7);
+    return { weekStart: toDateKey(weekStart), minutes: sumFocusMinutes(focusEntries, weekStart, weekEnd) };
+  });
+
+  // Reset phases were abandoned rather than finished or skipped, so they only count towards the total
+  const completed = focusEntries.filter(entry => entry.outcome === 'completed');
+  const skipped = focusEntries.filter(entry => entry.outcome === 'skipped');
+  const totalSessions = focusEntries.length;
+
+  const worked = focusEntries.filter(entry => entry.actualDuration > 0);
+  const averageSessionMinutes = worked.length > 0
+    ? worked.reduce((total, entry) => total + entry.actualDuration, 0) / worked.length / 60
+    : 0;
+
+  // Attribute focus time to the hour the session started in
+  const minutesByHour = new Array<number>(24).fill(0);
+  focusEntries.forEach(entry => {
+    minutesByHour[new Date(entry.startedAt).getHours()] += entry.actualDuration / 60;
+  });
+  const bestMinutes = Math.max(...minutesByHour);
+  const bestHour = bestMinutes > 0 ? minutesByHour.indexOf(bestMinutes) : null;
+
+  const interruptions = focusEntries.flatMap(entry => entry.interruptions ?? []);
+  const internalInterruptions = interruptions.filter(interruption => interruption.kind === 'internal').length;
+  const pauseEntries = entries.filter(entry => entry.phase === 'paused');
+
+  // Most common reasons given for interruptions and pauses, ignoring case
+  const reasonCounts = new Map<string, { reason: string; count: number }>();
+  [...interruptions, ...pauseEntries].forEach(({ reason }) => {
+    const trimmed = reason?.trim();
+    if (!trimmed) return;
+    const key = trimmed.toLowerCase();
+    const counted = reasonCounts.get(key) ?? { reason: trimmed, count: 0 };
+    reasonCounts.set(key, { ...counted, count: counted.count + 1 });
+  });
+  const topInterruptionReasons = [...reasonCounts.values()]
+    .sort((a, b) => b.count - a.count)
+    .slice(0, TOP_REASON_COUNT);
+
+  return {
+    focusMinutesToday: sumFocusMinutes(focusEntries, today, addDays(today, 1)),
+    focusMinutesThisWeek: sumFocusMinutes(focusEntries, thisWeek, addDays(thisWeek, 7)),
+    dailyFocusMinutes,
+    weeklyFocusMinutes,
+    completionRate: totalSessions > 0 ? completed.length / totalSessions : 0,
+    skipRate: totalSessions > 0 ? skipped.length / totalSessions : 0,
+    averageSessionMinutes,
+    bestHour,
+    totalSessions,
+    internalInterruptions,
+    externalInterruptions: interruptions.length - internalInterruptions,
+    interruptionsPerSession: totalSessions > 0 ? interruptions.length / totalSessions : 0,
+    pausedMinutesToday: sumFocusMinutes(pauseEntries, today, addDays(today, 1)),
+    topInterruptionReasons,
+  };
+}
@@ -0,0 +1,101 @@
+import type { PhaseHistoryEntry } from '@/types/history';
+
+const DB_NAME = 'pomoradio';
+const DB_VERSION = 1;
+const HISTORY_STORE = 'phaseHistory';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open (and create or upgrade) the IndexedDB database, reusing one connection
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+        const store = db.createObjectStore(HISTORY_STORE, { keyPath: 'id', autoIncrement: true });
+        store.createIndex('endedAt', 'endedAt');
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Store a finished, skipped or reset phase
+ */
+export async function addHistoryEntry(entry: PhaseHistoryEntry): Promise<PhaseHistoryEntry> {
+  const db = await openDatabase();
+  const store = db.transaction(HISTORY_STORE, 'readwrite').objectStore(HISTORY_STORE);
+  const { id: _unused, ...record } = entry;
+  const id = await promisify(store.add(record));
+  return { ...record, id: id as number };
+}
+
+/**
+ * Store several entries in one transaction, e.g. from an import
+ */
+export async function addHistoryEntries(entries: PhaseHistoryEntry[]): Promise<PhaseHistoryEntry[]> {
+  const db = await openDatabase();
+  const store = db.transaction(HISTORY_STORE, 'readwrite').objectStore(HISTORY_STORE);
+  return Promise.all(entries.map(async entry => {
+    const { id: _unused, ...record } = entry;
+    const id = await promisify(store.add(record));
+    return { ...record, id: id as number };
+  }));
+}
+
+/**
+ * Get history entries that ended within the given range, oldest first
+ */
+export async function getHistoryEntries(from?: number, to?: number): Promise<PhaseHistoryEntry[]> {
+  const db = await openDatabase();
+  const index = db.transaction(HISTORY_STORE, 'readonly').objectStore(HISTORY_STORE).index('endedAt');
+
+  let range: IDBKeyRange | undefined;
+  if (from !== undefined && to !== undefined) {
+    range = IDBKeyRange.bound(from, to);
+  } else if (from !== undefined) {
+    range = IDBKeyRange.lowerBound(from);
+  } else if (to !== undefined) {
+    range = IDBKeyRange.upperBound(to);
+  }
+
+  return promisify(index.getAll(range)) as Promise<PhaseHistoryEntry[]>;
+}
+
+/**
+ * Delete all history entries
+ */
+export async function clearHistory(): Promise<void> {
+  const db = await openDatabase();
+  const store = db.transaction(HISTORY_STORE, 'readwrite').objectStore(HISTORY_STORE);
+  await promisify(store.clear());
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { expandBusyBlocks, parseIcs } from '@/lib/icsCalendar';
+
+function calendar(...eventLines: string[][]): string {
+  return [
+    'BEGIN:VCALENDAR',
+    ...eventLines.flatMap(lines => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']),
+    'END:VCALENDAR',
+  ].join('\r\n');
+}
+
+const FROM = Date.UTC(2026, 2, 2);
+const TO = FROM + 7 * 24 * 60 * 60 * 1000;
+
+describe('expandBusyBlocks', () => {
+  it('reaches the window for daily meetings that started long ago', () => {
+    const events = parseIcs(calendar([
+      'UID:standup',
+      'SUMMARY:Standup',
+      'DTSTART:20060102T090000Z',
+      'DTEND:20060102T091500Z',
+      'RRULE:FREQ=DAILY',
+    ]));
+
+    const blocks = expandBusyBlocks(events, FROM, TO);
+    expect(blocks).toHaveLength(7);
+    expect(blocks[0]).toMatchObject({ summary: 'Standup', start: Date.UTC(2026, 2, 2, 9), end: Date.UTC(2026, 2, 2, 9, 15) });
+  });
+
+  it('keeps to the weekdays of old weekly rules', () => {
+    const events = parseIcs(calendar([
+      'UID:review',
+      'DTSTART:20100104T140000Z',
+      'DTEND:20100104T150000Z',
+      'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH',
+    ]));
+
+    const starts = expandBusyBlocks(events, FROM, FROM + 28 * 24 * 60 * 60 * 1000).map(block => new Date(block.start).getUTCDay());
+    expect(starts.length).toBe(4);
+    expect(starts.every(day => day === 1 || day === 4)).toBe(true);
+  });
+
+  it('still counts occurrences from the start for rules with a COUNT', () => {
+    const events = parseIcs(calendar([
+      'UID:course',
+      'DTSTART:20260226T100000Z',
+      'DTEND:20260226T110000Z',
+      'RRULE:FREQ=DAILY;COUNT=5',
+    ]));
+
+    // Feb 26 to Mar 2: only the last one falls in the window
+    expect(expandBusyBlocks(events, FROM, TO).map(block => block.start)).toEqual([Date.UTC(2026, 2, 2, 10)]);
+  });
+});
@@ -0,0 +1,446 @@
+import type { BusyBlock } from '@/types/calendar';
+
+// Wall-clock date and time as written in the file, with the zone it's in
+interface IcsDateTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  dateOnly: boolean; // VALUE=DATE, i.e. an all-day event
+  zone: 'utc' | 'floating' | string; // anything else is a TZID
+}
+
+interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  count?: number;
+  until?: number; // epoch ms
+  byDay: Array<{ weekday: number; ordinal?: number }>; // weekday 0 = Sunday
+  byMonthDay: number[];
+  byMonth: number[]; // 1-12
+}
+
+interface IcsEvent {
+  uid: string;
+  summary: string;
+  start: IcsDateTime;
+  end?: IcsDateTime;
+  duration?: number; // ms, used when there's no DTEND
+  rrule?: RecurrenceRule;
+  exdates: number[]; // epoch ms of excluded occurrences
+  recurrenceId?: number; // set on a modified occurrence of a recurring event
+  free: boolean; // TRANSP:TRANSPARENT
+  cancelled: boolean;
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stop expanding a rule this many periods past the start of the window asked for, so a
+// broken rule can't hang the page
+const MAX_RECURRENCE_PERIODS = 5000;
+
+// The longest a recurrence period of each frequency can be, per interval
+const MAX_PERIOD_MS: Record<RecurrenceRule['freq'], number> = {
+  DAILY: DAY_MS + 60 * 60 * 1000, // a day with a DST change
+  WEEKLY: 7 * DAY_MS + 60 * 60 * 1000,
+  MONTHLY: 31 * DAY_MS + 60 * 60 * 1000,
+  YEARLY: 366 * DAY_MS + 60 * 60 * 1000,
+};
+
+/**
+ * Split a content line into name, parameters and value, e.g.
+ * DTSTART;TZID=Europe/Berlin:20250106T090000
+ */
+function parseProperty(line: string): IcsProperty | null {
+  // The value starts at the first colon outside a quoted parameter
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  paramParts.forEach(part => {
+    const [key, ...rest] = part.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1');
+}
+
+function parseDateTime(value: string, params: Record<string, string>): IcsDateTime | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const dateOnly = params.VALUE === 'DATE' || hour === undefined;
+  return {
+    year: Number(year),
+    month: Number(month),
+    day: Number(day),
+    hour: dateOnly ? 0 : Number(hour),
+    minute: dateOnly ? 0 : Number(minute),
+    second: dateOnly ? 0 : Number(second),
+    dateOnly,
+    zone: utc ? 'utc' : params.TZID ?? 'floating',
+  };
+}
+
+// e.g. PT1H30M, P1D, -PT15M
+function parseDuration(value: string): number | undefined {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return undefined;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms = (
+    Number(weeks ?? 0) * 7 * DAY_MS +
+    Number(days ?? 0) * DAY_MS +
+    Number(hours ?? 0) * 60 * 60 * 1000 +
+    Number(minutes ?? 0) * 60 * 1000 +
+    Number(seconds ?? 0) * 1000
+  );
+  return sign === '-' ? -ms : ms;
+}
+
+function parseRecurrenceRule(value: string): RecurrenceRule | undefined {
+  const parts: Record<string, string> = {};
+  value.split(';').forEach(part => {
+    const [key, val] = part.split('=');
+    if (key && val) parts[key.toUpperCase()] = val;
+  });
+
+  const freq = parts.FREQ as RecurrenceRule['freq'];
+  if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) return undefined;
+
+  const until = parts.UNTIL ? parseDateTime(parts.UNTIL, {}) : null;
+  const byDay = (parts.BYDAY ?? '').split(',').filter(Boolean).flatMap(day => {
+    const match = day.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+    return match ? [{ weekday: WEEKDAYS.indexOf(match[2]), ordinal: match[1] ? Number(match[1]) : undefined }] : [];
+  });
+  const toNumbers = (list?: string) => (list ?? '').split(',').filter(Boolean).map(Number).filter(n => !isNaN(n) && n !== 0);
+
+  return {
+    freq,
+    interval: Math.max(1, Number(parts.INTERVAL ?? 1) || 1),
+    count: parts.COUNT ? Number(parts.COUNT) : undefined,
+    until: until ? toEpoch(until) : undefined,
+    byDay,
+    byMonthDay: toNumbers(parts.BYMONTHDAY),
+    byMonth: toNumbers(parts.BYMONTH),
+  };
+}
+
+/**
+ * Offset of a time zone from UTC at a moment, in ms
+ */
+function getZoneOffset(timestamp: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(timestamp));
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(timestamp / 1000) * 1000;
+}
+
+/**
+ * Epoch ms of a wall-clock date and time in its zone. Unknown TZIDs (e.g. Windows zone
+ * names) fall back to the browser's local time.
+ */
+function toEpoch(dt: IcsDateTime): number {
+  const { year, month, day, hour, minute, second, zone } = dt;
+  if (zone === 'utc') {
+    return Date.UTC(year, month - 1, day, hour, minute, second);
+  }
+  if (zone !== 'floating' && !dt.dateOnly) {
+    try {
+      // Guess with the offset at the wall-clock time, then correct across DST changes
+      const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+      const offset = getZoneOffset(wallClock, zone);
+      const guess = wallClock - offset;
+      const correctedOffset = getZoneOffset(guess, zone);
+      return correctedOffset === offset ? guess : wallClock - correctedOffset;
+    } catch {
+      // RangeError for unknown zones
+    }
+  }
+  return new Date(year, month - 1, day, hour, minute, second).getTime();
+}
+
+/**
+ * Read the events from an iCalendar file
+ */
+export function parseIcs(text: string): IcsEvent[] {
+  // Unfold continuation lines, which start with a space or tab
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: IcsEvent[] = [];
+  let current: Partial<IcsEvent> | null = null;
+  let nestedDepth = 0; // inside e.g. a VALARM within the event
+
+  lines.forEach(line => {
+    const property = parseProperty(line);
+    if (!property) return;
+    const { name, params, value } = property;
+
+    if (name === 'BEGIN') {
+      if (value === 'VEVENT') {
+        current = { exdates: [], free: false, cancelled: false, summary: '' };
+      } else if (current) {
+        nestedDepth++;
+      }
+      return;
+    }
+    if (name === 'END') {
+      if (value === 'VEVENT' && current) {
+        if (current.uid && current.start) events.push(current as IcsEvent);
+        current = null;
+        nestedDepth = 0;
+      } else if (current && nestedDepth > 0) {
+        nestedDepth--;
+      }
+      return;
+    }
+    if (!current || nestedDepth > 0) return;
+
+    switch (name) {
+      case 'UID':
+        current.uid = value;
+        break;
+      case 'SUMMARY':
+        current.summary = unescapeText(value);
+        break;
+      case 'DTSTART':
+        current.start = parseDateTime(value, params) ?? undefined;
+        break;
+      case 'DTEND':
+        current.end = parseDateTime(value, params) ?? undefined;
+        break;
+      case 'DURATION':
+        current.duration = parseDuration(value);
+        break;
+      case 'RRULE':
+        current.rrule = parseRecurrenceRule(value);
+        break;
+      case 'EXDATE':
+        value.split(',').forEach(date => {
+          const dt = parseDateTime(date, params);
+          if (dt) current!.exdates!.push(toEpoch(dt));
+        });
+        break;
+      case 'RECURRENCE-ID': {
+        const dt = parseDateTime(value, params);
+        if (dt) current.recurrenceId = toEpoch(dt);
+        break;
+      }
+      case 'TRANSP':
+        current.free = value.trim().toUpperCase() === 'TRANSPARENT';
+        break;
+      case 'STATUS':
+        current.cancelled = value.trim().toUpperCase() === 'CANCELLED';
+        break;
+    }
+  });
+
+  return events;
+}
+
+// Calendar arithmetic on plain dates, done in UTC so DST never shifts a day
+function addDays(date: { year: number; month: number; day: number }, days: number) {
+  const d = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+}
+
+function getWeekday(year: number, month: number, day: number): number {
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+function getDaysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Days of a month selected by BYMONTHDAY / BYDAY, or the given default day
+ */
+function getMonthDays(year: number, month: number, rule: RecurrenceRule, defaultDay: number): number[] {
+  const daysInMonth = getDaysInMonth(year, month);
+
+  if (rule.byMonthDay.length > 0) {
+    return rule.byMonthDay
+      .map(day => (day > 0 ? day : daysInMonth + day + 1))
+      .filter(day => day >= 1 && day <= daysInMonth);
+  }
+
+  if (rule.byDay.length > 0) {
+    return rule.byDay.flatMap(({ weekday, ordinal }) => {
+      const matching: number[] = [];
+      for (let day = 1; day <= daysInMonth; day++) {
+        if (getWeekday(year, month, day) === weekday) matching.push(day);
+      }
+      if (ordinal === undefined) return matching;
+      const picked = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+      return picked !== undefined ? [picked] : [];
+    });
+  }
+
+  return defaultDay <= daysInMonth ? [defaultDay] : [];
+}
+
+/**
+ * Candidate dates of one recurrence period, in order. Period 0 contains DTSTART.
+ */
+function getPeriodDates(start: IcsDateTime, rule: RecurrenceRule, period: number) {
+  const step = period * rule.interval;
+  let dates: Array<{ year: number; month: number; day: number }>;
+
+  switch (rule.freq) {
+    case 'DAILY':
+      dates = [addDays(start, step)];
+      break;
+    case 'WEEKLY': {
+      // Weeks start on Monday
+      const weekday = getWeekday(start.year, start.month, start.day);
+      const monday = addDays(start, -((weekday + 6) % 7) + step * 7);
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map(d => d.weekday) : [weekday];
+      dates = weekdays
+        .map(day => addDays(monday, (day + 6) % 7))
+        .sort((a, b) => Date.UTC(a.year, a.month - 1, a.day) - Date.UTC(b.year, b.month - 1, b.day));
+      break;
+    }
+    case 'MONTHLY': {
+      const monthIndex = start.month - 1 + step;
+      const year = start.year + Math.floor(monthIndex / 12);
+      const month = (monthIndex % 12) + 1;
+      dates = getMonthDays(year, month, rule, start.day).sort((a, b) => a - b).map(day => ({ year, month, day }));
+      break;
+    }
+    case 'YEARLY': {
+      const year = start.year + step;
+      const months = rule.byMonth.length > 0 ? [...rule.byMonth].sort((a, b) => a - b) : [start.month];
+      dates = months.flatMap(month =>
+        getMonthDays(year, month, rule, start.day).sort((a, b) => a - b).map(day => ({ year, month, day }))
+      );
+      break;
+    }
+  }
+
+  return dates.filter(date =>
+    (rule.byMonth.length === 0 || rule.byMonth.includes(date.month)) &&
+    // BYDAY narrows down daily rules; the other frequencies already used it above
+    (rule.freq !== 'DAILY' || rule.byDay.length === 0 || rule.byDay.some(d => d.weekday === getWeekday(date.year, date.month, date.day)))
+  );
+}
+
+/**
+ * Start times of every occurrence of an event that could overlap [from, to]
+ */
+function expandOccurrences(event: IcsEvent, duration: number, from: number, to: number): number[] {
+  const firstStart = toEpoch(event.start);
+  if (!event.rrule) return [firstStart];
+
+  const rule = event.rrule;
+  const starts: number[] = [];
+  let count = 0;
+
+  // Periods that all end before the window can be jumped over, so rules that started long
+  // ago still reach it. Rules with a COUNT go through them, counting their occurrences.
+  const periodsBefore = Math.max(0, Math.floor((from - duration - firstStart) / (MAX_PERIOD_MS[rule.freq] * rule.interval)) - 1);
+  const firstPeriod = rule.count === undefined ? periodsBefore : 0;
+
+  for (let period = firstPeriod; period < periodsBefore + MAX_RECURRENCE_PERIODS; period++) {
+    for (const date of getPeriodDates(event.start, rule, period)) {
+      const start = toEpoch({ ...event.start, ...date });
+      // Occurrences before DTSTART don't exist and don't count
+      if (start < firstStart) continue;
+      if (rule.until !== undefined && start > rule.until) return starts;
+      if (rule.count !== undefined && count >= rule.count) return starts;
+      if (start > to) return starts;
+
+      count++;
+      if (start + duration >= from) starts.push(start);
+    }
+  }
+
+  return starts;
+}
+
+/**
+ * Busy blocks from the events of a calendar that overlap [from, to], sorted by start.
+ * All-day, free and cancelled events don't block the timer.
+ */
+export function expandBusyBlocks(events: IcsEvent[], from: number, to: number): BusyBlock[] {
+  // Modified occurrences replace the ones generated by their recurring event
+  const overridden = new Set(
+    events
+      .filter(event => event.recurrenceId !== undefined)
+      .map(event => `${event.uid}|${event.recurrenceId}`)
+  );
+
+  const blocks: BusyBlock[] = [];
+  events.forEach(event => {
+    if (event.free || event.cancelled || event.start.dateOnly) return;
+
+    const start = toEpoch(event.start);
+    const duration = event.end ? toEpoch(event.end) - start : event.duration ?? 0;
+    if (duration <= 0) return;
+
+    const isOverride = event.recurrenceId !== undefined;
+    const excluded = new Set(event.exdates);
+    const starts = isOverride ? [start] : expandOccurrences(event, duration, from, to);
+
+    starts.forEach(occurrenceStart => {
+      if (excluded.has(occurrenceStart)) return;
+      if (!isOverride && overridden.has(`${event.uid}|${occurrenceStart}`)) return;
+      const occurrenceEnd = occurrenceStart + duration;
+      if (occurrenceEnd < from || occurrenceStart > to) return;
+
+      blocks.push({
+        id: `${event.uid}|${occurrenceStart}`,
+        summary: event.summary || 'Busy',
+        start: occurrenceStart,
+        end: occurrenceEnd,
+      });
+    });
+  });
+
+  return blocks.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * The busy block in progress at a moment, if any
+ */
+export function findActiveBlock(blocks: BusyBlock[], time: number): BusyBlock | null {
+  return blocks.find(block => block.start <= time && time < block.end) ?? null;
+}
+
+/**
+ * The first busy block starting within [from, to), if any
+ */
+export function findNextBlock(blocks: BusyBlock[], from: number, to: number): BusyBlock | null {
+  return blocks.find(block => block.start >= from && block.start < to) ?? null;
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { checkOutboundUrl, isBlockedAddress, isSameOriginRequest, parseHostList } from '@/lib/outboundRequests';
+
+describe('isBlockedAddress', () => {
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.16.0.1',
+    '172.31.255.255',
+    '192.168.1.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '224.0.0.1',
+    '::',
+    '::1',
+    'fe80::1',
+    'fd00::1',
+    '::ffff:127.0.0.1',
+    '::ffff:7f00:1',
+    '::ffff:a9fe:a9fe',
+    'localhost',
+  ])('blocks %s', address => {
+    expect(isBlockedAddress(address)).toBe(true);
+  });
+
+  it.each(['8.8.8.8', '172.32.0.1', '93.184.216.34', '2606:4700:4700::1111', '::ffff:8.8.8.8'])('allows %s', address => {
+    expect(isBlockedAddress(address)).toBe(false);
+  });
+});
+
+describe('checkOutboundUrl', () => {
+  it('rejects other protocols and local addresses', async () => {
+    expect(await checkOutboundUrl('file:///etc/passwd')).toEqual({ ok: false, error: 'URLs must be http or https' });
+    expect(await checkOutboundUrl('http://127.0.0.1:3000/')).toMatchObject({ ok: false });
+    expect(await checkOutboundUrl('http://[::1]/')).toMatchObject({ ok: false });
+  });
+
+  it('only lets listed hosts through when there is an allowlist', async () => {
+    const allowed = parseHostList(' LocalHost , hooks.example.com');
+
+    expect(await checkOutboundUrl('http://localhost:4000/', allowed)).toMatchObject({ ok: true });
+    expect(await checkOutboundUrl('https://8.8.8.8/', allowed)).toMatchObject({ ok: false });
+  });
+});
+
+describe('isSameOriginRequest', () => {
+  const post = (headers: Record<string, string>) => new Request('http://app.example/api/webhooks', { method: 'POST', headers });
+
+  it('trusts Sec-Fetch-Site, then falls back to comparing Origin with Host', () => {
+    expect(isSameOriginRequest(post({ 'sec-fetch-site': 'same-origin' }))).toBe(true);
+    expect(isSameOriginRequest(post({ 'sec-fetch-site': 'cross-site', origin: 'http://app.example', host: 'app.example' }))).toBe(false);
+    expect(isSameOriginRequest(post({ origin: 'http://app.example', host: 'app.example' }))).toBe(true);
+    expect(isSameOriginRequest(post({ origin: 'http://evil.example', host: 'app.example' }))).toBe(false);
+    expect(isSameOriginRequest(post({ host: 'app.example' }))).toBe(false);
+  });
+});
@@ -0,0 +1,129 @@
+import { lookup } from 'node:dns/promises';
+import { isIP } from 'node:net';
+
+// Guards for the API routes that fetch URLs handed to them by the browser, so they
+// can't be used to reach the server's own network
+
+/**
+ * Whether a request came from a page of this app. Browsers send Sec-Fetch-Site, or at
+ * least Origin on POST requests; anything without either is turned away.
+ */
+export function isSameOriginRequest(request: Request): boolean {
+  const site = request.headers.get('sec-fetch-site');
+  if (site) return site === 'same-origin';
+
+  const origin = request.headers.get('origin');
+  const host = request.headers.get('x-forwarded-host') ?? request.headers.get('host');
+  if (!origin || !host) return false;
+  try {
+    return new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Host names from a comma-separated setting like WEBHOOK_ALLOWED_HOSTS, lowercased
+ */
+export function parseHostList(value: string | undefined): string[] {
+  return (value ?? '').split(',').map(host => host.trim().toLowerCase()).filter(Boolean);
+}
+
+function parseIPv4(address: string): number[] {
+  return address.split('.').map(Number);
+}
+
+// Expand an IPv6 address into its eight 16-bit groups
+function parseIPv6(address: string): number[] {
+  let text = address.toLowerCase().split('%')[0];
+
+  // A trailing dotted IPv4 address, e.g. ::ffff:127.0.0.1, makes up the last two groups
+  const dotted = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = parseIPv4(dotted[1]);
+    text = `${text.slice(0, -dotted[1].length)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const groups = (part: string) => part ? part.split(':').map(group => parseInt(group, 16)) : [];
+  const [head, tail] = text.split('::');
+  if (tail === undefined) return groups(head);
+
+  const start = groups(head);
+  const end = groups(tail);
+  return [...start, ...new Array<number>(8 - start.length - end.length).fill(0), ...end];
+}
+
+function isBlockedIPv4([a, b]: number[]): boolean {
+  return a === 0 // "this" network
+    || a === 10 // private
+    || a === 127 // loopback
+    || (a === 100 && b >= 64 && b <= 127) // carrier-grade NAT
+    || (a === 169 && b === 254) // link-local, including cloud metadata services
+    || (a === 172 && b >= 16 && b <= 31) // private
+    || (a === 192 && b === 168) // private
+    || (a === 192 && b === 0) // IETF protocol assignments
+    || (a === 198 && (b === 18 || b === 19)) // benchmarking
+    || a >= 224; // multicast and reserved
+}
+
+/**
+ * Whether an IP address is private, loopback, link-local or otherwise not on the
+ * public internet. Anything that isn't an IP address counts as blocked.
+ */
+export function isBlockedAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) return isBlockedIPv4(parseIPv4(address));
+  if (version !== 6) return true;
+
+  const groups = parseIPv6(address);
+  // IPv4-mapped addresses, ::ffff:0:0/96, are judged by the IPv4 address inside
+  if (groups.slice(0, 5).every(group => group === 0) && groups[5] === 0xffff) {
+    return isBlockedIPv4([groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff]);
+  }
+  return groups.slice(0, 7).every(group => group === 0) // unspecified and loopback
+    || (groups[0] & 0xfe00) === 0xfc00 // unique local
+    || (groups[0] & 0xffc0) === 0xfe80 // link-local
+    || (groups[0] & 0xff00) === 0xff00; // multicast
+}
+
+export type OutboundTarget = { ok: true; url: URL } | { ok: false; error: string };
+
+/**
+ * Check a URL the server is asked to fetch. It must be http or https, and its host must
+ * resolve to public addresses only. With an allowlist the host must also be on it;
+ * listed hosts are trusted as configured, so they may be local, e.g. a test server.
+ */
+export async function checkOutboundUrl(url: string, allowedHosts: string[] = []): Promise<OutboundTarget> {
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch {
+    return { ok: false, error: 'Invalid URL' };
+  }
+  if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+    return { ok: false, error: 'URLs must be http or https' };
+  }
+
+  const host = target.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (allowedHosts.length > 0) {
+    return allowedHosts.includes(host)
+      ? { ok: true, url: target }
+      : { ok: false, error: `${host} is not an allowed host` };
+  }
+
+  let addresses: string[];
+  if (isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await lookup(host, { all: true, verbatim: true })).map(entry => entry.address);
+    } catch {
+      return { ok: false, error: `Could not resolve ${host}` };
+    }
+  }
+
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+    return { ok: false, error: 'Private and local addresses are not allowed' };
+  }
+  return { ok: true, url: target };
+}
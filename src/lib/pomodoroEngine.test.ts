@@ -0,0 +1,378 @@
+import { describe, expect, it } from 'vitest';
+import type { PomodoroCommand, PomodoroState, PhaseRadioBehavior } from '@/types/pomodoro';
+import { createInitialState, reducePomodoro, type PomodoroEngineContext } from '@/lib/pomodoroEngine';
+import { buildClassicSequence } from '@/lib/sequences';
+import { DEFAULT_SETTINGS } from '@/lib/pomodoroSettings';
+import { createStreamStation } from '@/lib/radioProfiles';
+
+const T0 = Date.UTC(2026, 0, 5, 9, 0, 0);
+const WORK_MS = DEFAULT_SETTINGS.workDuration * 60 * 1000;
+const SHORT_BREAK_MS = DEFAULT_SETTINGS.shortBreakDuration * 60 * 1000;
+
+const sequence = buildClassicSequence(DEFAULT_SETTINGS);
+const context: PomodoroEngineContext = { sequence, settings: DEFAULT_SETTINGS };
+
+// The same settings with the focus profile playing radio instead of staying silent
+function withFocusRadio(behavior: PhaseRadioBehavior = 'focus'): PomodoroEngineContext {
+  const { radioProfiles } = DEFAULT_SETTINGS;
+  return {
+    sequence,
+    settings: { ...DEFAULT_SETTINGS, radioProfiles: { ...radioProfiles, work: { ...radioProfiles.work, behavior } } },
+  };
+}
+
+function started(now = T0, engineContext = context): PomodoroState {
+  return reducePomodoro(createInitialState(sequence), { type: 'START', now }, engineContext).state;
+}
+
+function types(commands: PomodoroCommand[]) {
+  return commands.map(command => command.type);
+}
+
+describe('reducePomodoro', () => {
+  describe('START', () => {
+    it('starts the first phase from the injected time', () => {
+      const { state, commands } = reducePomodoro(createInitialState(sequence), { type: 'START', now: T0 }, context);
+
+      expect(state.isRunning).toBe(true);
+      expect(state.phase).toBe('work');
+      expect(state.phaseStartedAt).toBe(T0);
+      expect(state.phaseEndsAt).toBe(T0 + WORK_MS);
+      // A silent focus step fades out anything still playing
+      expect(commands).toEqual([{ type: 'FADE_OUT_RADIO', duration: DEFAULT_SETTINGS.fadeOutDuration }]);
+    });
+
+    it('plays the radio of a focus phase that has opted in', () => {
+      const focusContext = withFocusRadio();
+      const { commands } = reducePomodoro(createInitialState(sequence), { type: 'START', now: T0 }, focusContext);
+
+      expect(commands).toEqual([{
+        type: 'PLAY_PHASE_RADIO',
+        profile: focusContext.settings.radioProfiles.work,
+        isFocus: true,
+      }]);
+    });
+
+    it('ignores a start while already running', () => {
+      const state = started();
+      const result = reducePomodoro(state, { type: 'START', now: T0 + 1000 }, context);
+
+      expect(result.state).toBe(state);
+      expect(result.commands).toEqual([]);
+    });
+  });
+
+  describe('PAUSE and resume', () => {
+    it('freezes the remaining time and resumes from it', () => {
+      const paused = reducePomodoro(started(), { type: 'PAUSE', now: T0 + 60_000, reason: 'Coffee' }, context).state;
+
+      expect(paused.isRunning).toBe(false);
+      expect(paused.phaseEndsAt).toBeNull();
+      expect(paused.timeRemaining).toBe(WORK_MS / 1000 - 60);
+      expect(paused.pausedAt).toBe(T0 + 60_000);
+      expect(paused.pauseReason).toBe('Coffee');
+
+      const resumed = reducePomodoro(paused, { type: 'START', now: T0 + 180_000 }, context);
+      expect(resumed.state.isRunning).toBe(true);
+      expect(resumed.state.phaseStartedAt).toBe(T0);
+      expect(resumed.state.phaseEndsAt).toBe(T0 + 180_000 + WORK_MS - 60_000);
+      expect(resumed.state.pausedAt).toBeNull();
+      expect(resumed.state.pauseReason).toBeNull();
+      expect(resumed.commands[0]).toEqual({
+        type: 'RECORD_PHASE',
+        entry: expect.objectContaining({ phase: 'paused', startedAt: T0 + 60_000, endedAt: T0 + 180_000, actualDuration: 120, reason: 'Coffee' }),
+      });
+    });
+
+    it('fades the break radio out on pause and picks its station back up on resume', () => {
+      const station = createStreamStation('https://radio.example/stream');
+      const inBreak = reducePomodoro(started(), { type: 'SKIP', now: T0 }, context).state;
+
+      const paused = reducePomodoro(inBreak, { type: 'PAUSE', now: T0 + 60_000 }, context);
+      expect(paused.commands).toEqual([{ type: 'FADE_OUT_RADIO', duration: DEFAULT_SETTINGS.fadeOutDuration }]);
+
+      const resumed = reducePomodoro(paused.state, { type: 'START', now: T0 + 120_000, station }, context);
+      expect(types(resumed.commands)).toEqual(['RECORD_PHASE', 'PLAY_STATION']);
+      expect(resumed.commands[1]).toEqual({
+        type: 'PLAY_STATION',
+        station,
+        profile: DEFAULT_SETTINGS.radioProfiles.shortBreak,
+        isFocus: false,
+      });
+    });
+
+    it('resumes with the profile radio when no station was heard, without starting a new phase', () => {
+      const inBreak = reducePomodoro(started(), { type: 'SKIP', now: T0 }, context).state;
+      const paused = reducePomodoro(inBreak, { type: 'PAUSE', now: T0 + 60_000 }, context).state;
+
+      const resumed = reducePomodoro(paused, { type: 'START', now: T0 + 120_000, station: null }, context);
+      expect(resumed.commands[1]).toEqual({
+        type: 'PLAY_PHASE_RADIO',
+        profile: DEFAULT_SETTINGS.radioProfiles.shortBreak,
+        isFocus: false,
+        resume: true,
+      });
+    });
+
+    it("leaves a silent focus phase's radio alone on pause", () => {
+      expect(reducePomodoro(started(), { type: 'PAUSE', now: T0 + 60_000 }, context).commands).toEqual([]);
+    });
+
+    it('updates the reason when paused again', () => {
+      const paused = reducePomodoro(started(), { type: 'PAUSE', now: T0 + 60_000 }, context).state;
+      const result = reducePomodoro(paused, { type: 'PAUSE', now: T0 + 70_000, reason: 'Phone call' }, context);
+
+      expect(result.state.pauseReason).toBe('Phone call');
+      expect(result.state.pausedAt).toBe(T0 + 60_000);
+    });
+  });
+
+  describe('SKIP', () => {
+    it('records the skipped phase and starts the break radio right away', () => {
+      const { state, commands } = reducePomodoro(started(), { type: 'SKIP', now: T0 + 600_000 }, context);
+
+      expect(state.phase).toBe('shortBreak');
+      expect(state.stepIndex).toBe(1);
+      expect(state.completedSessions).toBe(1);
+      expect(state.phaseStartedAt).toBe(T0 + 600_000);
+      expect(state.phaseEndsAt).toBe(T0 + 600_000 + SHORT_BREAK_MS);
+      expect(commands).toEqual([
+        { type: 'RECORD_PHASE', entry: expect.objectContaining({ phase: 'work', outcome: 'skipped', actualDuration: 600 }) },
+        { type: 'ANNOUNCE_PHASE', step: sequence.steps[1] },
+        { type: 'PLAY_PHASE_RADIO', profile: DEFAULT_SETTINGS.radioProfiles.shortBreak, isFocus: false },
+      ]);
+    });
+
+    it('fades the radio out when skipping into a silent focus phase', () => {
+      const inBreak = reducePomodoro(started(), { type: 'SKIP', now: T0 }, context).state;
+      const { state, commands } = reducePomodoro(inBreak, { type: 'SKIP', now: T0 + 60_000 }, context);
+
+      expect(state.phase).toBe('work');
+      expect(state.currentCycle).toBe(2);
+      expect(commands.at(-1)).toEqual({ type: 'FADE_OUT_RADIO', duration: DEFAULT_SETTINGS.fadeOutDuration });
+    });
+
+    it('ends a pause along with the phase', () => {
+      const paused = reducePomodoro(started(), { type: 'PAUSE', now: T0 + 60_000 }, context).state;
+      const { state, commands } = reducePomodoro(paused, { type: 'SKIP', now: T0 + 90_000 }, context);
+
+      expect(state.isRunning).toBe(false);
+      expect(state.phaseStartedAt).toBeNull();
+      expect(state.pausedAt).toBeNull();
+      expect(commands[0]).toEqual({ type: 'RECORD_PHASE', entry: expect.objectContaining({ phase: 'paused', outcome: 'skipped' }) });
+      // The break radio waits for the timer to start
+      expect(types(commands)).not.toContain('PLAY_PHASE_RADIO');
+    });
+  });
+
+  describe('pre-roll', () => {
+    it('searches for the break radio the lead time before a silent phase ends', () => {
+      const state = started();
+      const phaseEndsAt = T0 + WORK_MS;
+      const leadMs = DEFAULT_SETTINGS.radioLeadTime * 1000;
+
+      expect(reducePomodoro(state, { type: 'TICK', now: phaseEndsAt - leadMs - 1000 }, context).commands).toEqual([]);
+
+      const { state: next, commands } = reducePomodoro(state, { type: 'TICK', now: phaseEndsAt - leadMs }, context);
+      expect(commands).toEqual([{
+        type: 'PLAY_PHASE_RADIO',
+        profile: DEFAULT_SETTINGS.radioProfiles.shortBreak,
+        isFocus: false,
+        startAt: phaseEndsAt,
+      }]);
+      expect(next.preRollFiredFor).toBe(phaseEndsAt);
+
+      // Fires once per phase
+      expect(reducePomodoro(next, { type: 'TICK', now: phaseEndsAt - 2000 }, context).commands).toEqual([]);
+    });
+
+    it('fades the radio out the fade-out duration before a radio phase hands over to a silent one', () => {
+      const inBreak = reducePomodoro(started(), { type: 'SKIP', now: T0 }, context).state;
+      const phaseEndsAt = T0 + SHORT_BREAK_MS;
+      const fadeMs = DEFAULT_SETTINGS.fadeOutDuration * 1000;
+
+      expect(reducePomodoro(inBreak, { type: 'TICK', now: phaseEndsAt - fadeMs - 1000 }, context).commands).toEqual([]);
+      expect(reducePomodoro(inBreak, { type: 'TICK', now: phaseEndsAt - fadeMs }, context).commands).toEqual([
+        { type: 'FADE_OUT_RADIO', duration: DEFAULT_SETTINGS.fadeOutDuration },
+      ]);
+    });
+
+    it('hands focus radio over to the break radio, leaving time for the fade-out', () => {
+      const focusContext = withFocusRadio();
+      const state = started(T0, focusContext);
+      const phaseEndsAt = T0 + WORK_MS;
+      const preRollMs = (DEFAULT_SETTINGS.radioLeadTime + DEFAULT_SETTINGS.fadeOutDuration) * 1000;
+
+      expect(reducePomodoro(state, { type: 'TICK', now: phaseEndsAt - preRollMs - 1000 }, focusContext).commands).toEqual([]);
+      expect(reducePomodoro(state, { type: 'TICK', now: phaseEndsAt - preRollMs }, focusContext).commands).toEqual([{
+        type: 'PLAY_PHASE_RADIO',
+        profile: DEFAULT_SETTINGS.radioProfiles.shortBreak,
+        isFocus: false,
+        startAt: phaseEndsAt - DEFAULT_SETTINGS.fadeOutDuration * 1000,
+      }]);
+    });
+  });
+
+  describe('catching up after the tab was suspended', () => {
+    it('completes every phase that ended, chaining their end times', () => {
+      const now = T0 + WORK_MS + SHORT_BREAK_MS + 60_000;
+      const { state, commands } = reducePomodoro(started(), { type: 'TICK', now }, context);
+
+      expect(state.stepIndex).toBe(2);
+      expect(state.phase).toBe('work');
+      expect(state.completedSessions).toBe(1);
+      expect(state.currentCycle).toBe(2);
+      expect(state.phaseStartedAt).toBe(T0 + WORK_MS + SHORT_BREAK_MS);
+      expect(state.timeRemaining).toBe(WORK_MS / 1000 - 60);
+      expect(commands).toEqual([
+        { type: 'RECORD_PHASE', entry: expect.objectContaining({ phase: 'work', outcome: 'completed', startedAt: T0, endedAt: T0 + WORK_MS }) },
+        { type: 'RECORD_PHASE', entry: expect.objectContaining({ phase: 'shortBreak', outcome: 'completed', endedAt: T0 + WORK_MS + SHORT_BREAK_MS }) },
+        { type: 'ANNOUNCE_PHASE', step: sequence.steps[2] },
+        { type: 'STOP_RADIO' },
+      ]);
+    });
+
+    it('starts the break radio at once when the pre-roll window was slept through', () => {
+      const { commands } = reducePomodoro(started(), { type: 'TICK', now: T0 + WORK_MS + 1000 }, context);
+
+      expect(types(commands)).toEqual(['RECORD_PHASE', 'ANNOUNCE_PHASE', 'PLAY_PHASE_RADIO']);
+      expect(commands[2]).not.toHaveProperty('startAt');
+    });
+
+    it('calls off the waiting break radio when paused or skipped during the pre-roll', () => {
+      const phaseEndsAt = T0 + WORK_MS;
+      const preRolled = reducePomodoro(started(), { type: 'TICK', now: phaseEndsAt - 5000 }, context).state;
+
+      const paused = reducePomodoro(preRolled, { type: 'PAUSE', now: phaseEndsAt - 4000 }, context);
+      expect(paused.commands).toEqual([{ type: 'STOP_RADIO' }]);
+
+      // Resuming fires the pre-roll again for the new end time
+      const resumed = reducePomodoro(paused.state, { type: 'START', now: phaseEndsAt }, context).state;
+      const { commands } = reducePomodoro(resumed, { type: 'TICK', now: phaseEndsAt + 1000 }, context);
+      expect(commands).toEqual([expect.objectContaining({ type: 'PLAY_PHASE_RADIO', startAt: phaseEndsAt + 4000 })]);
+
+      const skipped = reducePomodoro(preRolled, { type: 'SKIP', now: phaseEndsAt - 4000 }, context);
+      expect(types(skipped.commands)).toEqual(['RECORD_PHASE', 'ANNOUNCE_PHASE', 'STOP_RADIO', 'PLAY_PHASE_RADIO']);
+    });
+
+    it("doesn't start the break radio twice once the pre-roll fired", () => {
+      const phaseEndsAt = T0 + WORK_MS;
+      const preRolled = reducePomodoro(started(), { type: 'TICK', now: phaseEndsAt - 5000 }, context).state;
+      const { commands } = reducePomodoro(preRolled, { type: 'TICK', now: phaseEndsAt + 1000 }, context);
+
+      expect(types(commands)).toEqual(['RECORD_PHASE', 'ANNOUNCE_PHASE']);
+    });
+  });
+
+  describe('RESTORE', () => {
+    it('picks the break station back up when the break is still going', () => {
+      const station = createStreamStation('https://radio.example/stream');
+      const inBreak = reducePomodoro(started(), { type: 'SKIP', now: T0 }, context).state;
+      const saved = { ...inBreak, preRollFiredFor: inBreak.phaseEndsAt };
+
+      const { state, commands } = reducePomodoro(saved, { type: 'RESTORE', now: T0 + 60_000, state: saved, breakStation: station }, context);
+
+      expect(state.preRollFiredFor).toBeNull();
+      expect(state.timeRemaining).toBe(SHORT_BREAK_MS / 1000 - 60);
+      expect(commands).toEqual([
+        { type: 'PLAY_STATION', station, profile: DEFAULT_SETTINGS.radioProfiles.shortBreak, isFocus: false },
+      ]);
+    });
+
+    it('records phases that ended while the page was closed and plays the new phase radio', () => {
+      const station = createStreamStation('https://radio.example/stream');
+      const saved = started();
+
+      const { state, commands } = reducePomodoro(saved, { type: 'RESTORE', now: T0 + WORK_MS + 60_000, state: saved, breakStation: station }, context);
+
+      expect(state.phase).toBe('shortBreak');
+      expect(commands).toEqual([
+        { type: 'RECORD_PHASE', entry: expect.objectContaining({ phase: 'work', outcome: 'completed' }) },
+        { type: 'PLAY_PHASE_RADIO', profile: DEFAULT_SETTINGS.radioProfiles.shortBreak, isFocus: false },
+      ]);
+    });
+
+    it('fills in fields missing from sessions saved by older versions', () => {
+      const legacy: Partial<PomodoroState> = createInitialState(sequence);
+      delete legacy.interruptions;
+      delete legacy.pausedAt;
+      delete legacy.pauseReason;
+      delete legacy.meetingUntil;
+
+      const { state, commands } = reducePomodoro(
+        createInitialState(sequence),
+        { type: 'RESTORE', now: T0, state: legacy as PomodoroState, breakStation: null },
+        context,
+      );
+
+      expect(state).toEqual(createInitialState(sequence));
+      expect(commands).toEqual([]);
+    });
+  });
+
+  describe('SYNC', () => {
+    it('mirrors another tab without side effects', () => {
+      const host = reducePomodoro(started(), { type: 'SKIP', now: T0 + 60_000 }, context).state;
+      const { state, commands } = reducePomodoro(started(), { type: 'SYNC', now: T0 + 60_000, state: host }, context);
+
+      expect(state).toBe(host);
+      expect(commands).toEqual([]);
+    });
+
+    it("follows the host's skip with history, an announcement and the break radio", () => {
+      const host = reducePomodoro(started(), { type: 'SKIP', now: T0 + 60_000 }, context).state;
+      const { state, commands } = reducePomodoro(started(), { type: 'SYNC', now: T0 + 60_500, state: host, follow: true }, context);
+
+      expect(state).toBe(host);
+      expect(commands).toEqual([
+        { type: 'RECORD_PHASE', entry: expect.objectContaining({ phase: 'work', outcome: 'skipped' }) },
+        { type: 'ANNOUNCE_PHASE', step: sequence.steps[1] },
+        { type: 'PLAY_PHASE_RADIO', profile: DEFAULT_SETTINGS.radioProfiles.shortBreak, isFocus: false },
+      ]);
+    });
+
+    it('records a phase the host moved on from at its end as completed', () => {
+      const host = reducePomodoro(started(), { type: 'TICK', now: T0 + WORK_MS }, context).state;
+      const { commands } = reducePomodoro(started(), { type: 'SYNC', now: T0 + WORK_MS - 500, state: host, follow: true }, context);
+
+      expect(commands[0]).toEqual({ type: 'RECORD_PHASE', entry: expect.objectContaining({ phase: 'work', outcome: 'completed' }) });
+    });
+
+    it('only announces the last of several skips', () => {
+      const inBreak = reducePomodoro(started(), { type: 'SKIP', now: T0 }, context).state;
+      const host = reducePomodoro(inBreak, { type: 'SKIP', now: T0 }, context).state;
+      const { commands } = reducePomodoro(started(), { type: 'SYNC', now: T0, state: host, follow: true }, context);
+
+      expect(types(commands)).toEqual(['RECORD_PHASE', 'RECORD_PHASE', 'ANNOUNCE_PHASE', 'FADE_OUT_RADIO']);
+      expect(commands[2]).toEqual({ type: 'ANNOUNCE_PHASE', step: sequence.steps[2] });
+    });
+
+    it("follows the host's reset", () => {
+      const { commands } = reducePomodoro(started(), { type: 'SYNC', now: T0 + 60_000, state: createInitialState(sequence), follow: true }, context);
+
+      expect(commands).toEqual([
+        { type: 'RECORD_PHASE', entry: expect.objectContaining({ phase: 'work', outcome: 'reset' }) },
+        { type: 'STOP_RADIO' },
+      ]);
+    });
+
+    it("follows the host's pause and resume", () => {
+      const inBreak = reducePomodoro(started(), { type: 'SKIP', now: T0 }, context).state;
+      const hostPaused = reducePomodoro(inBreak, { type: 'PAUSE', now: T0 + 60_000 }, context).state;
+
+      const paused = reducePomodoro(inBreak, { type: 'SYNC', now: T0 + 60_000, state: hostPaused, follow: true }, context);
+      expect(paused.commands).toEqual([{ type: 'FADE_OUT_RADIO', duration: DEFAULT_SETTINGS.fadeOutDuration }]);
+
+      const hostResumed = reducePomodoro(hostPaused, { type: 'START', now: T0 + 120_000 }, context).state;
+      const resumed = reducePomodoro(paused.state, { type: 'SYNC', now: T0 + 120_000, state: hostResumed, follow: true }, context);
+      expect(types(resumed.commands)).toEqual(['RECORD_PHASE', 'PLAY_PHASE_RADIO']);
+    });
+
+    it('stays quiet while in step with the host', () => {
+      const local = started();
+      const host = { ...local, timeRemaining: local.timeRemaining - 5 };
+
+      expect(reducePomodoro(local, { type: 'SYNC', now: T0 + 5000, state: host, follow: true }, context).commands).toEqual([]);
+    });
+  });
+});
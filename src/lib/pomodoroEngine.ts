@@ -0,0 +1,707 @@
+import type {
+  PomodoroSettings,
+  PomodoroState,
+  PomodoroEvent,
+  PomodoroCommand,
+  PomodoroSequence,
+  PhaseStep,
+  PhaseRadioProfile,
+} from '@/types/pomodoro';
+import type { RadioStation } from '@/types/radio';
+import type { PhaseHistoryEntry, PhaseOutcome } from '@/types/history';
+import type { BusyBlock, MeetingConflictMode } from '@/types/calendar';
+import { findActiveBlock, findNextBlock } from '@/lib/icsCalendar';
+import { getPhaseTitle } from '@/lib/sequences';
+import { getRadioProfile, isSameRadioProfile } from '@/lib/radioProfiles';
+
+// A followed phase this close to its end when the owner moves on has ended rather than been
+// skipped, as the clocks involved only agree to within about this much
+const FOLLOW_TOLERANCE_MS = 2000;
+
+export interface PomodoroEngineContext {
+  sequence: PomodoroSequence;
+  settings: Pick<PomodoroSettings, 'fadeOutDuration' | 'radioLeadTime' | 'radioProfiles'>; // fade, pre-roll timing and radio
+  activeTask?: { id: string; title: string } | null; // task that focus phases count towards
+  calendar?: { busyBlocks: BusyBlock[]; conflictMode: MeetingConflictMode } | null; // meetings to work around
+}
+
+export interface PomodoroEngineResult {
+  state: PomodoroState;
+  commands: PomodoroCommand[];
+}
+
+/**
+ * Fresh state at the first step of a sequence
+ */
+export function createInitialState(sequence: PomodoroSequence): PomodoroState {
+  const firstStep = sequence.steps[0];
+  return {
+    phase: firstStep.kind,
+    stepIndex: 0,
+    phaseDuration: firstStep.duration * 60,
+    timeRemaining: firstStep.duration * 60,
+    phaseStartedAt: null,
+    phaseEndsAt: null,
+    isRunning: false,
+    completedSessions: 0,
+    currentCycle: 1,
+    preRollFiredFor: null,
+    meetingUntil: null,
+    interruptions: [],
+    pausedAt: null,
+    pauseReason: null,
+  };
+}
+
+/**
+ * The step a state is in. If the sequence was switched mid-phase and the step no longer
+ * matches, the running phase keeps its own kind and length until it ends.
+ */
+export function resolveStep(state: PomodoroState, sequence: PomodoroSequence): PhaseStep {
+  const step = sequence.steps[state.stepIndex % sequence.steps.length];
+  if (step.kind === state.phase) return step;
+
+  const isFocus = state.phase === 'work';
+  return {
+    id: `detached-${state.phase}`,
+    kind: state.phase === 'paused' ? 'work' : state.phase,
+    label: step.label,
+    duration: state.phaseDuration / 60,
+    isFocus,
+    radio: isFocus ? 'silent' : 'random',
+  };
+}
+
+/**
+ * The step that follows the current one
+ */
+export function getNextStep(state: PomodoroState, sequence: PomodoroSequence): PhaseStep {
+  return sequence.steps[(state.stepIndex + 1) % sequence.steps.length];
+}
+
+/**
+ * The radio a step plays with, from its phase kind's profile
+ */
+function getStepRadio(step: PhaseStep, context: PomodoroEngineContext): PhaseRadioProfile {
+  return getRadioProfile(step, context.settings.radioProfiles);
+}
+
+function isSilent(step: PhaseStep, context: PomodoroEngineContext): boolean {
+  return getStepRadio(step, context).behavior === 'silent';
+}
+
+// A radio step handing over to one with another profile, e.g. focus audio into a break
+function isRadioHandover(step: PhaseStep, nextStep: PhaseStep, context: PomodoroEngineContext): boolean {
+  return !isSilent(step, context) && !isSilent(nextStep, context)
+    && !isSameRadioProfile(getStepRadio(step, context), getStepRadio(nextStep, context));
+}
+
+// Pick a phase's radio back up where it left off: the station that was playing, or else the
+// profile's radio, without moving a world tour on
+function resumeRadio(step: PhaseStep, radio: PhaseRadioProfile, station: RadioStation | null | undefined): PomodoroCommand {
+  return station
+    ? { type: 'PLAY_STATION', station, profile: radio, isFocus: step.isFocus }
+    : { type: 'PLAY_PHASE_RADIO', profile: radio, isFocus: step.isFocus, resume: true };
+}
+
+/**
+ * Seconds before the current phase ends that its pre-roll starts: the radio lead time
+ * when a silent step hands over to a radio step, the fade-out when a radio step hands
+ * over to a silent one, and both when one radio profile hands over to another, so the
+ * old station has faded out by the time the step ends. Null when the handover needs no pre-roll.
+ */
+export function getPreRollSeconds(state: PomodoroState, context: PomodoroEngineContext): number | null {
+  const step = resolveStep(state, context.sequence);
+  const nextStep = getNextStep(state, context.sequence);
+
+  if (isSilent(step, context) && !isSilent(nextStep, context)) return context.settings.radioLeadTime;
+  if (!isSilent(step, context) && isSilent(nextStep, context)) return context.settings.fadeOutDuration;
+  if (isRadioHandover(step, nextStep, context)) return context.settings.radioLeadTime + context.settings.fadeOutDuration;
+  return null;
+}
+
+// Whether the running phase's pre-roll has fired, so the next step's radio may be loading
+// or waiting for the phase to end
+function isPreRolled(state: PomodoroState): boolean {
+  return state.isRunning && state.phaseEndsAt !== null && state.preRollFiredFor === state.phaseEndsAt;
+}
+
+// The radio falls quiet with the timer: a radio step fades out, and a silent step calls off
+// the next step's radio if it's waiting to start. Resuming fires the pre-roll again.
+function pauseRadio(state: PomodoroState, context: PomodoroEngineContext): PomodoroCommand[] {
+  if (!isSilent(resolveStep(state, context.sequence), context)) {
+    return [{ type: 'FADE_OUT_RADIO', duration: context.settings.fadeOutDuration }];
+  }
+  return isPreRolled(state) ? [{ type: 'STOP_RADIO' }] : [];
+}
+
+/**
+ * Whole seconds left in the phase at the given time
+ */
+function secondsLeftAt(state: PomodoroState, now: number): number {
+  return state.phaseEndsAt !== null
+    ? Math.max(0, Math.ceil((state.phaseEndsAt - now) / 1000))
+    : state.timeRemaining;
+}
+
+/**
+ * Describe how a phase ended for the session history
+ */
+function createHistoryEntry(
+  state: PomodoroState,
+  outcome: PhaseOutcome,
+  endedAt: number,
+  secondsLeft: number,
+  context: PomodoroEngineContext,
+): PhaseHistoryEntry {
+  const step = resolveStep(state, context.sequence);
+  const task = step.isFocus ? context.activeTask : null;
+  return {
+    phase: state.phase,
+    label: step.label,
+    isFocus: step.isFocus,
+    outcome,
+    startedAt: state.phaseStartedAt ?? endedAt,
+    endedAt,
+    plannedDuration: state.phaseDuration,
+    actualDuration: Math.max(0, state.phaseDuration - secondsLeft),
+    ...(task && { taskId: task.id, taskTitle: task.title }),
+    ...(step.isFocus && state.interruptions.length > 0 && { interruptions: state.interruptions }),
+  };
+}
+
+/**
+ * Describe a pause that ended for the session history. The 'paused' phase only ever
+ * appears in history; the state stays in the phase that was paused.
+ */
+function createPauseEntry(state: PomodoroState, outcome: PhaseOutcome, endedAt: number): PhaseHistoryEntry {
+  const startedAt = state.pausedAt ?? endedAt;
+  return {
+    phase: 'paused',
+    label: getPhaseTitle('paused'),
+    isFocus: false,
+    outcome,
+    startedAt,
+    endedAt,
+    plannedDuration: 0,
+    actualDuration: Math.max(0, Math.round((endedAt - startedAt) / 1000)),
+    ...(state.pauseReason && { reason: state.pauseReason }),
+  };
+}
+
+/**
+ * Advance one step through the sequence, chaining the next phase's end time off the
+ * previous one so no time is lost when several transitions are caught up at once
+ */
+function advancePhase(state: PomodoroState, sequence: PomodoroSequence): PomodoroState {
+  const step = resolveStep(state, sequence);
+  const nextStepIndex = (state.stepIndex + 1) % sequence.steps.length;
+  const nextStep = sequence.steps[nextStepIndex];
+  const nextDuration = nextStep.duration * 60;
+
+  return {
+    ...state,
+    phase: nextStep.kind,
+    stepIndex: nextStepIndex,
+    phaseDuration: nextDuration,
+    timeRemaining: nextDuration,
+    phaseStartedAt: state.phaseEndsAt,
+    phaseEndsAt: state.phaseEndsAt !== null ? state.phaseEndsAt + nextDuration * 1000 : null,
+    // Focus completed → count the session; break completed → a new cycle starts
+    completedSessions: step.isFocus ? state.completedSessions + 1 : state.completedSessions,
+    currentCycle: !step.isFocus && nextStep.isFocus ? state.currentCycle + 1 : state.currentCycle,
+    interruptions: [],
+  };
+}
+
+/**
+ * Complete every phase that has ended by `now`, recording each one
+ */
+function completeEndedPhases(state: PomodoroState, now: number, context: PomodoroEngineContext) {
+  const commands: PomodoroCommand[] = [];
+  let next = state;
+  let lastEnded: { step: PhaseStep; endsAt: number } | null = null;
+
+  while (next.isRunning && next.phaseEndsAt !== null && next.phaseEndsAt <= now) {
+    lastEnded = { step: resolveStep(next, context.sequence), endsAt: next.phaseEndsAt };
+    commands.push({
+      type: 'RECORD_PHASE',
+      entry: createHistoryEntry(next, 'completed', next.phaseEndsAt, 0, context),
+    });
+    next = advancePhase(next, context.sequence);
+  }
+
+  const secondsLeft = secondsLeftAt(next, now);
+  if (secondsLeft !== next.timeRemaining) {
+    next = { ...next, timeRemaining: secondsLeft };
+  }
+
+  return { next, lastEnded, commands };
+}
+
+/**
+ * The meeting in progress at a moment, if a calendar is connected
+ */
+function getActiveMeeting(now: number, context: PomodoroEngineContext): BusyBlock | null {
+  return context.calendar ? findActiveBlock(context.calendar.busyBlocks, now) : null;
+}
+
+/**
+ * Check a running focus phase against the calendar. A meeting starting before the phase
+ * ends either cuts the phase short to end as the meeting starts, or is warned about.
+ */
+function fitToCalendar(state: PomodoroState, now: number, context: PomodoroEngineContext): PomodoroEngineResult {
+  const { calendar } = context;
+  if (!calendar || !state.isRunning || state.phaseEndsAt === null || !resolveStep(state, context.sequence).isFocus) {
+    return { state, commands: [] };
+  }
+
+  const block = findNextBlock(calendar.busyBlocks, now, state.phaseEndsAt);
+  if (!block) return { state, commands: [] };
+
+  if (calendar.conflictMode === 'warn') {
+    return { state, commands: [{ type: 'MEETING_AHEAD', block, shortened: false }] };
+  }
+
+  const cutSeconds = Math.floor((state.phaseEndsAt - block.start) / 1000);
+  return {
+    state: {
+      ...state,
+      phaseDuration: Math.max(1, state.phaseDuration - cutSeconds),
+      phaseEndsAt: block.start,
+      timeRemaining: secondsLeftAt({ ...state, phaseEndsAt: block.start }, now),
+    },
+    commands: [{ type: 'MEETING_AHEAD', block, shortened: true }],
+  };
+}
+
+/**
+ * Pause for a meeting, to resume on its own once the meeting is over
+ */
+function yieldToMeeting(state: PomodoroState, now: number, meeting: BusyBlock, context: PomodoroEngineContext): PomodoroEngineResult {
+  const commands = pauseRadio(state, context);
+
+  return {
+    state: {
+      ...state,
+      isRunning: false,
+      phaseEndsAt: null,
+      timeRemaining: secondsLeftAt(state, now),
+      meetingUntil: meeting.end,
+      pausedAt: now,
+      pauseReason: meeting.summary,
+    },
+    commands,
+  };
+}
+
+/**
+ * Pick the timer back up after the meeting it paused for, or keep waiting if another
+ * meeting follows straight on
+ */
+function resumeAfterMeeting(state: PomodoroState, now: number, context: PomodoroEngineContext): PomodoroEngineResult {
+  const meeting = getActiveMeeting(now, context);
+  if (meeting) {
+    return { state: { ...state, meetingUntil: meeting.end }, commands: [] };
+  }
+
+  const resumed = fitToCalendar({
+    ...state,
+    isRunning: true,
+    phaseStartedAt: state.phaseStartedAt ?? now,
+    phaseEndsAt: now + state.timeRemaining * 1000,
+    meetingUntil: null,
+    pausedAt: null,
+    pauseReason: null,
+  }, now, context);
+  if (state.pausedAt !== null) {
+    resumed.commands.unshift({ type: 'RECORD_PHASE', entry: createPauseEntry(state, 'completed', now) });
+  }
+
+  // The break radio was held back during the meeting
+  const step = resolveStep(resumed.state, context.sequence);
+  const radio = getStepRadio(step, context);
+  if (radio.behavior !== 'silent') {
+    resumed.commands.push({ type: 'PLAY_PHASE_RADIO', profile: radio, isFocus: step.isFocus });
+  }
+  return resumed;
+}
+
+/**
+ * Catch up on every phase that ended while the tab was asleep or throttled, then fire
+ * the pre-roll if the current phase is inside its window
+ */
+function catchUp(state: PomodoroState, now: number, context: PomodoroEngineContext): PomodoroEngineResult {
+  const { lastEnded, commands, ...completed } = completeEndedPhases(state, now, context);
+  let next = completed.next;
+
+  // Meetings the user chose to work through no longer count once they're over
+  if (next.meetingUntil !== null && now >= next.meetingUntil) {
+    next = { ...next, meetingUntil: null };
+  }
+  const meeting = next.meetingUntil === null ? getActiveMeeting(now, context) : null;
+
+  if (lastEnded) {
+    const step = resolveStep(next, context.sequence);
+    commands.push({ type: 'ANNOUNCE_PHASE', step });
+
+    const radio = getStepRadio(step, context);
+    const endedRadio = getStepRadio(lastEnded.step, context);
+    if (radio.behavior === 'silent') {
+      // Radio step completed → silent step starts
+      // Failsafe: Force stop any audio that might still be playing
+      commands.push({ type: 'STOP_RADIO' });
+    } else if (endedRadio.behavior === 'silent') {
+      if (state.preRollFiredFor !== lastEnded.endsAt && !meeting) {
+        // The pre-roll window was skipped entirely (e.g. sleeping tab), start the radio now
+        commands.push({ type: 'PLAY_PHASE_RADIO', profile: radio, isFocus: step.isFocus });
+      }
+    } else if (!isSameRadioProfile(endedRadio, radio) && state.preRollFiredFor !== lastEnded.endsAt && !meeting) {
+      // Another profile takes over the radio, and the pre-roll window was skipped
+      commands.push({ type: 'PLAY_PHASE_RADIO', profile: radio, isFocus: step.isFocus });
+    }
+
+    const fitted = fitToCalendar(next, now, context);
+    next = fitted.state;
+    commands.push(...fitted.commands);
+  }
+
+  if (meeting) {
+    const paused = yieldToMeeting(next, now, meeting, context);
+    return { state: paused.state, commands: [...commands, ...paused.commands] };
+  }
+
+  // Fire the pre-roll once per phase as soon as we're inside the window, even if
+  // the exact second was skipped by a throttled timer
+  const preRollSeconds = getPreRollSeconds(next, context);
+  if (
+    next.isRunning &&
+    preRollSeconds !== null &&
+    next.timeRemaining <= preRollSeconds &&
+    next.preRollFiredFor !== next.phaseEndsAt
+  ) {
+    const step = resolveStep(next, context.sequence);
+    const nextStep = getNextStep(next, context.sequence);
+    const isHandover = isRadioHandover(step, nextStep, context);
+    if (isSilent(step, context) || isHandover) {
+      // Search and buffer now, but hold playback until the break actually begins. A break
+      // that begins in a meeting gets its radio once the meeting is over. Handing over from
+      // another station, that one fades out just before the step ends.
+      if (next.phaseEndsAt === null || !getActiveMeeting(next.phaseEndsAt, context)) {
+        const startAt = next.phaseEndsAt === null
+          ? undefined
+          : next.phaseEndsAt - (isHandover ? context.settings.fadeOutDuration * 1000 : 0);
+        commands.push({
+          type: 'PLAY_PHASE_RADIO',
+          profile: getStepRadio(nextStep, context),
+          isFocus: nextStep.isFocus,
+          startAt,
+        });
+      }
+    } else {
+      commands.push({ type: 'FADE_OUT_RADIO', duration: Math.min(preRollSeconds, next.timeRemaining) });
+    }
+    next = { ...next, preRollFiredFor: next.phaseEndsAt };
+  }
+
+  return { state: next, commands };
+}
+
+function isSamePhase(a: PomodoroState, b: PomodoroState): boolean {
+  return a.stepIndex === b.stepIndex && a.currentCycle === b.currentCycle;
+}
+
+/**
+ * The side effects of catching up with a state owned elsewhere, as if its owner's controls
+ * had been used here: a reset, phases ending or being skipped, then a pause or a resume.
+ * Phases passed on the way are only recorded; the last one announces itself and sets the radio.
+ */
+function followState(state: PomodoroState, target: PomodoroState, now: number, context: PomodoroEngineContext): PomodoroCommand[] {
+  const isFresh = target.phaseStartedAt === null && target.stepIndex === 0 && target.currentCycle === 1 && target.completedSessions === 0;
+  if (isFresh && (state.phaseStartedAt !== null || !isSamePhase(state, target))) {
+    return reducePomodoro(state, { type: 'RESET', now }, context).commands;
+  }
+
+  const recorded: PomodoroCommand[] = [];
+  let lastChange: PomodoroCommand[] = [];
+  let next = state;
+  for (let changes = 0; !isSamePhase(next, target); changes++) {
+    // Never caught up, e.g. the owner runs another sequence: mirror it as it is
+    if (changes > context.sequence.steps.length * 2) return [];
+
+    recorded.push(...lastChange.filter(command => command.type === 'RECORD_PHASE'));
+    const ended = next.isRunning && next.phaseEndsAt !== null && next.phaseEndsAt <= now + FOLLOW_TOLERANCE_MS;
+    const result = reducePomodoro(next, { type: ended ? 'PHASE_ELAPSED' : 'SKIP', now }, context);
+    next = result.state;
+    lastChange = result.commands;
+  }
+
+  const commands = [...recorded, ...lastChange];
+  if (next.isRunning && !target.isRunning) {
+    commands.push(...reducePomodoro(next, { type: 'PAUSE', now, reason: target.pauseReason ?? undefined }, context).commands);
+  } else if (!next.isRunning && target.isRunning) {
+    commands.push(...reducePomodoro(next, { type: 'START', now }, context).commands);
+  }
+  return commands;
+}
+
+/**
+ * Pure pomodoro state machine: reduce an event over the current state, returning the
+ * next state and the side effects to carry out. Returns the same state object when
+ * nothing changed, so callers can skip re-rendering.
+ */
+export function reducePomodoro(
+  state: PomodoroState,
+  event: PomodoroEvent,
+  context: PomodoroEngineContext,
+): PomodoroEngineResult {
+  const { sequence } = context;
+
+  switch (event.type) {
+    case 'START': {
+      if (state.isRunning) return { state, commands: [] };
+
+      // A silent step fades out any radio still playing; a radio step starts its radio, or
+      // picks it back up when resuming
+      const step = resolveStep(state, sequence);
+      const radio = getStepRadio(step, context);
+      const commands: PomodoroCommand[] = [radio.behavior === 'silent'
+        ? { type: 'FADE_OUT_RADIO', duration: context.settings.fadeOutDuration }
+        : state.phaseStartedAt !== null
+          ? resumeRadio(step, radio, event.station)
+          : { type: 'PLAY_PHASE_RADIO', profile: radio, isFocus: step.isFocus }];
+
+      // Resuming ends the pause
+      if (state.pausedAt !== null) {
+        commands.unshift({ type: 'RECORD_PHASE', entry: createPauseEntry(state, 'completed', event.now) });
+      }
+
+      // Starting during a meeting means working through it
+      const meeting = getActiveMeeting(event.now, context);
+      const fitted = fitToCalendar({
+        ...state,
+        isRunning: true,
+        phaseStartedAt: state.phaseStartedAt ?? event.now,
+        phaseEndsAt: event.now + state.timeRemaining * 1000,
+        meetingUntil: meeting ? meeting.end : null,
+        pausedAt: null,
+        pauseReason: null,
+      }, event.now, context);
+
+      return { state: fitted.state, commands: [...commands, ...fitted.commands] };
+    }
+
+    case 'PAUSE': {
+      // Pausing while waiting out a meeting cancels the automatic resume, and a reason
+      // given while paused replaces the current one
+      if (!state.isRunning) {
+        if (state.meetingUntil === null && (state.pausedAt === null || event.reason === undefined)) {
+          return { state, commands: [] };
+        }
+        return {
+          state: {
+            ...state,
+            meetingUntil: null,
+            pauseReason: state.pausedAt !== null && event.reason !== undefined ? event.reason : state.pauseReason,
+          },
+          commands: [],
+        };
+      }
+
+      return {
+        state: {
+          ...state,
+          isRunning: false,
+          phaseEndsAt: null,
+          timeRemaining: secondsLeftAt(state, event.now),
+          meetingUntil: null,
+          pausedAt: event.now,
+          pauseReason: event.reason ?? null,
+        },
+        commands: pauseRadio(state, context),
+      };
+    }
+
+    case 'TICK': {
+      if (!state.isRunning) {
+        return state.meetingUntil !== null && event.now >= state.meetingUntil
+          ? resumeAfterMeeting(state, event.now, context)
+          : { state, commands: [] };
+      }
+      if (state.phaseEndsAt === null) return { state, commands: [] };
+      return catchUp(state, event.now, context);
+    }
+
+    case 'PHASE_ELAPSED': {
+      // The current phase reached its end: complete it even if the clock is slightly behind
+      if (!state.isRunning || state.phaseEndsAt === null) return { state, commands: [] };
+      return catchUp(state, Math.max(event.now, state.phaseEndsAt), context);
+    }
+
+    case 'SKIP': {
+      const step = resolveStep(state, sequence);
+      const advanced = advancePhase(state, sequence);
+      const nextStep = resolveStep(advanced, sequence);
+      const commands: PomodoroCommand[] = [{
+        type: 'RECORD_PHASE',
+        entry: createHistoryEntry(state, 'skipped', event.now, secondsLeftAt(state, event.now), context),
+      }, {
+        type: 'ANNOUNCE_PHASE',
+        step: nextStep,
+      }];
+
+      // Skipping ends the pause along with the phase
+      if (state.pausedAt !== null) {
+        commands.unshift({ type: 'RECORD_PHASE', entry: createPauseEntry(state, 'skipped', event.now) });
+      }
+
+      // Trigger radio search or fadeout immediately when skipping. A stopped timer keeps
+      // quiet; starting it plays the radio.
+      const radio = getStepRadio(nextStep, context);
+      const skippedRadio = getStepRadio(step, context);
+      if (skippedRadio.behavior === 'silent' && isPreRolled(state)) {
+        // Call off the radio the pre-roll had waiting for the skipped phase to end
+        commands.push({ type: 'STOP_RADIO' });
+      }
+      if (radio.behavior === 'silent') {
+        // Skipping to a silent step - stop radio right away
+        commands.push({ type: 'FADE_OUT_RADIO', duration: context.settings.fadeOutDuration });
+      } else if (state.isRunning && (skippedRadio.behavior === 'silent' || !isSameRadioProfile(skippedRadio, radio))) {
+        // Skipping to a radio step, or one with another profile - start its radio immediately
+        commands.push({ type: 'PLAY_PHASE_RADIO', profile: radio, isFocus: nextStep.isFocus });
+      }
+
+      // The skipped-to phase starts now rather than when the skipped one would have ended
+      const fitted = fitToCalendar({
+        ...advanced,
+        phaseStartedAt: state.isRunning ? event.now : null,
+        phaseEndsAt: state.isRunning ? event.now + advanced.timeRemaining * 1000 : null,
+        pausedAt: null,
+        pauseReason: null,
+      }, event.now, context);
+
+      return { state: fitted.state, commands: [...commands, ...fitted.commands] };
+    }
+
+    case 'RESET': {
+      const commands: PomodoroCommand[] = [];
+
+      if (state.pausedAt !== null) {
+        commands.push({ type: 'RECORD_PHASE', entry: createPauseEntry(state, 'reset', event.now) });
+      }
+
+      // Record the abandoned phase if it had been started
+      if (state.phaseStartedAt !== null) {
+        commands.push({
+          type: 'RECORD_PHASE',
+          entry: createHistoryEntry(state, 'reset', event.now, secondsLeftAt(state, event.now), context),
+        });
+      }
+
+      // Stop audio completely
+      commands.push({ type: 'STOP_RADIO' });
+
+      return { state: createInitialState(sequence), commands };
+    }
+
+    case 'DURATION_CHANGED': {
+      // A new duration for the current step rescales the remaining time proportionally,
+      // so the same fraction of the phase is left. Everything else (other step durations,
+      // step order) applies from the next phase.
+      const configuredDuration = resolveStep(state, sequence).duration * 60;
+      if (configuredDuration === state.phaseDuration) return { state, commands: [] };
+
+      const ratio = configuredDuration / state.phaseDuration;
+      if (state.phaseEndsAt === null) {
+        return {
+          state: {
+            ...state,
+            phaseDuration: configuredDuration,
+            timeRemaining: Math.max(1, Math.round(state.timeRemaining * ratio)),
+          },
+          commands: [],
+        };
+      }
+
+      const phaseEndsAt = event.now + Math.max(1000, (state.phaseEndsAt - event.now) * ratio);
+      return {
+        state: {
+          ...state,
+          phaseDuration: configuredDuration,
+          phaseEndsAt,
+          timeRemaining: Math.ceil((phaseEndsAt - event.now) / 1000),
+        },
+        commands: [],
+      };
+    }
+
+    case 'INTERRUPT': {
+      // Interruptions are counted against a focus phase that has been started
+      if (state.phaseStartedAt === null || !resolveStep(state, sequence).isFocus) {
+        return { state, commands: [] };
+      }
+
+      return {
+        state: { ...state, interruptions: [...state.interruptions, { kind: event.kind, at: event.now }] },
+        commands: [],
+      };
+    }
+
+    case 'NOTE_INTERRUPTION': {
+      const reason = event.reason.trim();
+      if (!state.interruptions.some(interruption => interruption.at === event.at)) {
+        return { state, commands: [] };
+      }
+
+      return {
+        state: {
+          ...state,
+          interruptions: state.interruptions.map(interruption =>
+            interruption.at === event.at ? { ...interruption, reason: reason || undefined } : interruption
+          ),
+        },
+        commands: [],
+      };
+    }
+
+    case 'RESTORE': {
+      // Catch up on phases that ended while the page was closed. The pre-roll is left to
+      // the next tick so it isn't skipped for a phase we're resuming in the middle of.
+      const { next, commands } = completeEndedPhases(event.state, event.now, context);
+      // Sessions saved by older versions lack the newer fields
+      const restored: PomodoroState = {
+        ...next,
+        preRollFiredFor: null,
+        meetingUntil: next.meetingUntil ?? null,
+        interruptions: next.interruptions ?? [],
+        pausedAt: next.pausedAt ?? null,
+        pauseReason: next.pauseReason ?? null,
+      };
+
+      // Pick the break radio back up, preferring the station that was playing. During a
+      // meeting the next tick pauses the timer instead.
+      const restoredStep = resolveStep(restored, sequence);
+      const radio = getStepRadio(restoredStep, context);
+      if (
+        restored.isRunning &&
+        radio.behavior !== 'silent' &&
+        (restored.meetingUntil !== null || !getActiveMeeting(event.now, context))
+      ) {
+        commands.push(commands.length === 0
+          ? resumeRadio(restoredStep, radio, event.breakStation)
+          : { type: 'PLAY_PHASE_RADIO', profile: radio, isFocus: restoredStep.isFocus });
+      }
+
+      return { state: restored, commands };
+    }
+
+    case 'SYNC': {
+      // Someone else owns this session: take their state as-is. Another tab of this browser
+      // carries out the side effects itself; a room member follows along with its own.
+      return {
+        state: event.state,
+        commands: event.follow ? followState(state, event.state, event.now, context) : [],
+      };
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import type { PersistedPomodoroSession, PomodoroState } from '@/types/pomodoro';
+import type { RadioStation } from '@/types/radio';
+
+export const SESSION_STORAGE_KEY = 'pomodoro-session';
+
+/**
+ * Save the in-progress timer so it can be resumed after a reload or crash
+ */
+export function saveSession(state: PomodoroState, breakStation: RadioStation | null): void {
+  const session: PersistedPomodoroSession = {
+    state,
+    breakStation,
+    savedAt: Date.now(),
+  };
+  localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+}
+
+/**
+ * Read the saved session, if any
+ */
+export function loadSession(): PersistedPomodoroSession | null {
+  if (typeof window === 'undefined') return null;
+
+  const saved = localStorage.getItem(SESSION_STORAGE_KEY);
+  if (!saved) return null;
+
+  try {
+    const session = JSON.parse(saved) as PersistedPomodoroSession;
+    if (
+      !session.state ||
+      typeof session.state.timeRemaining !== 'number' ||
+      typeof session.state.stepIndex !== 'number' ||
+      typeof session.state.phaseDuration !== 'number'
+    ) {
+      return null;
+    }
+    return session;
+  } catch (error) {
+    console.error('Failed to load saved pomodoro session:', error);
+    return null;
+  }
+}
+
+/**
+ * Forget the saved session
+ */
+export function clearSession(): void {
+  localStorage.removeItem(SESSION_STORAGE_KEY);
+}
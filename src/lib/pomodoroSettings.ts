@@ -0,0 +1,113 @@
+import type { PomodoroSettings } from '@/types/pomodoro';
+import { DEFAULT_RADIO_PROFILES, sanitizeRadioProfiles } from '@/lib/radioProfiles';
+
+export const SETTINGS_STORAGE_KEY = 'pomodoro-settings';
+
+export const DEFAULT_SETTINGS: PomodoroSettings = {
+  workDuration: 25,
+  shortBreakDuration: 5,
+  longBreakDuration: 15,
+  sessionsUntilLongBreak: 4,
+  fadeInDuration: 3,
+  fadeOutDuration: 3,
+  radioLeadTime: 8,
+  radioProfiles: DEFAULT_RADIO_PROFILES,
+};
+
+interface SettingLimit {
+  label: string;
+  min: number;
+  max: number;
+  integer: boolean;
+}
+
+// Settings edited as plain numbers
+export type NumericSettingKey = Exclude<keyof PomodoroSettings, 'radioProfiles'>;
+
+// Allowed range for every numeric field, also used to render the settings form
+export const SETTINGS_LIMITS: Record<NumericSettingKey, SettingLimit> = {
+  workDuration: { label: 'Focus (min)', min: 1, max: 180, integer: true },
+  shortBreakDuration: { label: 'Short break (min)', min: 1, max: 60, integer: true },
+  longBreakDuration: { label: 'Long break (min)', min: 1, max: 120, integer: true },
+  sessionsUntilLongBreak: { label: 'Sessions per long break', min: 1, max: 12, integer: true },
+  fadeInDuration: { label: 'Fade in (sec)', min: 0, max: 30, integer: false },
+  fadeOutDuration: { label: 'Fade out (sec)', min: 0, max: 30, integer: false },
+  radioLeadTime: { label: 'Radio lead time (sec)', min: 0, max: 60, integer: true },
+};
+
+export type SettingsErrors = Partial<Record<keyof PomodoroSettings, string>>;
+
+/**
+ * Check a single settings value against its limits, returning an error message if invalid
+ */
+export function validateSetting(key: NumericSettingKey, value: unknown): string | null {
+  const limit = SETTINGS_LIMITS[key];
+
+  if (typeof value !== 'number' || isNaN(value)) {
+    return 'Enter a number';
+  }
+  if (limit.integer && !Number.isInteger(value)) {
+    return 'Enter a whole number';
+  }
+  if (value < limit.min || value > limit.max) {
+    return `Must be between ${limit.min} and ${limit.max}`;
+  }
+  return null;
+}
+
+/**
+ * Validate a partial settings object, keeping only the fields that pass
+ */
+export function validateSettings(input: Partial<Record<keyof PomodoroSettings, unknown>>): {
+  settings: Partial<PomodoroSettings>;
+  errors: SettingsErrors;
+} {
+  const settings: Partial<PomodoroSettings> = {};
+  const errors: SettingsErrors = {};
+
+  (Object.keys(SETTINGS_LIMITS) as NumericSettingKey[]).forEach(key => {
+    if (!(key in input)) return;
+
+    const error = validateSetting(key, input[key]);
+    if (error) {
+      errors[key] = error;
+    } else {
+      settings[key] = input[key] as number;
+    }
+  });
+
+  // Radio profiles are cleaned up rather than rejected
+  if ('radioProfiles' in input) {
+    settings.radioProfiles = sanitizeRadioProfiles(input.radioProfiles);
+  }
+
+  return { settings, errors };
+}
+
+/**
+ * Read saved settings from localStorage, dropping anything that no longer validates
+ */
+export function loadSettings(): Partial<PomodoroSettings> {
+  if (typeof window === 'undefined') return {};
+
+  const saved = localStorage.getItem(SETTINGS_STORAGE_KEY);
+  if (!saved) return {};
+
+  try {
+    const { settings, errors } = validateSettings(JSON.parse(saved));
+    if (Object.keys(errors).length > 0) {
+      console.warn('Ignoring invalid saved pomodoro settings:', errors);
+    }
+    return settings;
+  } catch (error) {
+    console.error('Failed to load pomodoro settings:', error);
+    return {};
+  }
+}
+
+/**
+ * Persist settings to localStorage
+ */
+export function saveSettings(settings: Partial<PomodoroSettings>): void {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
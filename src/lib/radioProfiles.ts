@@ -0,0 +1,162 @@
+import type { PhaseRadioBehavior, PhaseRadioProfile, PhaseStep, RadioProfileKind } from '@/types/pomodoro';
+import type { RadioStation, TimeOfDayMode } from '@/types/radio';
+
+export const RADIO_PROFILE_KINDS: RadioProfileKind[] = ['work', 'shortBreak', 'longBreak', 'custom'];
+
+export const RADIO_PROFILE_LABELS: Record<RadioProfileKind, string> = {
+  work: 'Focus',
+  shortBreak: 'Short break',
+  longBreak: 'Long break',
+  custom: 'Other breaks',
+};
+
+export const RADIO_BEHAVIOR_LABELS: Record<PhaseRadioBehavior, string> = {
+  silent: 'Silent',
+  random: 'Random station',
+  favorite: 'A favorite',
+  randomCountry: 'Random country',
+  stream: 'Stream URL',
+  focus: 'Focus stations',
+  morning: "Where it's morning",
+  sameTime: 'Same time as me',
+  sunset: 'Sunset somewhere',
+};
+
+export function isTimeOfDayBehavior(behavior: PhaseRadioBehavior): behavior is TimeOfDayMode {
+  return behavior === 'morning' || behavior === 'sameTime' || behavior === 'sunset';
+}
+
+const DEFAULT_PROFILE: PhaseRadioProfile = {
+  behavior: 'random',
+  volume: 0.7,
+  genre: '',
+  countrycode: '',
+  streamUrl: '',
+};
+
+// Matches the radio before profiles: silent focus, a random station on every break
+export const DEFAULT_RADIO_PROFILES: Record<RadioProfileKind, PhaseRadioProfile> = {
+  work: { ...DEFAULT_PROFILE, behavior: 'silent' },
+  shortBreak: DEFAULT_PROFILE,
+  longBreak: DEFAULT_PROFILE,
+  custom: DEFAULT_PROFILE,
+};
+
+export function getRadioProfileKind(step: Pick<PhaseStep, 'kind' | 'isFocus'>): RadioProfileKind {
+  if (step.isFocus) return 'work';
+  if (step.kind === 'shortBreak' || step.kind === 'longBreak') return step.kind;
+  return 'custom';
+}
+
+/**
+ * The radio a step plays. Focus steps follow the focus profile, which is silent unless
+ * the user opts in. Other steps follow their kind's profile, unless their sequence turns
+ * the radio off for them.
+ */
+export function getRadioProfile(step: PhaseStep, profiles: Record<RadioProfileKind, PhaseRadioProfile>): PhaseRadioProfile {
+  const profile = profiles[getRadioProfileKind(step)];
+  if (!step.isFocus && step.radio === 'silent') {
+    return { ...profile, behavior: 'silent' };
+  }
+  return profile;
+}
+
+export function isSameRadioProfile(a: PhaseRadioProfile, b: PhaseRadioProfile): boolean {
+  return a.behavior === b.behavior
+    && a.volume === b.volume
+    && a.genre === b.genre
+    && a.countrycode === b.countrycode
+    && a.streamUrl === b.streamUrl;
+}
+
+/**
+ * Clean up profiles read from storage, filling in defaults for anything missing or invalid
+ */
+export function sanitizeRadioProfiles(input: unknown): Record<RadioProfileKind, PhaseRadioProfile> {
+  const source = typeof input === 'object' && input !== null ? input as Record<string, Partial<PhaseRadioProfile>> : {};
+
+  return Object.fromEntries(RADIO_PROFILE_KINDS.map(kind => {
+    const fallback = DEFAULT_RADIO_PROFILES[kind];
+    const profile = source[kind] ?? {};
+    return [kind, {
+      behavior: typeof profile.behavior === 'string' && profile.behavior in RADIO_BEHAVIOR_LABELS
+        ? profile.behavior
+        : fallback.behavior,
+      volume: typeof profile.volume === 'number' && !isNaN(profile.volume)
+        ? Math.max(0, Math.min(1, profile.volume))
+        : fallback.volume,
+      genre: typeof profile.genre === 'string' ? profile.genre : fallback.genre,
+      countrycode: typeof profile.countrycode === 'string' ? profile.countrycode.toUpperCase() : fallback.countrycode,
+      streamUrl: typeof profile.streamUrl === 'string' ? profile.streamUrl : fallback.streamUrl,
+    }];
+  })) as Record<RadioProfileKind, PhaseRadioProfile>;
+}
+
+/**
+ * Stations that fit a profile's genre and country filters
+ */
+export function filterStationsForProfile(stations: RadioStation[], profile: PhaseRadioProfile): RadioStation[] {
+  const genre = profile.genre.trim().toLowerCase();
+  const countrycode = profile.countrycode.trim().toUpperCase();
+
+  return stations.filter(station =>
+    (!genre || (station.tags ?? '').toLowerCase().split(',').some(tag => tag.trim().includes(genre))) &&
+    (!countrycode || station.countrycode?.toUpperCase() === countrycode)
+  );
+}
+
+// Tags of the low-key, mostly wordless stations on the focus list
+const FOCUS_TAGS = ['ambient', 'lofi', 'lo-fi', 'chillout', 'chillhop', 'downtempo', 'classical', 'piano', 'baroque', 'meditation', 'relaxation', 'study', 'drone', 'soundscape'];
+// Tags that rule a station out however calm its music, as talk breaks concentration
+const NON_FOCUS_TAGS = ['news', 'talk', 'sports', 'comedy'];
+
+/**
+ * Whether a station is on the curated focus list, judged by its tags
+ */
+export function isFocusStation(station: RadioStation): boolean {
+  const tags = (station.tags ?? '').toLowerCase().split(',').map(tag => tag.trim()).filter(Boolean);
+  return tags.some(tag => FOCUS_TAGS.some(focusTag => tag.includes(focusTag)))
+    && !tags.some(tag => NON_FOCUS_TAGS.some(nonFocusTag => tag.includes(nonFocusTag)));
+}
+
+const STREAM_STATION_PREFIX = 'stream:';
+
+/**
+ * A stream URL dressed up as a station, so the player can treat it like any other
+ */
+export function createStreamStation(url: string): RadioStation {
+  return {
+    stationuuid: `${STREAM_STATION_PREFIX}${url}`,
+    name: 'Custom stream',
+    url,
+    url_resolved: url,
+    homepage: '',
+    favicon: '',
+    tags: '',
+    country: '',
+    countrycode: '',
+    state: '',
+    language: '',
+    languagecodes: '',
+    votes: 0,
+    lastchangetime: '',
+    codec: '',
+    bitrate: 0,
+    hls: 0,
+    lastcheckok: 1,
+    lastchecktime: '',
+    lastcheckoktime: '',
+    lastlocalchecktime: '',
+    clicktimestamp: '',
+    clickcount: 0,
+    clicktrend: 0,
+    ssl_error: 0,
+    geo_lat: 0,
+    geo_long: 0,
+  };
+}
+
+// Custom streams aren't in the radio-browser directory
+export function isStreamStation(station: RadioStation): boolean {
+  return station.stationuuid.startsWith(STREAM_STATION_PREFIX);
+}
@@ -0,0 +1,63 @@
+import type { PomodoroState } from '@/types/pomodoro';
+import type { RoomMemberStatus } from '@/types/rooms';
+
+export const ROOM_STORAGE_KEY = 'pomodoro-room';
+
+// Port `npm run rooms` listens on by default
+const DEFAULT_ROOM_SERVER_PORT = 4001;
+
+export const ROOM_STATUS_LABELS: Record<RoomMemberStatus, string> = {
+  focusing: 'Focusing',
+  break: 'On break',
+  paused: 'Paused',
+  idle: 'Idle',
+};
+
+/**
+ * WebSocket URL of the room server: NEXT_PUBLIC_ROOM_SERVER_URL, or the same host on
+ * the default port
+ */
+export function getRoomServerUrl(): string {
+  if (process.env.NEXT_PUBLIC_ROOM_SERVER_URL) {
+    return process.env.NEXT_PUBLIC_ROOM_SERVER_URL;
+  }
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  return `${protocol}//${window.location.hostname}:${DEFAULT_ROOM_SERVER_PORT}`;
+}
+
+// Short, readable room codes without look-alike characters
+export function createRoomId(): string {
+  const alphabet = 'abcdefghjkmnpqrstuvwxyz23456789';
+  return Array.from({ length: 8 }, () => alphabet[Math.floor(Math.random() * alphabet.length)]).join('');
+}
+
+// Room codes the server accepts
+export function isValidRoomId(roomId: string): boolean {
+  return /^[a-z0-9-]{3,40}$/i.test(roomId);
+}
+
+export function getRoomLink(roomId: string): string {
+  return `${window.location.origin}${window.location.pathname}?room=${encodeURIComponent(roomId)}`;
+}
+
+/**
+ * Move every timestamp in a timer state by `offset` ms, to convert between this
+ * browser's clock and the room server's
+ */
+export function shiftStateClock(state: PomodoroState, offset: number): PomodoroState {
+  const shift = (time: number | null) => (time === null ? null : time + offset);
+  return {
+    ...state,
+    phaseStartedAt: shift(state.phaseStartedAt),
+    phaseEndsAt: shift(state.phaseEndsAt),
+    preRollFiredFor: shift(state.preRollFiredFor),
+    meetingUntil: shift(state.meetingUntil),
+    pausedAt: shift(state.pausedAt),
+    interruptions: state.interruptions.map(interruption => ({ ...interruption, at: interruption.at + offset })),
+  };
+}
+
+export function getMemberStatus(state: Pick<PomodoroState, 'isRunning' | 'phaseStartedAt'>, isFocus: boolean): RoomMemberStatus {
+  if (state.isRunning) return isFocus ? 'focusing' : 'break';
+  return state.phaseStartedAt !== null ? 'paused' : 'idle';
+}
@@ -0,0 +1,115 @@
+import type { PomodoroSettings, PomodoroSequence, PomodoroPhase, PhaseStep, CustomPhaseKind } from '@/types/pomodoro';
+
+export const CLASSIC_SEQUENCE_ID = 'classic';
+
+const PHASE_TITLES: Record<string, string> = {
+  work: 'Focus Time',
+  shortBreak: 'Short Break',
+  longBreak: 'Long Break',
+  paused: 'Paused',
+};
+
+/**
+ * Display title for a phase kind, e.g. 'custom:lunch' → 'Lunch'
+ */
+export function getPhaseTitle(phase: PomodoroPhase): string {
+  if (PHASE_TITLES[phase]) return PHASE_TITLES[phase];
+
+  const name = phase.replace(/^custom:/, '').replace(/-/g, ' ');
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+/**
+ * Build a custom phase kind from a user-facing label
+ */
+export function createCustomPhaseKind(label: string): CustomPhaseKind {
+  const slug = label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `custom:${slug || 'phase'}`;
+}
+
+/**
+ * The classic cycle, driven by the editable settings:
+ * work → short break ×(N−1) → work → long break
+ */
+export function buildClassicSequence(settings: PomodoroSettings): PomodoroSequence {
+  const steps: PhaseStep[] = [];
+
+  for (let i = 0; i < settings.sessionsUntilLongBreak; i++) {
+    const isLast = i === settings.sessionsUntilLongBreak - 1;
+    steps.push({
+      id: `work-${i}`,
+      kind: 'work',
+      label: PHASE_TITLES.work,
+      duration: settings.workDuration,
+      isFocus: true,
+      radio: 'silent',
+    });
+    steps.push({
+      id: `${isLast ? 'long' : 'short'}-${i}`,
+      kind: isLast ? 'longBreak' : 'shortBreak',
+      label: isLast ? PHASE_TITLES.longBreak : PHASE_TITLES.shortBreak,
+      duration: isLast ? settings.longBreakDuration : settings.shortBreakDuration,
+      isFocus: false,
+      radio: 'random',
+    });
+  }
+
+  return {
+    id: CLASSIC_SEQUENCE_ID,
+    name: `Classic (${settings.workDuration}/${settings.shortBreakDuration}/${settings.longBreakDuration})`,
+    steps,
+    builtIn: true,
+  };
+}
+
+// Built-in presets with fixed timings (the classic sequence is built from settings)
+export const PRESET_SEQUENCES: PomodoroSequence[] = [
+  {
+    id: 'desktime-52-17',
+    name: '52/17',
+    builtIn: true,
+    steps: [
+      { id: 'work', kind: 'work', label: 'Focus Time', duration: 52, isFocus: true, radio: 'silent' },
+      { id: 'break', kind: 'shortBreak', label: 'Break', duration: 17, isFocus: false, radio: 'random' },
+    ],
+  },
+  {
+    id: 'ultradian-90',
+    name: 'Ultradian (90/20)',
+    builtIn: true,
+    steps: [
+      { id: 'work', kind: 'work', label: 'Deep Work', duration: 90, isFocus: true, radio: 'silent' },
+      { id: 'break', kind: 'longBreak', label: 'Recovery', duration: 20, isFocus: false, radio: 'random' },
+    ],
+  },
+  {
+    id: 'two-blocks-lunch',
+    name: 'Two blocks, then lunch',
+    builtIn: true,
+    steps: [
+      { id: 'work-1', kind: 'work', label: 'Focus Block', duration: 90, isFocus: true, radio: 'silent' },
+      { id: 'break', kind: 'shortBreak', label: 'Short Break', duration: 15, isFocus: false, radio: 'random' },
+      { id: 'work-2', kind: 'work', label: 'Focus Block', duration: 90, isFocus: true, radio: 'silent' },
+      { id: 'lunch', kind: 'custom:lunch', label: 'Lunch', duration: 60, isFocus: false, radio: 'random' },
+    ],
+  },
+];
+
+/**
+ * All built-in sequences, with the classic one reflecting the current settings
+ */
+export function getBuiltInSequences(settings: PomodoroSettings): PomodoroSequence[] {
+  return [buildClassicSequence(settings), ...PRESET_SEQUENCES];
+}
+
+/**
+ * Check that a sequence can be run: at least one step, every step at least a minute long
+ */
+export function isValidSequence(sequence: PomodoroSequence): boolean {
+  return sequence.steps.length > 0 && sequence.steps.every(step =>
+    step.label.trim().length > 0 &&
+    Number.isFinite(step.duration) &&
+    step.duration >= 1 &&
+    step.duration <= 480
+  );
+}
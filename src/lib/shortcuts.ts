@@ -0,0 +1,119 @@
+import type { ShortcutAction, ShortcutBindings } from '@/types/shortcuts';
+
+export const SHORTCUTS_STORAGE_KEY = 'pomodoro-shortcuts';
+
+export const DEFAULT_SHORTCUTS: ShortcutBindings = {
+  toggleTimer: 'Space',
+  resetTimer: 'r',
+  skipPhase: 's',
+  logInternalInterruption: 'i',
+  logExternalInterruption: 'e',
+  toggleRadio: 'p',
+  volumeUp: 'ArrowUp',
+  volumeDown: 'ArrowDown',
+  toggleFavorite: 'f',
+  openPalette: 'Mod+k',
+  showShortcuts: '?',
+};
+
+export const SHORTCUT_LABELS: Record<ShortcutAction, string> = {
+  toggleTimer: 'Start / pause timer',
+  resetTimer: 'Reset timer',
+  skipPhase: 'Skip to next phase',
+  logInternalInterruption: 'Log internal interruption',
+  logExternalInterruption: 'Log external interruption',
+  toggleRadio: 'Play / pause radio',
+  volumeUp: 'Volume up',
+  volumeDown: 'Volume down',
+  toggleFavorite: 'Favorite current station',
+  openPalette: 'Command palette',
+  showShortcuts: 'Keyboard shortcuts',
+};
+
+export const SHORTCUT_ACTIONS = Object.keys(DEFAULT_SHORTCUTS) as ShortcutAction[];
+
+const MODIFIER_KEYS = new Set(['Control', 'Meta', 'Alt', 'Shift']);
+
+function isMac(): boolean {
+  return typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+}
+
+/**
+ * Normalize a key event into a combo string, or null for a lone modifier press.
+ * Shift is only recorded for named keys and letters; for symbols like '?' it's
+ * already part of the key.
+ */
+export function eventToCombo(event: KeyboardEvent): string | null {
+  if (MODIFIER_KEYS.has(event.key)) return null;
+
+  const key = event.key === ' ' ? 'Space' : event.key.length === 1 ? event.key.toLowerCase() : event.key;
+  const recordsShift = event.key.length > 1 || /^[a-z]$/i.test(event.key);
+
+  return [
+    (event.ctrlKey || event.metaKey) && 'Mod',
+    event.altKey && 'Alt',
+    event.shiftKey && recordsShift && 'Shift',
+    key,
+  ].filter(Boolean).join('+');
+}
+
+/**
+ * Human-readable form of a combo for the cheat sheet
+ */
+export function formatCombo(combo: string): string {
+  return combo
+    .split('+')
+    .map(part => {
+      if (part === 'Mod') return isMac() ? '⌘' : 'Ctrl';
+      if (part === 'ArrowUp') return '↑';
+      if (part === 'ArrowDown') return '↓';
+      if (part === 'ArrowLeft') return '←';
+      if (part === 'ArrowRight') return '→';
+      return part.length === 1 ? part.toUpperCase() : part;
+    })
+    .join(isMac() ? '' : '+');
+}
+
+/**
+ * Whether a key event happened while typing, where single-key shortcuts must not fire
+ */
+export function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    target.tagName === 'INPUT' ||
+    target.tagName === 'TEXTAREA' ||
+    target.tagName === 'SELECT'
+  );
+}
+
+/**
+ * Read saved bindings from localStorage, falling back to the defaults per action
+ */
+export function loadShortcuts(): ShortcutBindings {
+  if (typeof window === 'undefined') return DEFAULT_SHORTCUTS;
+
+  const saved = localStorage.getItem(SHORTCUTS_STORAGE_KEY);
+  if (!saved) return DEFAULT_SHORTCUTS;
+
+  try {
+    const parsed = JSON.parse(saved) as Partial<ShortcutBindings>;
+    const bindings = { ...DEFAULT_SHORTCUTS };
+    SHORTCUT_ACTIONS.forEach(action => {
+      if (typeof parsed[action] === 'string') {
+        bindings[action] = parsed[action];
+      }
+    });
+    return bindings;
+  } catch (error) {
+    console.error('Failed to load keyboard shortcuts:', error);
+    return DEFAULT_SHORTCUTS;
+  }
+}
+
+/**
+ * Persist bindings to localStorage
+ */
+export function saveShortcuts(bindings: ShortcutBindings): void {
+  localStorage.setItem(SHORTCUTS_STORAGE_KEY, JSON.stringify(bindings));
+}
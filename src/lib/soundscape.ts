@@ -0,0 +1,192 @@
+import type { RadioStation } from '@/types/radio';
+import { createStreamStation } from '@/lib/radioProfiles';
+
+const SOUNDSCAPE_STATION_ID = 'soundscape:offline';
+
+// Loops are this long; long enough that the noise doesn't audibly repeat
+const NOISE_SECONDS = 8;
+const RAIN_SECONDS = 11;
+// Each loop's end is blended into its start over this long, so the seam doesn't click
+const SEAM_SECONDS = 0.5;
+const RAINDROPS_PER_SECOND = 30;
+
+// A slow progression of soft chords (Am9, Fmaj7, Cmaj7, G6), in Hz
+const PAD_CHORDS = [
+  [110.0, 164.81, 246.94, 261.63],
+  [87.31, 130.81, 220.0, 329.63],
+  [130.81, 196.0, 246.94, 329.63],
+  [98.0, 146.83, 246.94, 329.63],
+];
+const CHORD_SECONDS = 14;
+
+const LEVELS = { brown: 0.35, pink: 0.05, rain: 0.22, pad: 0.06 };
+
+export interface Soundscape {
+  stream: MediaStream; // play it through an audio element like any stream
+  stop: () => void;
+}
+
+/**
+ * The generated soundscape dressed up as a station, for when no real station can be reached
+ */
+export function createSoundscapeStation(): RadioStation {
+  return {
+    ...createStreamStation(''),
+    stationuuid: SOUNDSCAPE_STATION_ID,
+    name: 'Rain, noise and pads, made on this device',
+    country: 'Offline soundscape',
+    tags: 'ambient,noise,rain',
+  };
+}
+
+export function isSoundscapeStation(station: RadioStation | null | undefined): boolean {
+  return station?.stationuuid === SOUNDSCAPE_STATION_ID;
+}
+
+// Fill a looping stereo buffer, blending the samples past its end into its start
+function createLoopBuffer(context: AudioContext, seconds: number, fill: (data: Float32Array) => void): AudioBuffer {
+  const length = Math.floor(seconds * context.sampleRate);
+  const seam = Math.floor(SEAM_SECONDS * context.sampleRate);
+  const buffer = context.createBuffer(2, length, context.sampleRate);
+
+  for (let channel = 0; channel < 2; channel++) {
+    const data = new Float32Array(length + seam);
+    fill(data);
+    const output = buffer.getChannelData(channel);
+    output.set(data.subarray(0, length));
+    for (let i = 0; i < seam; i++) {
+      const t = i / seam;
+      output[i] = data[i] * t + data[length + i] * (1 - t);
+    }
+  }
+  return buffer;
+}
+
+function fillBrownNoise(data: Float32Array) {
+  let last = 0;
+  for (let i = 0; i < data.length; i++) {
+    last = (last + 0.02 * (Math.random() * 2 - 1)) / 1.02;
+    data[i] = last * 3.5;
+  }
+}
+
+// Paul Kellet's filter for pink noise
+function fillPinkNoise(data: Float32Array) {
+  let b0 = 0, b1 = 0, b2 = 0, b3 = 0, b4 = 0, b5 = 0, b6 = 0;
+  for (let i = 0; i < data.length; i++) {
+    const white = Math.random() * 2 - 1;
+    b0 = 0.99886 * b0 + white * 0.0555179;
+    b1 = 0.99332 * b1 + white * 0.0750759;
+    b2 = 0.969 * b2 + white * 0.153852;
+    b3 = 0.8665 * b3 + white * 0.3104856;
+    b4 = 0.55 * b4 + white * 0.5329522;
+    b5 = -0.7616 * b5 - white * 0.016898;
+    data[i] = (b0 + b1 + b2 + b3 + b4 + b5 + b6 + white * 0.5362) * 0.11;
+    b6 = white * 0.115926;
+  }
+}
+
+// A soft hiss with raindrops scattered over it: short bursts of noise that die away
+function fillRain(sampleRate: number) {
+  return (data: Float32Array) => {
+    for (let i = 0; i < data.length; i++) {
+      data[i] = (Math.random() * 2 - 1) * 0.15;
+    }
+
+    const drops = Math.floor(data.length / sampleRate * RAINDROPS_PER_SECOND);
+    for (let drop = 0; drop < drops; drop++) {
+      const start = Math.floor(Math.random() * data.length);
+      const amplitude = 0.2 + Math.random() * 0.6;
+      const decay = sampleRate * (0.002 + Math.random() * 0.01);
+      for (let i = 0; i < decay * 5 && start + i < data.length; i++) {
+        data[start + i] += (Math.random() * 2 - 1) * amplitude * Math.exp(-i / decay);
+      }
+    }
+  };
+}
+
+function createLoop(context: AudioContext, buffer: AudioBuffer, level: number, destination: AudioNode): AudioBufferSourceNode {
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.loop = true;
+  const gain = context.createGain();
+  gain.gain.value = level;
+  source.connect(gain).connect(destination);
+  source.start();
+  return source;
+}
+
+/**
+ * Start a calm, endless soundscape made entirely with Web Audio: brown and pink noise,
+ * rain and slowly changing tonal pads. It needs no network at all.
+ */
+export function createSoundscape(): Soundscape {
+  const context = new AudioContext();
+  const output = context.createMediaStreamDestination();
+
+  const master = context.createGain();
+  master.gain.value = 0.8;
+  const compressor = context.createDynamicsCompressor();
+  master.connect(compressor).connect(output);
+
+  // Noise beds, with the harsh top end taken off
+  const noiseFilter = context.createBiquadFilter();
+  noiseFilter.type = 'lowpass';
+  noiseFilter.frequency.value = 2500;
+  noiseFilter.connect(master);
+  createLoop(context, createLoopBuffer(context, NOISE_SECONDS, fillBrownNoise), LEVELS.brown, noiseFilter);
+  createLoop(context, createLoopBuffer(context, NOISE_SECONDS, fillPinkNoise), LEVELS.pink, noiseFilter);
+
+  // Rain sits in the upper mids, above the noise beds
+  const rainFilter = context.createBiquadFilter();
+  rainFilter.type = 'bandpass';
+  rainFilter.frequency.value = 3000;
+  rainFilter.Q.value = 0.6;
+  rainFilter.connect(master);
+  createLoop(context, createLoopBuffer(context, RAIN_SECONDS, fillRain(context.sampleRate)), LEVELS.rain, rainFilter);
+
+  // Pads: each chord tone is a pair of slightly detuned oscillators, slowly swelling
+  const padFilter = context.createBiquadFilter();
+  padFilter.type = 'lowpass';
+  padFilter.frequency.value = 900;
+  const padGain = context.createGain();
+  padGain.gain.value = LEVELS.pad;
+  padFilter.connect(padGain).connect(master);
+
+  const swell = context.createOscillator();
+  swell.frequency.value = 0.05;
+  const swellDepth = context.createGain();
+  swellDepth.gain.value = LEVELS.pad * 0.5;
+  swell.connect(swellDepth).connect(padGain.gain);
+  swell.start();
+
+  const voices = PAD_CHORDS[0].map(frequency => [-4, 4].map(detune => {
+    const oscillator = context.createOscillator();
+    oscillator.type = detune < 0 ? 'sine' : 'triangle';
+    oscillator.frequency.value = frequency;
+    oscillator.detune.value = detune;
+    oscillator.connect(padFilter);
+    oscillator.start();
+    return oscillator;
+  }));
+
+  // Glide to the next chord every so often
+  let chordIndex = 0;
+  const chordTimer = setInterval(() => {
+    chordIndex = (chordIndex + 1) % PAD_CHORDS.length;
+    voices.forEach((pair, voice) => pair.forEach(oscillator => {
+      oscillator.frequency.setTargetAtTime(PAD_CHORDS[chordIndex][voice], context.currentTime, 1.5);
+    }));
+  }, CHORD_SECONDS * 1000);
+
+  // Outside a user gesture the context may start suspended
+  context.resume().catch(console.error);
+
+  return {
+    stream: output.stream,
+    stop: () => {
+      clearInterval(chordTimer);
+      context.close().catch(console.error);
+    },
+  };
+}
@@ -0,0 +1,100 @@
+import type { RadioStation, StationFilters } from '@/types/radio';
+
+export const STATION_FILTERS_STORAGE_KEY = 'radio-filters';
+
+export type StationFilterListKey = Exclude<keyof StationFilters, 'minBitrate' | 'minVotes'>;
+
+export const STATION_FILTER_LIST_KEYS: StationFilterListKey[] = [
+  'includeTags',
+  'excludeTags',
+  'includeLanguages',
+  'excludeLanguages',
+  'includeCountries',
+  'excludeCountries',
+  'includeCodecs',
+  'excludeCodecs',
+];
+
+export const DEFAULT_STATION_FILTERS: StationFilters = {
+  includeTags: [],
+  excludeTags: [],
+  includeLanguages: [],
+  excludeLanguages: [],
+  includeCountries: [],
+  excludeCountries: [],
+  includeCodecs: [],
+  excludeCodecs: [],
+  minBitrate: 0,
+  minVotes: 0,
+};
+
+/**
+ * Split comma separated input into trimmed, lowercase, de-duplicated terms
+ */
+export function parseFilterList(text: string): string[] {
+  return [...new Set(text.split(',').map(term => term.trim().toLowerCase()).filter(Boolean))];
+}
+
+export function hasStationFilters(filters: StationFilters): boolean {
+  return STATION_FILTER_LIST_KEYS.some(key => filters[key].length > 0)
+    || filters.minBitrate > 0
+    || filters.minVotes > 0;
+}
+
+/**
+ * Clean up filters read from storage, filling in defaults for anything missing or invalid
+ */
+export function sanitizeStationFilters(input: unknown): StationFilters {
+  const source = typeof input === 'object' && input !== null ? input as Partial<Record<keyof StationFilters, unknown>> : {};
+
+  const lists = Object.fromEntries(STATION_FILTER_LIST_KEYS.map(key => {
+    const value = source[key];
+    return [key, Array.isArray(value) ? parseFilterList(value.filter(term => typeof term === 'string').join(',')) : []];
+  })) as Record<StationFilterListKey, string[]>;
+
+  const toMinimum = (value: unknown) =>
+    typeof value === 'number' && isFinite(value) ? Math.max(0, Math.round(value)) : 0;
+
+  return {
+    ...lists,
+    minBitrate: toMinimum(source.minBitrate),
+    minVotes: toMinimum(source.minVotes),
+  };
+}
+
+// Comma separated station fields, e.g. tags "jazz,smooth jazz"
+function splitField(value: string | undefined): string[] {
+  return (value ?? '').toLowerCase().split(',').map(part => part.trim()).filter(Boolean);
+}
+
+export function matchesStationFilters(station: RadioStation, filters: StationFilters): boolean {
+  // Tags match on part of a tag, so "news" also catches "news talk"
+  const tags = splitField(station.tags);
+  const hasTag = (term: string) => tags.some(tag => tag.includes(term));
+  if (filters.includeTags.length > 0 && !filters.includeTags.some(hasTag)) return false;
+  if (filters.excludeTags.some(hasTag)) return false;
+
+  // Languages and countries match whole names or codes, so "en" doesn't match "french"
+  const languages = [...splitField(station.language), ...splitField(station.languagecodes)];
+  if (filters.includeLanguages.length > 0 && !filters.includeLanguages.some(term => languages.includes(term))) return false;
+  if (filters.excludeLanguages.some(term => languages.includes(term))) return false;
+
+  const countries = [station.country?.toLowerCase(), station.countrycode?.toLowerCase()];
+  if (filters.includeCountries.length > 0 && !filters.includeCountries.some(term => countries.includes(term))) return false;
+  if (filters.excludeCountries.some(term => countries.includes(term))) return false;
+
+  const codec = station.codec?.toLowerCase() ?? '';
+  if (filters.includeCodecs.length > 0 && !filters.includeCodecs.includes(codec)) return false;
+  if (filters.excludeCodecs.includes(codec)) return false;
+
+  // Stations that don't report a bitrate can't be shown to meet a minimum
+  if (filters.minBitrate > 0 && !(station.bitrate >= filters.minBitrate)) return false;
+  if (filters.minVotes > 0 && !(station.votes >= filters.minVotes)) return false;
+
+  return true;
+}
+
+export function applyStationFilters<T extends RadioStation>(stations: T[], filters: StationFilters): T[] {
+  if (!hasStationFilters(filters)) return stations;
+  return stations.filter(station => matchesStationFilters(station, filters));
+}
@@ -0,0 +1,91 @@
+import type { StationReliability } from '@/types/radio';
+
+export const STATION_RELIABILITY_STORAGE_KEY = 'radio-reliability';
+
+// Starts slower than this count against a station, up to SLOW_START_MS
+const FAST_START_MS = 1500;
+const SLOW_START_MS = 10000;
+// Failures needed before a low score takes a station out of the pool
+const MIN_FAILURES_TO_EXCLUDE = 2;
+const EXCLUDE_BELOW_SCORE = 0.35;
+// Excluded stations get another chance once their last failure is this old
+const EXCLUSION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const EMPTY_RELIABILITY: StationReliability = {
+  attempts: 0,
+  failures: 0,
+  stalls: 0,
+  averageStartMs: null,
+  lastFailedAt: null,
+};
+
+/**
+ * Add one play or probe to a station's record
+ */
+export function recordReliabilityAttempt(
+  record: StationReliability = EMPTY_RELIABILITY,
+  ok: boolean,
+  startMs: number | null,
+  now: number = Date.now()
+): StationReliability {
+  if (!ok) {
+    return { ...record, attempts: record.attempts + 1, failures: record.failures + 1, lastFailedAt: now };
+  }
+
+  const successes = record.attempts - record.failures;
+  const averageStartMs = startMs === null
+    ? record.averageStartMs
+    : record.averageStartMs === null
+      ? startMs
+      : (record.averageStartMs * successes + startMs) / (successes + 1);
+  return { ...record, attempts: record.attempts + 1, averageStartMs };
+}
+
+export function recordReliabilityStall(record: StationReliability = EMPTY_RELIABILITY): StationReliability {
+  return { ...record, stalls: record.stalls + 1 };
+}
+
+/**
+ * 1 for a station that always starts quickly and plays smoothly, towards 0 for one that
+ * fails, starts slowly or keeps stalling. Stations with no record score 1.
+ */
+export function getReliabilityScore(record: StationReliability | undefined): number {
+  if (!record) return 1;
+
+  // Count one imagined success so a single failure doesn't condemn a station
+  const failureRate = record.failures / (record.attempts + 1);
+  const slowStart = record.averageStartMs === null
+    ? 0
+    : Math.max(0, Math.min(1, (record.averageStartMs - FAST_START_MS) / (SLOW_START_MS - FAST_START_MS)));
+  const successes = record.attempts - record.failures;
+  const stallRate = Math.min(1, record.stalls / (successes + 1));
+
+  return Math.max(0, 1 - failureRate - slowStart * 0.3 - stallRate * 0.3);
+}
+
+/**
+ * Whether a station has failed often enough, recently enough, to leave out of the pool
+ */
+export function isUnreliable(record: StationReliability | undefined, now: number = Date.now()): boolean {
+  if (!record || record.failures < MIN_FAILURES_TO_EXCLUDE) return false;
+  if (record.lastFailedAt !== null && now - record.lastFailedAt > EXCLUSION_MS) return false;
+  return getReliabilityScore(record) < EXCLUDE_BELOW_SCORE;
+}
+
+/**
+ * Keep the well-formed records read from storage
+ */
+export function sanitizeReliability(input: unknown): Record<string, StationReliability> {
+  if (typeof input !== 'object' || input === null) return {};
+
+  const isCount = (value: unknown): value is number => typeof value === 'number' && isFinite(value) && value >= 0;
+  return Object.fromEntries(Object.entries(input as Record<string, Partial<StationReliability>>)
+    .filter(([, record]) => record && isCount(record.attempts) && isCount(record.failures) && isCount(record.stalls))
+    .map(([id, record]) => [id, {
+      attempts: record.attempts!,
+      failures: Math.min(record.failures!, record.attempts!),
+      stalls: record.stalls!,
+      averageStartMs: isCount(record.averageStartMs) ? record.averageStartMs : null,
+      lastFailedAt: isCount(record.lastFailedAt) ? record.lastFailedAt : null,
+    }]));
+}
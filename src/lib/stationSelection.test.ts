@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import type { RadioStation, StationSelectionContext } from '@/types/radio';
+import { createStreamStation } from '@/lib/radioProfiles';
+import { createSeededRandom, EMPTY_SELECTION_CONTEXT, getStationWeight, pickWeightedStation } from '@/lib/stationSelection';
+
+function station(id: string): RadioStation {
+  return { ...createStreamStation(''), stationuuid: id, name: id };
+}
+
+function context(overrides: Partial<StationSelectionContext>): StationSelectionContext {
+  return { ...EMPTY_SELECTION_CONTEXT, ...overrides };
+}
+
+// How often each station comes up over many seeded picks
+function countPicks(candidates: RadioStation[], selection: StationSelectionContext, picks = 400): Record<string, number> {
+  const random = createSeededRandom(42);
+  const counts: Record<string, number> = {};
+  for (let i = 0; i < picks; i++) {
+    const id = pickWeightedStation(candidates, selection, random)!.stationuuid;
+    counts[id] = (counts[id] ?? 0) + 1;
+  }
+  return counts;
+}
+
+const STATIONS = ['a', 'b', 'c'].map(station);
+const FAILING = { attempts: 4, failures: 4, stalls: 0, averageStartMs: null, lastFailedAt: Date.now() };
+
+describe('pickWeightedStation', () => {
+  it('returns null without candidates and repeats picks for the same seed', () => {
+    expect(pickWeightedStation([], EMPTY_SELECTION_CONTEXT)).toBeNull();
+
+    const picks = (seed: number) => {
+      const random = createSeededRandom(seed);
+      return Array.from({ length: 10 }, () => pickWeightedStation(STATIONS, EMPTY_SELECTION_CONTEXT, random)!.stationuuid);
+    };
+    expect(picks(7)).toEqual(picks(7));
+  });
+
+  it('leaves out the stations of the last few breaks', () => {
+    const recent = context({ recentIds: ['a', 'b'], settings: { noRepeatWithin: 2, novelty: 0.5 } });
+    expect(countPicks(STATIONS, recent)).toEqual({ c: 400 });
+
+    // Only the window counts, older breaks may repeat
+    const shorter = countPicks(STATIONS, { ...recent, settings: { noRepeatWithin: 1, novelty: 0.5 } });
+    expect(shorter.a).toBeUndefined();
+    expect(shorter.b).toBeGreaterThan(0);
+  });
+
+  it('repeats a recent station when nothing else is left', () => {
+    const recent = context({ recentIds: ['a', 'b', 'c'], settings: { noRepeatWithin: 3, novelty: 0.5 } });
+    expect(Object.keys(countPicks(STATIONS, recent)).sort()).toEqual(['a', 'b', 'c']);
+  });
+
+  it('tilts the odds towards new or familiar stations with the novelty setting', () => {
+    const candidates = [station('heard'), station('new')];
+    const history = { playCounts: { heard: 5 } };
+
+    const curious = context({ ...history, settings: { noRepeatWithin: 0, novelty: 1 } });
+    expect(getStationWeight(candidates[1], curious) / getStationWeight(candidates[0], curious)).toBeCloseTo(16);
+    const curiousPicks = countPicks(candidates, curious);
+    expect(curiousPicks.new).toBeGreaterThan(curiousPicks.heard * 8);
+
+    const settled = context({ ...history, settings: { noRepeatWithin: 0, novelty: 0 } });
+    const settledPicks = countPicks(candidates, settled);
+    expect(settledPicks.heard).toBeGreaterThan(settledPicks.new * 8);
+
+    const neutral = context({ ...history, settings: { noRepeatWithin: 0, novelty: 0.5 } });
+    expect(getStationWeight(candidates[0], neutral)).toBeCloseTo(getStationWeight(candidates[1], neutral));
+  });
+
+  it('leaves out unreliable stations unless they are all that is left', () => {
+    const failing = context({ reliability: { a: FAILING, b: FAILING } });
+    expect(countPicks(STATIONS, failing)).toEqual({ c: 400 });
+
+    const allFailing = context({ reliability: { a: FAILING, b: FAILING, c: FAILING } });
+    expect(Object.keys(countPicks(STATIONS, allFailing)).sort()).toEqual(['a', 'b', 'c']);
+  });
+});
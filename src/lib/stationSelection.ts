@@ -0,0 +1,149 @@
+import type { RadioStation, StationSelectionContext, StationSelectionSettings } from '@/types/radio';
+import type { PhaseHistoryEntry } from '@/types/history';
+import { getReliabilityScore, isUnreliable } from '@/lib/stationReliability';
+
+export const STATION_RATINGS_STORAGE_KEY = 'radio-ratings';
+export const STATION_SELECTION_STORAGE_KEY = 'radio-selection';
+
+export const MAX_NO_REPEAT_WITHIN = 50;
+
+export const DEFAULT_SELECTION_SETTINGS: StationSelectionSettings = {
+  noRepeatWithin: 5,
+  novelty: 0.5,
+};
+
+// Uniform apart from votes, for callers that know nothing about the listener
+export const EMPTY_SELECTION_CONTEXT: StationSelectionContext = {
+  favoriteIds: new Set(),
+  ratings: {},
+  reliability: {},
+  playCounts: {},
+  recentIds: [],
+  settings: { noRepeatWithin: 0, novelty: 0.5 },
+};
+
+const FAVORITE_WEIGHT = 3;
+const LIKED_WEIGHT = 3;
+const DISLIKED_WEIGHT = 0.1;
+// Chances of the least reliable stations that still make it into the pool
+const MIN_RELIABILITY_WEIGHT = 0.05;
+// Breaks after which a station counts as fully familiar
+const FAMILIAR_AFTER_PLAYS = 3;
+// How far the novelty slider can tilt the odds either way at its ends
+const MAX_NOVELTY_TILT = 4;
+
+/**
+ * Clean up selection settings read from storage, filling in defaults for anything missing or invalid
+ */
+export function sanitizeSelectionSettings(input: unknown): StationSelectionSettings {
+  const source = typeof input === 'object' && input !== null ? input as Partial<Record<keyof StationSelectionSettings, unknown>> : {};
+  const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+  return {
+    noRepeatWithin: isNumber(source.noRepeatWithin)
+      ? Math.max(0, Math.min(MAX_NO_REPEAT_WITHIN, Math.round(source.noRepeatWithin)))
+      : DEFAULT_SELECTION_SETTINGS.noRepeatWithin,
+    novelty: isNumber(source.novelty)
+      ? Math.max(0, Math.min(1, source.novelty))
+      : DEFAULT_SELECTION_SETTINGS.novelty,
+  };
+}
+
+/**
+ * How often each station played during a break, and the latest break stations, from the session history
+ */
+export function getListeningHistory(entries: PhaseHistoryEntry[]): Pick<StationSelectionContext, 'playCounts' | 'recentIds'> {
+  const playCounts: Record<string, number> = {};
+  const recentIds: string[] = [];
+
+  // Entries are oldest first
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const stationId = entries[i].stationId;
+    if (!stationId) continue;
+    playCounts[stationId] = (playCounts[stationId] ?? 0) + 1;
+    if (recentIds.length < MAX_NO_REPEAT_WITHIN) {
+      recentIds.push(stationId);
+    }
+  }
+
+  return { playCounts, recentIds };
+}
+
+/**
+ * A pseudo-random number generator (mulberry32) that repeats for the same seed,
+ * to make picks reproducible
+ */
+export function createSeededRandom(seed: number): () => number {
+  let value = seed >>> 0;
+  return () => {
+    value = (value + 0x6d2b79f5) >>> 0;
+    let t = Math.imul(value ^ (value >>> 15), 1 | value);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// 0 for a station never heard, 1 for a favorite or one heard often
+function getFamiliarity(station: RadioStation, context: StationSelectionContext): number {
+  if (context.favoriteIds.has(station.stationuuid)) return 1;
+  return Math.min(1, (context.playCounts[station.stationuuid] ?? 0) / FAMILIAR_AFTER_PLAYS);
+}
+
+/**
+ * A station's relative chance of being picked. Popular, favorite and liked stations
+ * weigh more, disliked and unreliable ones less. The novelty setting then tilts the odds
+ * towards stations that are familiar or new to the listener.
+ */
+export function getStationWeight(station: RadioStation, context: StationSelectionContext): number {
+  const id = station.stationuuid;
+  let weight = 1 + Math.log10(1 + Math.max(0, station.votes || 0)) / 2;
+
+  if (context.favoriteIds.has(id)) {
+    weight *= FAVORITE_WEIGHT;
+  }
+
+  const rating = context.ratings[id];
+  if (rating === 1) {
+    weight *= LIKED_WEIGHT;
+  } else if (rating === -1) {
+    weight *= DISLIKED_WEIGHT;
+  }
+
+  weight *= Math.max(MIN_RELIABILITY_WEIGHT, getReliabilityScore(context.reliability[id]));
+
+  // Positive for familiar stations when novelty is low, negative when it's high
+  const tilt = (1 - 2 * context.settings.novelty) * (2 * getFamiliarity(station, context) - 1);
+  weight *= Math.pow(MAX_NOVELTY_TILT, tilt);
+
+  return weight;
+}
+
+/**
+ * Pick a station from `candidates` by weight, leaving out unreliable stations and the
+ * stations of the last few breaks unless nothing else is left. Returns null when there
+ * are no candidates. Pass a seeded `random` for a repeatable pick.
+ */
+export function pickWeightedStation<T extends RadioStation>(
+  candidates: T[],
+  context: StationSelectionContext,
+  random: () => number = Math.random
+): T | null {
+  if (candidates.length === 0) return null;
+
+  const reliable = candidates.filter(station => !isUnreliable(context.reliability[station.stationuuid]));
+  const usable = reliable.length > 0 ? reliable : candidates;
+
+  const recent = new Set(context.recentIds.slice(0, context.settings.noRepeatWithin));
+  const fresh = usable.filter(station => !recent.has(station.stationuuid));
+  const pool = fresh.length > 0 ? fresh : usable;
+
+  const weights = pool.map(station => getStationWeight(station, context));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+  let target = random() * total;
+  for (let i = 0; i < pool.length; i++) {
+    target -= weights[i];
+    if (target < 0) return pool[i];
+  }
+  return pool[pool.length - 1];
+}
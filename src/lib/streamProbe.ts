@@ -0,0 +1,80 @@
+import type { StreamProbeResult, StreamProbeResponse } from '@/types/radio';
+
+// Streams that haven't produced audio by now count as dead
+export const PROBE_TIMEOUT_MS = 6000;
+// Most URLs the /api/probe route checks per request
+export const MAX_PROBE_URLS = 20;
+
+/**
+ * Check in the browser that a stream loads far enough to play, without making a sound.
+ * A stream that passes stays loaded on the muted element returned with the result, so it
+ * can be played from there without connecting again. Pass the element to releaseStream
+ * when it isn't needed after all.
+ */
+export function probeStream(
+  url: string,
+  timeoutMs: number = PROBE_TIMEOUT_MS,
+): Promise<{ result: StreamProbeResult; audio: HTMLAudioElement | null }> {
+  return new Promise(resolve => {
+    const audio = new Audio();
+    audio.muted = true;
+    audio.preload = 'auto';
+    const startedAt = Date.now();
+
+    const finish = (ok: boolean, error?: string) => {
+      clearTimeout(timeout);
+      audio.removeEventListener('canplay', handleCanPlay);
+      audio.removeEventListener('error', handleError);
+      if (!ok) {
+        releaseStream(audio);
+      }
+      resolve({
+        result: { url, ok, startMs: ok ? Date.now() - startedAt : null, ...(error && { error }) },
+        audio: ok ? audio : null,
+      });
+    };
+    const handleCanPlay = () => finish(true);
+    const handleError = () => finish(false, 'Failed to load stream');
+    const timeout = setTimeout(() => finish(false, 'Timed out'), timeoutMs);
+
+    audio.addEventListener('canplay', handleCanPlay);
+    audio.addEventListener('error', handleError);
+    audio.src = url;
+    audio.load();
+  });
+}
+
+/**
+ * Drop a probed stream's connection rather than keep downloading it
+ */
+export function releaseStream(audio: HTMLAudioElement) {
+  audio.removeAttribute('src');
+  audio.load();
+}
+
+/**
+ * Check streams from the server through the /api/probe route, which sees HTTP status and
+ * content type but can't tell whether the browser can decode the audio
+ */
+export async function probeStreamsOnServer(urls: string[]): Promise<StreamProbeResult[]> {
+  const results: StreamProbeResult[] = [];
+
+  for (let i = 0; i < urls.length; i += MAX_PROBE_URLS) {
+    const batch = urls.slice(i, i + MAX_PROBE_URLS);
+    try {
+      const response = await fetch('/api/probe', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ urls: batch }),
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      results.push(...(await response.json() as StreamProbeResponse).results);
+    } catch (error) {
+      // The route being unreachable says nothing about the streams
+      console.error('Failed to probe streams:', error);
+      break;
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,187 @@
+import type { RadioStation, TimeOfDayMode } from '@/types/radio';
+import { getStationCoordinates } from '@/lib/tour';
+
+// IANA time zone of each country with a single zone (ISO 3166-1 alpha-2 code:zone)
+const COUNTRY_TIME_ZONES = new Map<string, string>(`
+AD:Europe/Andorra AE:Asia/Dubai AF:Asia/Kabul AG:America/Antigua AI:America/Anguilla AL:Europe/Tirane
+AM:Asia/Yerevan AO:Africa/Luanda AR:America/Argentina/Buenos_Aires AS:Pacific/Pago_Pago AT:Europe/Vienna
+AW:America/Aruba AX:Europe/Mariehamn AZ:Asia/Baku BA:Europe/Sarajevo BB:America/Barbados BD:Asia/Dhaka
+BE:Europe/Brussels BF:Africa/Ouagadougou BG:Europe/Sofia BH:Asia/Bahrain BI:Africa/Bujumbura
+BJ:Africa/Porto-Novo BL:America/St_Barthelemy BM:Atlantic/Bermuda BN:Asia/Brunei BO:America/La_Paz
+BQ:America/Kralendijk BS:America/Nassau BT:Asia/Thimphu BW:Africa/Gaborone BY:Europe/Minsk BZ:America/Belize
+CF:Africa/Bangui CG:Africa/Brazzaville CH:Europe/Zurich CI:Africa/Abidjan CK:Pacific/Rarotonga
+CL:America/Santiago CM:Africa/Douala CN:Asia/Shanghai CO:America/Bogota CR:America/Costa_Rica CU:America/Havana
+CV:Atlantic/Cape_Verde CW:America/Curacao CY:Asia/Nicosia CZ:Europe/Prague DE:Europe/Berlin DJ:Africa/Djibouti
+DK:Europe/Copenhagen DM:America/Dominica DO:America/Santo_Domingo DZ:Africa/Algiers EE:Europe/Tallinn
+EG:Africa/Cairo EH:Africa/El_Aaiun ER:Africa/Asmara ET:Africa/Addis_Ababa FI:Europe/Helsinki FJ:Pacific/Fiji
+FK:Atlantic/Stanley FM:Pacific/Pohnpei FO:Atlantic/Faroe FR:Europe/Paris GA:Africa/Libreville GB:Europe/London
+GD:America/Grenada GE:Asia/Tbilisi GF:America/Cayenne GG:Europe/Guernsey GH:Africa/Accra GI:Europe/Gibraltar
+GL:America/Nuuk GM:Africa/Banjul GN:Africa/Conakry GP:America/Guadeloupe GQ:Africa/Malabo GR:Europe/Athens
+GT:America/Guatemala GU:Pacific/Guam GW:Africa/Bissau GY:America/Guyana HK:Asia/Hong_Kong
+HN:America/Tegucigalpa HR:Europe/Zagreb HT:America/Port-au-Prince HU:Europe/Budapest IE:Europe/Dublin
+IL:Asia/Jerusalem IM:Europe/Isle_of_Man IN:Asia/Kolkata IQ:Asia/Baghdad IR:Asia/Tehran IS:Atlantic/Reykjavik
+IT:Europe/Rome JE:Europe/Jersey JM:America/Jamaica JO:Asia/Amman JP:Asia/Tokyo KE:Africa/Nairobi
+KG:Asia/Bishkek KH:Asia/Phnom_Penh KI:Pacific/Tarawa KM:Indian/Comoro KN:America/St_Kitts KP:Asia/Pyongyang
+KR:Asia/Seoul KW:Asia/Kuwait KY:America/Cayman LA:Asia/Vientiane LB:Asia/Beirut LC:America/St_Lucia
+LI:Europe/Vaduz LK:Asia/Colombo LR:Africa/Monrovia LS:Africa/Maseru LT:Europe/Vilnius LU:Europe/Luxembourg
+LV:Europe/Riga LY:Africa/Tripoli MA:Africa/Casablanca MC:Europe/Monaco MD:Europe/Chisinau ME:Europe/Podgorica
+MF:America/Marigot MG:Indian/Antananarivo MH:Pacific/Majuro MK:Europe/Skopje ML:Africa/Bamako MM:Asia/Yangon
+MO:Asia/Macau MP:Pacific/Saipan MQ:America/Martinique MR:Africa/Nouakchott MS:America/Montserrat MT:Europe/Malta
+MU:Indian/Mauritius MV:Indian/Maldives MW:Africa/Blantyre MY:Asia/Kuala_Lumpur MZ:Africa/Maputo
+NA:Africa/Windhoek NC:Pacific/Noumea NE:Africa/Niamey NF:Pacific/Norfolk NG:Africa/Lagos NI:America/Managua
+NL:Europe/Amsterdam NO:Europe/Oslo NP:Asia/Kathmandu NR:Pacific/Nauru NU:Pacific/Niue NZ:Pacific/Auckland
+OM:Asia/Muscat PA:America/Panama PE:America/Lima PF:Pacific/Tahiti PG:Pacific/Port_Moresby PH:Asia/Manila
+PK:Asia/Karachi PL:Europe/Warsaw PM:America/Miquelon PN:Pacific/Pitcairn PR:America/Puerto_Rico PS:Asia/Gaza
+PW:Pacific/Palau PY:America/Asuncion QA:Asia/Qatar RE:Indian/Reunion RO:Europe/Bucharest RS:Europe/Belgrade
+RW:Africa/Kigali SA:Asia/Riyadh SB:Pacific/Guadalcanal SC:Indian/Mahe SD:Africa/Khartoum SE:Europe/Stockholm
+SG:Asia/Singapore SH:Atlantic/St_Helena SI:Europe/Ljubljana SJ:Arctic/Longyearbyen SK:Europe/Bratislava
+SL:Africa/Freetown SM:Europe/San_Marino SN:Africa/Dakar SO:Africa/Mogadishu SR:America/Paramaribo
+SS:Africa/Juba ST:Africa/Sao_Tome SV:America/El_Salvador SX:America/Lower_Princes SY:Asia/Damascus
+SZ:Africa/Mbabane TC:America/Grand_Turk TD:Africa/Ndjamena TG:Africa/Lome TH:Asia/Bangkok TJ:Asia/Dushanbe
+TK:Pacific/Fakaofo TL:Asia/Dili TM:Asia/Ashgabat TN:Africa/Tunis TO:Pacific/Tongatapu TR:Europe/Istanbul
+TT:America/Port_of_Spain TV:Pacific/Funafuti TW:Asia/Taipei TZ:Africa/Dar_es_Salaam UA:Europe/Kiev
+UG:Africa/Kampala UM:Pacific/Wake UY:America/Montevideo UZ:Asia/Tashkent VA:Europe/Vatican
+VC:America/St_Vincent VE:America/Caracas VG:America/Tortola VI:America/St_Thomas VN:Asia/Ho_Chi_Minh
+VU:Pacific/Efate WF:Pacific/Wallis WS:Pacific/Apia XK:Europe/Belgrade YE:Asia/Aden YT:Indian/Mayotte
+ZA:Africa/Johannesburg ZM:Africa/Lusaka ZW:Africa/Harare
+`.trim().split(/\s+/).map(entry => entry.split(':') as [string, string]));
+
+// Countries spanning several zones, as a point inside each zone: the nearest point's zone
+// wins. The first zone is used for stations without a location.
+const MULTI_ZONE_COUNTRIES: Record<string, [lat: number, lng: number, zone: string][]> = {
+  US: [[40, -77, 'America/New_York'], [40, -90, 'America/Chicago'], [40, -105, 'America/Denver'], [37, -120, 'America/Los_Angeles'], [61, -150, 'America/Anchorage'], [21, -157, 'Pacific/Honolulu']],
+  CA: [[45, -79, 'America/Toronto'], [45, -63, 'America/Halifax'], [48, -53, 'America/St_Johns'], [50, -97, 'America/Winnipeg'], [53, -114, 'America/Edmonton'], [50, -123, 'America/Vancouver']],
+  MX: [[19, -99, 'America/Mexico_City'], [21, -87, 'America/Cancun'], [23, -106, 'America/Mazatlan'], [29, -111, 'America/Hermosillo'], [32, -116, 'America/Tijuana']],
+  BR: [[-23, -46, 'America/Sao_Paulo'], [-3, -60, 'America/Manaus'], [-10, -68, 'America/Rio_Branco']],
+  RU: [[55, 37, 'Europe/Moscow'], [54, 20, 'Europe/Kaliningrad'], [53, 50, 'Europe/Samara'], [56, 60, 'Asia/Yekaterinburg'], [55, 73, 'Asia/Omsk'], [55, 83, 'Asia/Novosibirsk'], [56, 93, 'Asia/Krasnoyarsk'], [52, 104, 'Asia/Irkutsk'], [62, 130, 'Asia/Yakutsk'], [43, 132, 'Asia/Vladivostok'], [60, 151, 'Asia/Magadan'], [53, 158, 'Asia/Kamchatka']],
+  AU: [[-34, 151, 'Australia/Sydney'], [-27, 153, 'Australia/Brisbane'], [-43, 147, 'Australia/Hobart'], [-35, 139, 'Australia/Adelaide'], [-12, 131, 'Australia/Darwin'], [-32, 116, 'Australia/Perth']],
+  ID: [[-6, 107, 'Asia/Jakarta'], [-5, 119, 'Asia/Makassar'], [-3, 141, 'Asia/Jayapura']],
+  KZ: [[43, 77, 'Asia/Almaty'], [50, 57, 'Asia/Aqtobe']],
+  MN: [[48, 107, 'Asia/Ulaanbaatar'], [48, 91, 'Asia/Hovd']],
+  CD: [[-4, 15, 'Africa/Kinshasa'], [-11, 27, 'Africa/Lubumbashi']],
+  ES: [[40, -4, 'Europe/Madrid'], [28, -15, 'Atlantic/Canary']],
+  PT: [[39, -9, 'Europe/Lisbon'], [38, -28, 'Atlantic/Azores']],
+  EC: [[-1, -79, 'America/Guayaquil'], [-1, -90, 'Pacific/Galapagos']],
+};
+
+// Sunset counts as "now" this long either side of it, in hours
+const SUNSET_WINDOW_HOURS = 0.5;
+// Clocks within this many hours count as showing the same time
+const SAME_TIME_WINDOW_HOURS = 0.5;
+const MORNING_START_HOUR = 6;
+const MORNING_END_HOUR = 11;
+
+/**
+ * The IANA time zone a station broadcasts in, from its country and, where the country
+ * spans several zones, its location. Null for countries not in the table.
+ */
+export function getStationTimeZone(station: RadioStation): string | null {
+  const countrycode = station.countrycode?.toUpperCase() ?? '';
+  const zones = MULTI_ZONE_COUNTRIES[countrycode];
+  if (!zones) return COUNTRY_TIME_ZONES.get(countrycode) ?? null;
+
+  const coordinates = getStationCoordinates(station);
+  if (!coordinates) return zones[0][2];
+
+  let nearest = zones[0];
+  let nearestDistance = Infinity;
+  for (const zone of zones) {
+    const distance = Math.hypot(zone[0] - coordinates.lat, zone[1] - coordinates.lng);
+    if (distance < nearestDistance) {
+      nearest = zone;
+      nearestDistance = distance;
+    }
+  }
+  return nearest[2];
+}
+
+// Formatters are slow to create, so keep one per zone. Null for zones the browser doesn't know.
+const clockFormatters = new Map<string, Intl.DateTimeFormat | null>();
+
+function getClockFormatter(timeZone: string): Intl.DateTimeFormat | null {
+  if (!clockFormatters.has(timeZone)) {
+    try {
+      clockFormatters.set(timeZone, new Intl.DateTimeFormat(undefined, { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }));
+    } catch {
+      clockFormatters.set(timeZone, null);
+    }
+  }
+  return clockFormatters.get(timeZone) ?? null;
+}
+
+/**
+ * Hours since the sun was highest where the station is, plus 12: 12 at solar noon.
+ * Falls back to the station's clock when it has no location.
+ */
+export function getSolarHour(station: RadioStation, now: number = Date.now()): number | null {
+  const coordinates = getStationCoordinates(station);
+  if (coordinates) {
+    const utcHours = (now % 86400000) / 3600000;
+    return ((utcHours + coordinates.lng / 15) % 24 + 24) % 24;
+  }
+  return getClockHour(station, now);
+}
+
+// The hour (with fraction) on the station's clock
+function getClockHour(station: RadioStation, now: number): number | null {
+  const timeZone = getStationTimeZone(station);
+  const formatter = timeZone ? getClockFormatter(timeZone) : null;
+  if (!formatter) return null;
+
+  const parts = formatter.formatToParts(now);
+  const hour = Number(parts.find(part => part.type === 'hour')?.value);
+  const minute = Number(parts.find(part => part.type === 'minute')?.value);
+  return isNaN(hour) || isNaN(minute) ? null : hour + minute / 60;
+}
+
+/**
+ * The time shown on clocks where the station is, e.g. "14:05", or null when unknown
+ */
+export function formatStationTime(station: RadioStation, now: number = Date.now()): string | null {
+  const timeZone = getStationTimeZone(station);
+  const formatter = timeZone ? getClockFormatter(timeZone) : null;
+  return formatter ? formatter.format(now) : null;
+}
+
+/**
+ * Solar hour of sunset at a latitude on a given day, or null during midnight sun or
+ * polar night. Uses the simple declination formula, good to a few minutes.
+ */
+export function getSunsetHour(lat: number, now: number = Date.now()): number | null {
+  const date = new Date(now);
+  const dayOfYear = (Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()) - Date.UTC(date.getUTCFullYear(), 0, 0)) / 86400000;
+  const declination = -23.44 * Math.cos((2 * Math.PI / 365) * (dayOfYear + 10)) * Math.PI / 180;
+  const cosHourAngle = -Math.tan(lat * Math.PI / 180) * Math.tan(declination);
+  if (cosHourAngle < -1 || cosHourAngle > 1) return null;
+  return 12 + Math.acos(cosHourAngle) * 180 / Math.PI / 15;
+}
+
+// Distance between two hours of the day, going round midnight if that's shorter
+function getHourDistance(a: number, b: number): number {
+  const difference = Math.abs(a - b) % 24;
+  return Math.min(difference, 24 - difference);
+}
+
+/**
+ * Whether it's the given time of day where a station is. Morning and sunset follow the
+ * sun; the same time as the listener follows the clocks.
+ */
+export function matchesTimeOfDay(station: RadioStation, mode: TimeOfDayMode, now: number = Date.now()): boolean {
+  if (mode === 'sameTime') {
+    const stationHour = getClockHour(station, now);
+    const date = new Date(now);
+    const myHour = date.getHours() + date.getMinutes() / 60;
+    return stationHour !== null && getHourDistance(stationHour, myHour) <= SAME_TIME_WINDOW_HOURS;
+  }
+
+  const solarHour = getSolarHour(station, now);
+  if (solarHour === null) return false;
+
+  if (mode === 'morning') {
+    return solarHour >= MORNING_START_HOUR && solarHour < MORNING_END_HOUR;
+  }
+
+  const coordinates = getStationCoordinates(station);
+  const sunsetHour = coordinates ? getSunsetHour(coordinates.lat, now) : 18;
+  return sunsetHour !== null && getHourDistance(solarHour, sunsetHour) <= SUNSET_WINDOW_HOURS;
+}
@@ -0,0 +1,155 @@
+import type { RadioStation } from '@/types/radio';
+import type { Continent, TourRoute, TourStop, WorldTour } from '@/types/tour';
+import { getContinent } from '@/lib/continents';
+
+export const TOUR_STORAGE_KEY = 'pomodoro-tour';
+
+export const TOUR_ROUTE_LABELS: Record<TourRoute, string> = {
+  east: 'Head east',
+  west: 'Head west',
+  continent: 'Across a continent',
+  custom: 'Draw your own',
+};
+
+export const MIN_TOUR_STOPS = 2;
+export const MAX_TOUR_STOPS = 24;
+export const DEFAULT_TOUR_STOPS = 8;
+
+// Each stop is picked at random from this many of its leg's most voted stations
+const STOP_SHORTLIST_SIZE = 5;
+
+interface TourPlanOptions {
+  route: Exclude<TourRoute, 'custom'>;
+  continent?: Continent | null;
+  stopCount: number;
+  startLng?: number; // where east and west tours set off, e.g. the current station
+}
+
+/**
+ * Where a station sits on the globe. Stations from the generated dataset carry lat/lng,
+ * ones straight from the radio-browser API geo_lat/geo_long.
+ */
+export function getStationCoordinates(station: RadioStation): { lat: number; lng: number } | null {
+  const located = station as RadioStation & { lat?: number; lng?: number };
+  const lat = located.lat ?? station.geo_lat;
+  const lng = located.lng ?? station.geo_long;
+  if (typeof lat !== 'number' || typeof lng !== 'number' || isNaN(lat) || isNaN(lng)) return null;
+  if (lat === 0 && lng === 0) return null; // radio-browser's "unknown"
+  return { lat, lng };
+}
+
+export function createTourStop(station: RadioStation): TourStop | null {
+  const coordinates = getStationCoordinates(station);
+  return coordinates ? { station, ...coordinates, status: 'pending' } : null;
+}
+
+/**
+ * Plan an itinerary by splitting the way ahead into equal legs of longitude and picking a
+ * popular station in each. East and west tours go round the whole globe from `startLng`;
+ * continent tours cross their continent from west to east. Legs without stations are
+ * left out, so a tour can have fewer stops than asked for.
+ */
+export function planTour(stations: RadioStation[], options: TourPlanOptions, random: () => number = Math.random): TourStop[] {
+  let stops = stations
+    .map(createTourStop)
+    .filter((stop): stop is TourStop => stop !== null);
+
+  if (options.route === 'continent') {
+    stops = stops.filter(stop => getContinent(stop.station.countrycode) === options.continent);
+  }
+  if (stops.length === 0) return [];
+
+  // Distance along the route, in degrees of longitude
+  let getDistance: (stop: TourStop) => number;
+  let length: number;
+  if (options.route === 'continent') {
+    const westernmost = Math.min(...stops.map(stop => stop.lng));
+    getDistance = stop => stop.lng - westernmost;
+    length = Math.max(...stops.map(getDistance)) + 1e-6;
+  } else {
+    const start = options.startLng ?? -180;
+    const direction = options.route === 'east' ? 1 : -1;
+    getDistance = stop => ((direction * (stop.lng - start)) % 360 + 360) % 360;
+    length = 360;
+  }
+
+  const legCount = Math.max(MIN_TOUR_STOPS, Math.min(MAX_TOUR_STOPS, Math.round(options.stopCount)));
+  const legs: TourStop[][] = Array.from({ length: legCount }, () => []);
+  stops.forEach(stop => {
+    legs[Math.min(legCount - 1, Math.floor(getDistance(stop) / length * legCount))].push(stop);
+  });
+
+  return legs
+    .filter(leg => leg.length > 0)
+    .map(leg => {
+      const shortlist = [...leg].sort((a, b) => b.station.votes - a.station.votes).slice(0, STOP_SHORTLIST_SIZE);
+      return shortlist[Math.floor(random() * shortlist.length)];
+    });
+}
+
+export function getNextTourStop(tour: WorldTour | null): TourStop | null {
+  return tour?.stops.find(stop => stop.status === 'pending') ?? null;
+}
+
+export function isTourFinished(tour: WorldTour): boolean {
+  return getNextTourStop(tour) === null;
+}
+
+/**
+ * The legs to draw on the globe: every leg between stops that played, then the leg
+ * to the next stop
+ */
+export function getTourArcs(tour: WorldTour | null) {
+  if (!tour) return [];
+
+  const played = tour.stops.filter(stop => stop.status === 'played');
+  const arcs = played.slice(1).map((stop, i) => ({
+    startLat: played[i].lat,
+    startLng: played[i].lng,
+    endLat: stop.lat,
+    endLng: stop.lng,
+    travelled: true,
+  }));
+
+  const next = getNextTourStop(tour);
+  const last = played[played.length - 1];
+  if (next && last) {
+    arcs.push({ startLat: last.lat, startLng: last.lng, endLat: next.lat, endLng: next.lng, travelled: false });
+  }
+  return arcs;
+}
+
+// The route being drawn, leg by leg
+export function getDraftArcs(stops: TourStop[]) {
+  return stops.slice(1).map((stop, i) => ({
+    startLat: stops[i].lat,
+    startLng: stops[i].lng,
+    endLat: stop.lat,
+    endLng: stop.lng,
+    travelled: false,
+  }));
+}
+
+/**
+ * Check a tour read from storage, dropping it if it doesn't look like one
+ */
+export function sanitizeTour(input: unknown): WorldTour | null {
+  if (typeof input !== 'object' || input === null) return null;
+  const tour = input as Partial<WorldTour>;
+  if (typeof tour.id !== 'string' || !Array.isArray(tour.stops) || !tour.route || !(tour.route in TOUR_ROUTE_LABELS)) return null;
+
+  const stops = tour.stops.filter(stop =>
+    stop && typeof stop.station?.stationuuid === 'string' &&
+    typeof stop.lat === 'number' && typeof stop.lng === 'number' &&
+    ['pending', 'played', 'skipped'].includes(stop.status)
+  );
+  if (stops.length === 0) return null;
+
+  return {
+    id: tour.id,
+    route: tour.route,
+    continent: tour.continent ?? null,
+    stops,
+    startedAt: typeof tour.startedAt === 'number' ? tour.startedAt : Date.now(),
+  };
+}
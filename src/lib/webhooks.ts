@@ -0,0 +1,123 @@
+import type { PomodoroActivity, PomodoroActivityType } from '@/types/pomodoro';
+import type { Webhook, WebhookRelayResponse } from '@/types/webhooks';
+
+export const WEBHOOKS_STORAGE_KEY = 'pomodoro-webhooks';
+
+export const WEBHOOK_EVENT_LABELS: Record<PomodoroActivityType, string> = {
+  phaseStarted: 'Phase starts',
+  phaseEnded: 'Phase ends',
+  paused: 'Paused',
+  resumed: 'Resumed',
+  skipped: 'Skipped',
+  stationStarted: 'Station starts',
+  stationStopped: 'Station stops',
+};
+
+export const WEBHOOK_EVENTS = Object.keys(WEBHOOK_EVENT_LABELS) as PomodoroActivityType[];
+
+export const DEFAULT_PAYLOAD_TEMPLATE = `{
+  "event": "{{event}}",
+  "phase": "{{phase}}",
+  "label": "{{label}}",
+  "focus": {{isFocus}},
+  "secondsLeft": {{timeRemaining}},
+  "station": "{{stationName}}",
+  "country": "{{stationCountry}}",
+  "timestamp": "{{timestamp}}"
+}`;
+
+// Delivery attempts per event, waiting 1s, 2s, 4s... in between
+const MAX_ATTEMPTS = 4;
+const RETRY_BASE_DELAY_MS = 1000;
+
+type TemplateValue = string | number | boolean | null;
+
+/**
+ * Values available to payload templates
+ */
+export function getTemplateVariables(activity: PomodoroActivity): Record<string, TemplateValue> {
+  return {
+    event: activity.type,
+    phase: activity.phase,
+    label: activity.label,
+    isFocus: activity.isFocus,
+    timeRemaining: activity.timeRemaining,
+    stationName: activity.station?.name ?? null,
+    stationCountry: activity.station?.country ?? null,
+    stationUrl: activity.station?.homepage || null,
+    timestamp: new Date(activity.at).toISOString(),
+  };
+}
+
+/**
+ * Fill in a payload template. A placeholder that is a whole JSON string ("{{label}}")
+ * becomes the JSON value, so missing values turn into null; anywhere else it's
+ * inserted as text. Throws if the result isn't valid JSON.
+ */
+export function renderPayload(template: string, variables: Record<string, TemplateValue>): unknown {
+  const lookup = (name: string): TemplateValue => (name in variables ? variables[name] : null);
+
+  const rendered = template
+    .replace(/"\{\{\s*(\w+)\s*\}\}"/g, (_, name: string) => JSON.stringify(lookup(name)))
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => {
+      const value = lookup(name);
+      if (value === null) return '';
+      // Escape for use inside a JSON string, or as a bare number or boolean
+      return typeof value === 'string' ? JSON.stringify(value).slice(1, -1) : String(value);
+    });
+
+  return JSON.parse(rendered);
+}
+
+/**
+ * A sample activity for previews and test deliveries
+ */
+export function createSampleActivity(type: PomodoroActivityType = 'phaseStarted'): PomodoroActivity {
+  return {
+    type,
+    at: Date.now(),
+    phase: 'work',
+    label: 'Focus',
+    isFocus: true,
+    timeRemaining: 25 * 60,
+    station: null,
+  };
+}
+
+function isRetryable(response: WebhookRelayResponse): boolean {
+  return response.status === undefined || response.status === 429 || response.status >= 500;
+}
+
+/**
+ * POST a payload to a webhook through the /api/webhooks relay, retrying with backoff
+ * on network errors, rate limits and server errors. `onAttempt` reports each try.
+ */
+export async function deliverWebhook(
+  webhook: Webhook,
+  payload: unknown,
+  onAttempt?: (attempt: number, response: WebhookRelayResponse) => void,
+): Promise<WebhookRelayResponse> {
+  let response: WebhookRelayResponse = { ok: false, error: 'Not sent' };
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    try {
+      const relay = await fetch('/api/webhooks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url: webhook.url, payload }),
+      });
+      response = await relay.json() as WebhookRelayResponse;
+    } catch (error) {
+      response = { ok: false, error: error instanceof Error ? error.message : 'Relay unreachable' };
+    }
+
+    onAttempt?.(attempt, response);
+    if (response.ok || !isRetryable(response)) return response;
+
+    if (attempt < MAX_ATTEMPTS) {
+      await new Promise(resolve => setTimeout(resolve, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1)));
+    }
+  }
+
+  return response;
+}
@@ -0,0 +1,9 @@
+export type ChimeSound = 'bell' | 'bowl' | 'marimba' | 'digital';
+
+export interface AlertPreferences {
+  notifications: boolean; // desktop notification on every phase change
+  chimes: boolean; // synthesized chime on every phase change
+  focusChime: ChimeSound; // played when a focus phase starts
+  breakChime: ChimeSound; // played when a break starts
+  chimeVolume: number; // 0–1
+}
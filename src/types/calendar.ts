@@ -0,0 +1,16 @@
+// One occurrence of a busy calendar event
+export interface BusyBlock {
+  id: string; // event UID plus start, unique per occurrence
+  summary: string;
+  start: number; // epoch ms
+  end: number; // epoch ms
+}
+
+// What to do when a focus phase would run into a meeting
+export type MeetingConflictMode = 'shorten' | 'warn';
+
+export interface ImportedCalendar {
+  name: string; // file name, or 'Pasted calendar'
+  ics: string; // raw text, re-expanded as time moves on
+  importedAt: number; // epoch ms
+}
@@ -0,0 +1,48 @@
+import type { PomodoroPhase } from '@/types/pomodoro';
+
+export type PhaseOutcome = 'completed' | 'skipped' | 'reset';
+
+export type InterruptionKind = 'internal' | 'external';
+
+export interface Interruption {
+  kind: InterruptionKind;
+  at: number; // epoch ms, also identifies the interruption within its phase
+  reason?: string;
+}
+
+// Pauses are recorded as entries of their own with phase 'paused'
+export interface PhaseHistoryEntry {
+  id?: number; // assigned by IndexedDB
+  phase: PomodoroPhase;
+  label?: string; // step label from the phase sequence
+  isFocus?: boolean; // missing on entries recorded before phase sequences; implied by phase === 'work'
+  outcome: PhaseOutcome;
+  startedAt: number; // epoch ms
+  endedAt: number; // epoch ms
+  plannedDuration: number; // in seconds
+  actualDuration: number; // in seconds, excluding pauses
+  taskId?: string; // active task during a work phase
+  taskTitle?: string;
+  stationId?: string; // station listened to during a break
+  stationName?: string;
+  stationCountry?: string;
+  interruptions?: Interruption[]; // logged during a focus phase
+  reason?: string; // why the timer was paused, on 'paused' entries
+}
+
+export interface HistoryStats {
+  focusMinutesToday: number;
+  focusMinutesThisWeek: number;
+  dailyFocusMinutes: Array<{ date: string; minutes: number }>; // last 7 days, oldest first
+  weeklyFocusMinutes: Array<{ weekStart: string; minutes: number }>; // last 4 weeks, oldest first
+  completionRate: number; // 0-1 share of focus phases completed
+  skipRate: number; // 0-1 share of focus phases skipped
+  averageSessionMinutes: number;
+  bestHour: number | null; // hour of day (0-23) with the most focus minutes
+  totalSessions: number;
+  internalInterruptions: number;
+  externalInterruptions: number;
+  interruptionsPerSession: number;
+  pausedMinutesToday: number;
+  topInterruptionReasons: Array<{ reason: string; count: number }>; // interruptions and pauses, most frequent first
+}
@@ -1,3 +1,7 @@
+import type { RadioStation, TimeOfDayMode } from '@/types/radio';
+import type { PhaseHistoryEntry, Interruption, InterruptionKind } from '@/types/history';
+import type { BusyBlock } from '@/types/calendar';
+
 export interface PomodoroSettings {
   workDuration: number; // in minutes
   shortBreakDuration: number; // in minutes
@@ -5,14 +9,122 @@ export interface PomodoroSettings {
   sessionsUntilLongBreak: number;
   fadeInDuration: number; // in seconds
   fadeOutDuration: number; // in seconds
+  radioLeadTime: number; // seconds before a break to start searching for a station
+  radioProfiles: Record<RadioProfileKind, PhaseRadioProfile>;
+}
+
+// User-defined phase kinds are namespaced, e.g. 'custom:lunch'
+export type CustomPhaseKind = `custom:${string}`;
+
+export type PomodoroPhase = 'work' | 'shortBreak' | 'longBreak' | 'paused' | CustomPhaseKind;
+
+// What the radio plays during a phase. Steps in a sequence only use 'silent' and
+// 'random', to turn the radio off or on; radio profiles use the rest.
+export type PhaseRadioBehavior =
+  | 'silent'
+  | 'random' // any station
+  | 'favorite' // one of the user's favorites
+  | 'randomCountry' // a random country first, then a station from it
+  | 'stream' // a stream URL of the user's choosing, e.g. an ambient stream
+  | 'focus' // a station from the curated focus list: ambient, lo-fi, classical and the like
+  | TimeOfDayMode; // a station where it's a certain time of day
+
+// Phase kinds that get their own radio profile. Custom phase kinds share one.
+export type RadioProfileKind = 'work' | 'shortBreak' | 'longBreak' | 'custom';
+
+export interface PhaseRadioProfile {
+  behavior: PhaseRadioBehavior;
+  volume: number; // 0 to 1
+  genre: string; // station tag to match, empty for any
+  countrycode: string; // ISO 3166-1 alpha-2, empty for any
+  streamUrl: string; // for the 'stream' behavior
 }
 
-export type PomodoroPhase = 'work' | 'shortBreak' | 'longBreak' | 'paused';
+export interface PhaseStep {
+  id: string;
+  kind: Exclude<PomodoroPhase, 'paused'>;
+  label: string;
+  duration: number; // in minutes
+  isFocus: boolean; // counts as a work session for stats and tasks
+  radio: PhaseRadioBehavior;
+}
+
+export interface PomodoroSequence {
+  id: string;
+  name: string;
+  steps: PhaseStep[];
+  builtIn?: boolean;
+}
 
 export interface PomodoroState {
   phase: PomodoroPhase;
+  stepIndex: number; // position in the active sequence
+  phaseDuration: number; // in seconds, planned length of the current phase
   timeRemaining: number; // in seconds
+  phaseStartedAt: number | null; // epoch ms when the current phase first started running
+  phaseEndsAt: number | null; // epoch ms when the running phase ends, null while stopped
   isRunning: boolean;
   completedSessions: number;
   currentCycle: number;
+  preRollFiredFor: number | null; // phaseEndsAt of the phase whose pre-roll already fired
+  // End of the meeting the timer is yielding to (epoch ms): auto-paused until then while
+  // stopped, running through it because the user started anyway while running
+  meetingUntil: number | null;
+  interruptions: Interruption[]; // logged during the current focus phase
+  pausedAt: number | null; // epoch ms the current pause began, null unless paused mid-phase
+  pauseReason: string | null;
+}
+
+// Inputs to the pomodoro engine. Every event carries the current time so the
+// engine never reads the clock itself.
+export type PomodoroEvent =
+  | { type: 'START'; now: number; station?: RadioStation | null } // resuming picks up the station last heard in the phase
+  | { type: 'PAUSE'; now: number; reason?: string } // pausing again while paused updates the reason
+  | { type: 'TICK'; now: number }
+  | { type: 'SKIP'; now: number }
+  | { type: 'RESET'; now: number }
+  | { type: 'PHASE_ELAPSED'; now: number }
+  | { type: 'DURATION_CHANGED'; now: number }
+  | { type: 'INTERRUPT'; now: number; kind: InterruptionKind }
+  | { type: 'NOTE_INTERRUPTION'; now: number; at: number; reason: string } // give a logged interruption a reason
+  | { type: 'RESTORE'; now: number; state: PomodoroState; breakStation: RadioStation | null }
+  // Mirror a state owned elsewhere. Following it also plays out its phase changes, pauses
+  // and resumes here; otherwise side effects are left to the state's owner.
+  | { type: 'SYNC'; now: number; state: PomodoroState; follow?: boolean };
+
+// Side effects requested by the engine, carried out by the hook
+export type PomodoroCommand =
+  // Hold playback until startAt (epoch ms). A resume picks the radio back up within a phase, so a world tour doesn't move on.
+  | { type: 'PLAY_PHASE_RADIO'; profile: PhaseRadioProfile; isFocus: boolean; startAt?: number; resume?: boolean }
+  | { type: 'PLAY_STATION'; station: RadioStation; profile: PhaseRadioProfile; isFocus: boolean } // resumes; the profile's radio if the station fails
+  | { type: 'FADE_OUT_RADIO'; duration: number }
+  | { type: 'STOP_RADIO' }
+  | { type: 'ANNOUNCE_PHASE'; step: PhaseStep } // a new phase has started
+  | { type: 'RECORD_PHASE'; entry: PhaseHistoryEntry }
+  | { type: 'MEETING_AHEAD'; block: BusyBlock; shortened: boolean }; // a focus phase runs into a meeting
+
+// Something that happened to the timer or the radio, reported to integrations like webhooks
+export type PomodoroActivityType =
+  | 'phaseStarted'
+  | 'phaseEnded'
+  | 'paused'
+  | 'resumed'
+  | 'skipped'
+  | 'stationStarted'
+  | 'stationStopped';
+
+export interface PomodoroActivity {
+  type: PomodoroActivityType;
+  at: number; // epoch ms
+  phase: PomodoroPhase;
+  label: string; // step label
+  isFocus: boolean;
+  timeRemaining: number; // in seconds
+  station: RadioStation | null; // playing, or just started or stopped
+}
+
+export interface PersistedPomodoroSession {
+  state: PomodoroState;
+  breakStation: RadioStation | null; // station playing during the current break
+  savedAt: number; // epoch ms
 }
@@ -52,3 +52,68 @@ export interface ClickResponse {
   name: string;
   url: string;
 }
+
+// Preferences that narrow which stations are picked for breaks and shown on the globe and
+// in the station list. Lists are matched case-insensitively; empty lists match everything.
+export interface StationFilters {
+  includeTags: string[];
+  excludeTags: string[];
+  includeLanguages: string[]; // language names or codes, e.g. "english" or "en"
+  excludeLanguages: string[];
+  includeCountries: string[]; // country names or two-letter codes
+  excludeCountries: string[];
+  includeCodecs: string[];
+  excludeCodecs: string[];
+  minBitrate: number; // kbps, 0 for no minimum
+  minVotes: number;
+}
+
+export type StationRating = 1 | -1; // thumbs up or down
+
+// How dependably a station's stream plays, from plays and probes
+export interface StationReliability {
+  attempts: number; // plays and probes
+  failures: number;
+  stalls: number; // times playback stopped to wait for data
+  averageStartMs: number | null; // time to first audio over the attempts that worked
+  lastFailedAt: number | null; // epoch ms
+}
+
+// The outcome of checking that a stream answers with audio
+export interface StreamProbeResult {
+  url: string;
+  ok: boolean;
+  startMs: number | null; // time to the first audio, null when the probe failed
+  status?: number; // HTTP status, from server-side probes
+  contentType?: string;
+  error?: string;
+}
+
+export interface StreamProbeRequest {
+  urls: string[];
+}
+
+export interface StreamProbeResponse {
+  results: StreamProbeResult[];
+}
+
+export interface StationSelectionSettings {
+  noRepeatWithin: number; // breaks before a station may play again, 0 to allow repeats
+  novelty: number; // 0 prefers familiar stations, 1 prefers ones never heard, 0.5 is neutral
+}
+
+// Everything the weighted selector knows about the listener
+export interface StationSelectionContext {
+  favoriteIds: Set<string>;
+  ratings: Record<string, StationRating>;
+  reliability: Record<string, StationReliability>;
+  playCounts: Record<string, number>; // breaks each station has played during
+  recentIds: string[]; // stations of the latest breaks, most recent first
+  settings: StationSelectionSettings;
+}
+
+// Picking stations by the time of day where they broadcast from
+export type TimeOfDayMode =
+  | 'morning' // where it's morning now
+  | 'sameTime' // where the clock shows about the same time as the listener's
+  | 'sunset'; // where the sun is setting
@@ -0,0 +1,50 @@
+import type { PomodoroState, PomodoroSequence } from '@/types/pomodoro';
+import type { RadioStation } from '@/types/radio';
+
+// What a room member is up to, as shown to the others
+export type RoomMemberStatus = 'focusing' | 'break' | 'paused' | 'idle';
+
+export interface RoomMember {
+  id: string;
+  name: string;
+  status: RoomMemberStatus;
+}
+
+export type RoomConnectionState = 'disconnected' | 'connecting' | 'connected';
+
+// The room you're in, remembered across reloads
+export interface SavedRoom {
+  roomId: string;
+  name: string; // how you appear to the others
+}
+
+// The host's timer and playback. Times are on the room server's clock on the wire.
+export interface RoomSnapshot {
+  state: PomodoroState;
+  sequence: PomodoroSequence;
+  station: RadioStation | null;
+  isPlaying: boolean;
+}
+
+// Controls a member forwards to the host
+export type RoomCommand =
+  | { type: 'start' }
+  | { type: 'pause'; reason?: string }
+  | { type: 'reset' }
+  | { type: 'skip' };
+
+export type RoomClientMessage =
+  // Joining creates the room if it's new. The id and token from an earlier welcome rejoin as the same member.
+  | { type: 'join'; roomId: string; name: string; memberId?: string; memberToken?: string }
+  | { type: 'presence'; name: string; status: RoomMemberStatus }
+  | { type: 'snapshot'; snapshot: RoomSnapshot } // host only
+  | { type: 'command'; command: RoomCommand }
+  | { type: 'settings'; sharedStation: boolean }; // host only
+
+export type RoomServerMessage =
+  | { type: 'welcome'; serverTime: number; memberId: string; memberToken: string; hostId: string; snapshot: RoomSnapshot | null; sharedStation: boolean }
+  | { type: 'members'; hostId: string; members: RoomMember[] }
+  | { type: 'snapshot'; snapshot: RoomSnapshot }
+  | { type: 'command'; command: RoomCommand; from: string } // sent to the host, from a member's name
+  | { type: 'settings'; sharedStation: boolean }
+  | { type: 'error'; message: string };
@@ -0,0 +1,15 @@
+export type ShortcutAction =
+  | 'toggleTimer'
+  | 'resetTimer'
+  | 'skipPhase'
+  | 'logInternalInterruption'
+  | 'logExternalInterruption'
+  | 'toggleRadio'
+  | 'volumeUp'
+  | 'volumeDown'
+  | 'toggleFavorite'
+  | 'openPalette'
+  | 'showShortcuts';
+
+// Key combo per action, e.g. 'Space', 'Shift+s' or 'Mod+k' (Mod is Ctrl, or Cmd on macOS)
+export type ShortcutBindings = Record<ShortcutAction, string>;
@@ -0,0 +1,31 @@
+import type { PomodoroState } from '@/types/pomodoro';
+import type { RadioStation } from '@/types/radio';
+import type { InterruptionKind } from '@/types/history';
+
+// Everything a follower tab needs to mirror the leader
+export interface TabSnapshot {
+  state: PomodoroState;
+  station: RadioStation | null;
+  isPlaying: boolean;
+  volume: number;
+}
+
+// Controls a follower forwards to the leader
+export type TabCommand =
+  | { type: 'start' }
+  | { type: 'pause'; reason?: string }
+  | { type: 'reset' }
+  | { type: 'skip' }
+  | { type: 'interrupt'; kind: InterruptionKind; at: number }
+  | { type: 'noteInterruption'; at: number; reason: string }
+  | { type: 'playStation'; station: RadioStation }
+  | { type: 'pauseRadio' }
+  | { type: 'resumeRadio' }
+  | { type: 'stopRadio' }
+  | { type: 'setVolume'; volume: number };
+
+export type TabSyncMessage =
+  | { type: 'hello'; tabId: string } // a follower asking for the current snapshot
+  | { type: 'snapshot'; tabId: string; snapshot: TabSnapshot }
+  | { type: 'command'; tabId: string; command: TabCommand }
+  | { type: 'handover'; tabId: string; snapshot: TabSnapshot }; // the leader is closing
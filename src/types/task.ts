@@ -0,0 +1,9 @@
+export interface Task {
+  id: string;
+  title: string;
+  estimatedPomodoros: number;
+  actualPomodoros: number; // completed work phases while this task was active
+  done: boolean;
+  createdAt: number; // epoch ms
+  completedAt: number | null; // epoch ms
+}
@@ -0,0 +1,22 @@
+import type { RadioStation } from '@/types/radio';
+
+export type Continent = 'africa' | 'asia' | 'europe' | 'northAmerica' | 'southAmerica' | 'oceania';
+
+export type TourRoute = 'east' | 'west' | 'continent' | 'custom';
+
+export type TourStopStatus = 'pending' | 'played' | 'skipped'; // skipped when its stream failed
+
+export interface TourStop {
+  station: RadioStation;
+  lat: number;
+  lng: number;
+  status: TourStopStatus;
+}
+
+export interface WorldTour {
+  id: string;
+  route: TourRoute;
+  continent: Continent | null; // for 'continent' routes
+  stops: TourStop[]; // in travel order
+  startedAt: number; // epoch ms
+}
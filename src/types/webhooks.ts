@@ -0,0 +1,36 @@
+import type { PomodoroActivityType } from '@/types/pomodoro';
+
+export interface Webhook {
+  id: string;
+  name: string;
+  url: string;
+  events: PomodoroActivityType[];
+  payloadTemplate: string; // JSON with {{variable}} placeholders
+  enabled: boolean;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  webhookName: string;
+  event: PomodoroActivityType;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  statusCode?: number; // HTTP status returned by the webhook's server
+  error?: string;
+  createdAt: number; // epoch ms
+}
+
+// Body of a request to the /api/webhooks relay
+export interface WebhookRelayRequest {
+  url: string;
+  payload: unknown;
+}
+
+export interface WebhookRelayResponse {
+  ok: boolean;
+  status?: number; // missing when the server couldn't be reached
+  error?: string;
+}